@@ -0,0 +1,223 @@
+// Room relay for collaborative boards. Run it with `npm run relay` (RELAY_PORT, default
+// 8787) and join the same room from each browser. It has no dependencies and speaks just
+// enough WebSocket for JSON text messages; the board merge itself happens in the clients
+// (src/collab), the relay only tracks who is in which room and forwards messages.
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.RELAY_PORT) || 8787;
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// must match MAX_SITES in src/utils/ids.ts; site 0 is reserved for unshared boards
+const MAX_SITES = 64;
+const MAX_FRAME = 16 * 1024 * 1024;
+const MAX_NAME = 40;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+
+// room name -> Map of peer id -> peer
+const rooms = new Map();
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
+
+// Splits the incoming byte stream into frames, unmasking client payloads
+function frameReader(onFrame) {
+  let buffer = Buffer.alloc(0);
+  return chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > MAX_FRAME) throw new Error(`frame of ${length} bytes is too large`);
+      const maskAt = offset;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskAt + (i % 4)];
+      }
+      buffer = buffer.subarray(offset + length);
+      onFrame(fin, opcode, payload);
+    }
+  };
+}
+
+const publicPeer = ({ id, name, color, site }) => ({ id, name, color, site });
+
+function freeSite(peers) {
+  const taken = new Set([...peers.values()].map(peer => peer.site));
+  for (let site = 1; site < MAX_SITES; site++) {
+    if (!taken.has(site)) return site;
+  }
+  return null;
+}
+
+function broadcast(peers, message, except) {
+  const text = JSON.stringify(message);
+  peers.forEach(peer => {
+    if (peer !== except) peer.send(text);
+  });
+}
+
+// `to` addresses one peer, otherwise everyone else in the room gets it
+function forward(peer, peers, text) {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (!message || typeof message.type !== 'string') return;
+  const { to, ...rest } = message;
+  const out = JSON.stringify({ ...rest, from: peer.id });
+  if (typeof to === 'string') {
+    peers.get(to)?.send(out);
+  } else {
+    peers.forEach(other => {
+      if (other !== peer) other.send(out);
+    });
+  }
+}
+
+// null when the path isn't valid percent-encoding, e.g. ws://host/%
+function roomOf(url) {
+  try {
+    return decodeURIComponent(url.pathname.slice(1)) || 'lobby';
+  } catch {
+    return null;
+  }
+}
+
+function accept(url, roomName, socket) {
+  const peers = rooms.get(roomName) ?? new Map();
+  const site = freeSite(peers);
+  const close = (code, reason) => {
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    socket.end(encodeFrame(OPCODE_CLOSE, payload));
+  };
+
+  if (site === null) {
+    close(1013, 'room is full');
+    return;
+  }
+
+  const color = url.searchParams.get('color') ?? '';
+  const peer = {
+    id: randomUUID(),
+    name: (url.searchParams.get('name') || 'Guest').slice(0, MAX_NAME),
+    color: /^#[0-9a-f]{3,8}$/i.test(color) ? color : '#888888',
+    site,
+    send: text => {
+      if (!socket.destroyed) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text)));
+    },
+  };
+
+  peer.send(JSON.stringify({ type: 'welcome', self: publicPeer(peer), peers: [...peers.values()].map(publicPeer) }));
+  broadcast(peers, { type: 'join', peer: publicPeer(peer) });
+  peers.set(peer.id, peer);
+  rooms.set(roomName, peers);
+  console.log(`${peer.name} joined "${roomName}" (${peers.size} in the room)`);
+
+  let left = false;
+  const leave = () => {
+    if (left) return;
+    left = true;
+    peers.delete(peer.id);
+    if (peers.size === 0) rooms.delete(roomName);
+    broadcast(peers, { type: 'leave', peerId: peer.id });
+    console.log(`${peer.name} left "${roomName}" (${peers.size} in the room)`);
+  };
+
+  // fragmented text messages are collected until their final frame
+  let fragments = [];
+  const read = frameReader((fin, opcode, payload) => {
+    if (opcode === OPCODE_TEXT || (opcode === OPCODE_CONTINUATION && fragments.length > 0)) {
+      fragments.push(payload);
+      if (!fin) return;
+      const text = Buffer.concat(fragments).toString('utf8');
+      fragments = [];
+      forward(peer, peers, text);
+    } else if (opcode === OPCODE_PING) {
+      socket.write(encodeFrame(0xa, payload));
+    } else if (opcode === OPCODE_CLOSE) {
+      socket.end(encodeFrame(OPCODE_CLOSE, payload.subarray(0, 2)));
+      leave();
+    }
+  });
+
+  socket.on('data', chunk => {
+    try {
+      read(chunk);
+    } catch (error) {
+      console.warn(`Dropping ${peer.name}: ${error.message}`);
+      close(1009, 'message too big');
+      leave();
+    }
+  });
+  socket.on('close', leave);
+  socket.on('error', leave);
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`Board relay: ${rooms.size} room(s) open. Connect with a WebSocket to ws://host:${PORT}/<room>\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  const url = new URL(req.url ?? '/', 'http://relay');
+  const roomName = roomOf(url);
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket' || roomName === null) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const acceptKey = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${acceptKey}`,
+    '',
+    '',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  accept(url, roomName, socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`Board relay listening on ws://localhost:${PORT}`);
+});
@@ -1,22 +1,122 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import CameraView from './components/CameraView';
-import VirtualCursor from './components/VirtualCursor';
-import InteractiveElements, { type DraggableBox } from './components/InteractiveElements';
+import VirtualCursor, { type HandCursor } from './components/VirtualCursor';
+import InteractiveElements from './components/InteractiveElements';
 import DrawingCanvas from './components/DrawingCanvas';
 import DemoButtons from './components/Buttons';
 import PerformanceStats from './components/PerformanceStats';
+import RecordingControls from './components/RecordingControls';
+import CalibrationWizard from './components/CalibrationWizard';
+import WorkspaceMenu from './components/WorkspaceMenu';
+import HistoryControls from './components/HistoryControls';
+import Minimap from './components/Minimap';
+import LayoutControls, { type ArrangeMode } from './components/LayoutControls';
+import CollabPanel from './components/CollabPanel';
+import GestureTrainer from './components/GestureTrainer';
+import SettingsPanel from './components/SettingsPanel';
+import RemoteCursors from './components/RemoteCursors';
+import HandInputProvider from './handInput/HandInputProvider';
 import useHandTracking from './hooks/useHandTracking';
+import useMotionGestures from './hooks/useMotionGestures';
+import useWorkspace from './hooks/useWorkspace';
+import useUndoShortcuts from './hooks/useUndoShortcuts';
+import useActionBindings from './hooks/useActionBindings';
+import useCameraControls from './hooks/useCameraControls';
+import useCollaboration from './hooks/useCollaboration';
+import useTrainedGestures from './hooks/useTrainedGestures';
+import { Emitter } from './utils/emitter';
+import { isFrame, nextZ, noteAt } from './utils/notes';
+import { randomPos } from './utils/geometry';
+import { nextId } from './utils/ids';
+import { screenToWorld, visibleRect } from './utils/camera';
+import { arrangeByColor, arrangeGrid, findFreeSpot } from './utils/layout';
+import type { MotionGestureEvent } from './utils/motionGestures';
+import { TRAINED_GESTURES_KEY, type TrainedGesture } from './utils/gestureTraining';
+import type { ActionId } from './utils/actions';
+import { buttonActions, loadBindings, saveBindings, type BindingSet } from './utils/bindings';
+import type { BoardDocument } from './utils/boardExport';
+import { CALIBRATION_KEY, type Calibration } from './utils/calibration';
+import {
+  DEFAULT_PROFILE,
+  deleteProfile,
+  getActiveProfile,
+  listProfiles,
+  loadProfileData,
+  profileName,
+  removeProfileData,
+  saveProfileData,
+  setActiveProfile,
+} from './utils/profileStorage';
+import { loadSettings, saveSettings, type UserSettings } from './utils/userSettings';
+import { DEFAULT_GESTURES, withSensitivity } from './utils/gestureDefinitions';
+import { SMOOTHING_PRESETS } from './utils/smoothing';
+import type { HandRecording } from './utils/landmarkRecording';
+import { createHandTrackingProvider, trackingConfigFromEnvironment } from './tracking/config';
+import { ReplayProvider } from './tracking/replayProvider';
 import './App.css';
 
+const SNAP_TO_GRID_KEY = 'snapToGrid';
+const FRAME_WIDTH = 480;
+const FRAME_HEIGHT = 340;
+// screen-space left edge of the board area, right of the note buttons
+const BOARD_LEFT = 240;
+
+const topButtonStyle: React.CSSProperties = {
+  padding: '10px 16px',
+  background: 'rgba(26, 26, 46, 0.8)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '8px',
+  color: '#e0e0e0',
+  fontSize: '14px',
+  cursor: 'pointer',
+  backdropFilter: 'blur(10px)',
+};
+
 function App() {
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
   const [cursorPosition, setCursorPosition] = useState({ x: 0, y: 0 });
   const [isCursorVisible, setIsCursorVisible] = useState(false);
   const [isPinching, setIsPinching] = useState(false);
   const [isFist, setIsFist] = useState(false);
+  const [gesture, setGesture] = useState<string | null>(null);
+  const [lastMotion, setLastMotion] = useState<string | null>(null);
+  const [cursors, setCursors] = useState<HandCursor[]>([]);
+  const [profile, setProfile] = useState(getActiveProfile);
+  const [profiles, setProfiles] = useState(listProfiles);
+  const [settings, setSettings] = useState<UserSettings>(() => loadSettings());
+  const [bindings, setBindings] = useState<BindingSet>(() => loadBindings());
+  const [showSettings, setShowSettings] = useState(false);
+  const [calibration, setCalibration] = useState<Calibration | null>(() => loadProfileData<Calibration>(CALIBRATION_KEY));
+  const [isCalibrating, setIsCalibrating] = useState(false);
   const [isDrawingMode, setIsDrawingMode] = useState(false);
   const [showPerformanceStats, setShowPerformanceStats] = useState(false);
-  const [boxes, setBoxes] = useState<DraggableBox[]>([]);
+  const [snapToGrid, setSnapToGrid] = useState(() => loadProfileData<boolean>(SNAP_TO_GRID_KEY) ?? false);
+  const [trainedGestures, setTrainedGestures] = useState<TrainedGesture[]>(() => loadProfileData<TrainedGesture[]>(TRAINED_GESTURES_KEY) ?? []);
+  const [trainedGesture, setTrainedGesture] = useState<string | null>(null);
+  const {
+    workspace,
+    summaries,
+    saveStatus,
+    setBoxes,
+    setStrokes,
+    setConnectors,
+    camera,
+    setCamera,
+    history,
+    undo,
+    redo,
+    switchTo,
+    create,
+    importBoard,
+    rename,
+    remove,
+    applyRemote,
+    currentBoard,
+    changes,
+  } = useWorkspace();
+  const collab = useCollaboration({ changes, currentBoard, applyRemote, importBoard, cursors, camera });
+  const { site, leave: leaveRoom } = collab;
+  const [replay, setReplay] = useState<HandRecording | null>(null);
   
   const onVideoReady = useCallback((video: HTMLVideoElement) => {
     setVideoElement(video);
@@ -35,33 +135,63 @@ function App() {
     setIsFist(val);
   }, []);
 
-  const onBtnAction = useCallback((action: string) => {
+  const onArrange = useCallback((mode: ArrangeMode) => {
+    const origin = screenToWorld(camera, { x: BOARD_LEFT, y: 120 });
+    setBoxes(prevBoxes => mode === 'grid' ? arrangeGrid(prevBoxes, origin) : arrangeByColor(prevBoxes, origin));
+  }, [camera, setBoxes]);
+
+  const onAddFrame = useCallback(() => {
+    setBoxes(prevBoxes => {
+      const newId = nextId(prevBoxes.map(b => b.id), site);
+      const frameCount = prevBoxes.filter(isFrame).length + 1;
+      const { x, y } = screenToWorld(camera, randomPos(FRAME_WIDTH * camera.zoom, FRAME_HEIGHT * camera.zoom));
+      return [...prevBoxes, {
+        id: newId,
+        x,
+        y,
+        width: FRAME_WIDTH,
+        height: FRAME_HEIGHT,
+        color: '#4ECDC4',
+        label: `Frame ${frameCount}`,
+        text: '',
+        kind: 'frame',
+        z: nextZ(prevBoxes),
+      }];
+    });
+  }, [camera, setBoxes, site]);
+
+  // actions run elsewhere than App, see runAction
+  const actionEvents = useMemo(() => new Emitter<ActionId>(), []);
+
+  const runAction = useCallback((action: ActionId) => {
     const colors = ['#FFF9C4', '#FFE4E1', '#E0F7FA', '#F3E5F5', '#E8F5E9', '#FFF3E0'];
     
     switch (action) {
       case 'add-box':
         setBoxes(prevBoxes => {
-          const newId = Math.max(...prevBoxes.map(b => b.id), 0) + 1;
+          const newId = nextId(prevBoxes.map(b => b.id), site);
           const notepadWidth = 200;
           const notepadHeight = 250;
-          
-          const maxX = window.innerWidth - notepadWidth - 20;
-          const maxY = window.innerHeight - notepadHeight - 20;
-          const minX = 20;
-          const minY = 20;
-          
-          const randomX = minX + Math.random() * Math.max(0, maxX - minX);
-          const randomY = minY + Math.random() * Math.max(0, maxY - minY);
+          // the first free spot in the current view, or anywhere in it when the view is full
+          const view = visibleRect(camera, { width: window.innerWidth, height: window.innerHeight });
+          const boardLeft = BOARD_LEFT / camera.zoom;
+          const { x, y } = findFreeSpot(
+            { width: notepadWidth, height: notepadHeight },
+            prevBoxes,
+            { ...view, x: view.x + boardLeft, width: view.width - boardLeft },
+            screenToWorld(camera, randomPos(notepadWidth * camera.zoom, notepadHeight * camera.zoom)),
+          );
           
           return [...prevBoxes, {
             id: newId,
-            x: randomX,
-            y: randomY,
+            x,
+            y,
             width: notepadWidth,
             height: notepadHeight,
             color: '#FFF9C4',
             label: `Note ${newId}`,
             text: '',
+            z: nextZ(prevBoxes),
           }];
         });
         break;
@@ -77,126 +207,408 @@ function App() {
         })));
         break;
         
+      case 'add-frame':
+        onAddFrame();
+        break;
+
       case 'toggle-draw':
         setIsDrawingMode(!isDrawingMode);
         break;
+
+      case 'undo':
+        undo();
+        break;
+
+      case 'redo':
+        redo();
+        break;
+
+      case 'arrange-grid':
+        onArrange('grid');
+        break;
+
+      case 'arrange-color':
+        onArrange('color');
+        break;
+
+      // the drawing canvas owns the brush, it picks these up itself
+      case 'next-color':
+      case 'previous-color':
+        actionEvents.emit(action);
+        break;
     }
-  }, [isDrawingMode]);
+  }, [isDrawingMode, setBoxes, camera, site, onAddFrame, undo, redo, onArrange, actionEvents]);
+
+  // a room is tied to the board it was joined on, opening another one leaves it
+  const onSwitchWorkspace = useCallback((id: string) => {
+    leaveRoom();
+    switchTo(id);
+  }, [leaveRoom, switchTo]);
+
+  const onCreateWorkspace = useCallback((name: string) => {
+    leaveRoom();
+    create(name);
+  }, [leaveRoom, create]);
+
+  const onImportBoard = useCallback((board: BoardDocument) => {
+    leaveRoom();
+    importBoard(board);
+  }, [leaveRoom, importBoard]);
+
+  const onDeleteWorkspace = useCallback((id: string) => {
+    if (id === workspace.id) leaveRoom();
+    remove(id);
+  }, [leaveRoom, remove, workspace.id]);
+
+  const onTrainedGesturesChange = useCallback((gestures: TrainedGesture[]) => {
+    setTrainedGestures(gestures);
+    saveProfileData(TRAINED_GESTURES_KEY, gestures);
+  }, []);
+
+  const onSnapToGridChange = useCallback((snap: boolean) => {
+    setSnapToGrid(snap);
+    saveProfileData(SNAP_TO_GRID_KEY, snap);
+  }, []);
+
+  const onSettingsChange = useCallback((next: UserSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  }, []);
+
+  const onBindingsChange = useCallback((next: BindingSet) => {
+    setBindings(next);
+    saveBindings(next);
+  }, []);
+
+  const boardButtons = useMemo(() => buttonActions(bindings.bindings, 'board'), [bindings]);
+
+  // everything stored per profile is reloaded; boards are shared between profiles
+  const switchProfile = useCallback((next: string) => {
+    setActiveProfile(next);
+    setProfile(next);
+    setProfiles(listProfiles());
+    setSettings(loadSettings(next));
+    setCalibration(loadProfileData<Calibration>(CALIBRATION_KEY, next));
+    setSnapToGrid(loadProfileData<boolean>(SNAP_TO_GRID_KEY, next) ?? false);
+    setTrainedGestures(loadProfileData<TrainedGesture[]>(TRAINED_GESTURES_KEY, next) ?? []);
+    setBindings(loadBindings(next));
+  }, []);
+
+  const onCreateProfile = useCallback((name: string) => {
+    const next = profileName(name);
+    if (!next) return;
+    // saving the settings is what makes the profile show up in the list
+    if (!listProfiles().includes(next)) saveSettings(loadSettings(next), next);
+    switchProfile(next);
+  }, [switchProfile]);
+
+  const onDeleteProfile = useCallback((name: string) => {
+    deleteProfile(name);
+    switchProfile(DEFAULT_PROFILE);
+  }, [switchProfile]);
+
+  const gestureDefinitions = useMemo(
+    () => withSensitivity(DEFAULT_GESTURES, { pinch: settings.pinchSensitivity, fist: settings.fistSensitivity }),
+    [settings.pinchSensitivity, settings.fistSensitivity]
+  );
+
+  const trackingConfig = useMemo(() => trackingConfigFromEnvironment(), []);
+  const provider = useMemo(
+    () => replay ? new ReplayProvider(replay) : createHandTrackingProvider(trackingConfig),
+    [replay, trackingConfig]
+  );
 
   const { isTracking, hands } = useHandTracking({ 
     videoElement,
+    provider,
+  });
+
+  const motionEvents = useMemo(() => new Emitter<MotionGestureEvent>(), []);
+  useMotionGestures({ hands, events: motionEvents });
+  useTrainedGestures({
+    hands,
+    gestures: trainedGestures,
+    onAction: runAction,
+    onGestureChange: setTrainedGesture,
+    enabled: !isCalibrating,
   });
 
+  useEffect(() => motionEvents.subscribe(event => {
+    switch (event.type) {
+      case 'swipe':
+        setLastMotion(`swipe ${event.direction}`);
+        break;
+      case 'circle':
+        setLastMotion(event.direction === 'cw' ? 'circle clockwise' : 'circle counter-clockwise');
+        break;
+      case 'push':
+        setLastMotion('push');
+        break;
+      case 'hold':
+        setLastMotion(`hold (${event.name})`);
+        break;
+    }
+  }), [motionEvents]);
+
+  useUndoShortcuts({ onUndo: undo, onRedo: redo, enabled: !isCalibrating });
+  useActionBindings({
+    cursors,
+    motionEvents,
+    bindings: bindings.bindings,
+    mode: isDrawingMode ? 'draw' : 'board',
+    onAction: runAction,
+    enabled: !isCalibrating,
+  });
+
+  // the board is grabbed only where there's nothing else to grab
+  const canPanAt = useCallback((p: { x: number; y: number }) => {
+    if (!isDrawingMode && noteAt(workspace.boxes, screenToWorld(camera, p))) return false;
+    return !document.elementFromPoint(p.x, p.y)?.closest('button, textarea, [data-hand-panel]');
+  }, [isDrawingMode, workspace.boxes, camera]);
+
+  useCameraControls({ cursors, onCameraChange: setCamera, canPanAt, spreadZoom: !isDrawingMode, enabled: !isCalibrating });
+
   return (
-    <div className="app">
-      <label
-        style={{
-          position: 'fixed',
-          top: '20px',
-          right: '20px',
-          display: 'flex',
-          alignItems: 'center',
-          gap: '8px',
-          padding: '10px 16px',
-          background: 'rgba(26, 26, 46, 0.8)',
-          border: '1px solid rgba(255, 255, 255, 0.2)',
-          borderRadius: '8px',
-          color: '#e0e0e0',
-          fontSize: '14px',
-          cursor: 'pointer',
-          zIndex: 10001,
-          backdropFilter: 'blur(10px)',
-          userSelect: 'none',
-        }}
-      >
-        <input
-          type="checkbox"
-          checked={showPerformanceStats}
-          onChange={(e) => setShowPerformanceStats(e.target.checked)}
-          style={{ cursor: 'pointer' }}
-        />
-        Show Performance
-      </label>
-
-      <main className="app-main">
-        <CameraView 
-          onVideoReady={onVideoReady}
-          hands={hands}
-          showOverlay={true}
-        />
-      </main>
-      
-      <div className="info-grid" style={{
-        display: 'grid',
-        gridTemplateColumns: '1fr 1fr',
-        gap: '1.5rem',
-        maxWidth: '1400px',
-        margin: '1.5rem auto 2rem',
-        padding: '0 2rem',
-      }}>
-        <div className="status">
-          {videoElement && (
-            <>
-              <p>Camera connected</p>
-              {isTracking && <p>Hand tracking: {hands.length} hand(s) detected</p>}
-            </>
-          )}
-          {!videoElement && <p>Initializing camera...</p>}
+    <HandInputProvider cursors={cursors}>
+      <div className="app">
+        <div
+          style={{
+            position: 'fixed',
+            top: '20px',
+            right: '20px',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'stretch',
+            gap: '10px',
+            width: '260px',
+            zIndex: 10001,
+          }}
+        >
+          <label
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '10px 16px',
+              background: 'rgba(26, 26, 46, 0.8)',
+              border: '1px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '8px',
+              color: '#e0e0e0',
+              fontSize: '14px',
+              cursor: 'pointer',
+              backdropFilter: 'blur(10px)',
+              userSelect: 'none',
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={showPerformanceStats}
+              onChange={(e) => setShowPerformanceStats(e.target.checked)}
+              style={{ cursor: 'pointer' }}
+            />
+            Show Performance
+          </label>
+
+          <RecordingControls hands={hands} replay={replay} onReplayChange={setReplay} />
+
+          <WorkspaceMenu
+            workspace={workspace}
+            summaries={summaries}
+            saveStatus={saveStatus}
+            onSwitch={onSwitchWorkspace}
+            onCreate={onCreateWorkspace}
+            onRename={rename}
+            onDelete={onDeleteWorkspace}
+            onImport={onImportBoard}
+          />
+
+          <HistoryControls history={history} onUndo={undo} onRedo={redo} />
+
+          <CollabPanel
+            room={collab.room}
+            status={collab.status}
+            self={collab.self}
+            peers={collab.peers}
+            defaultRoom={workspace.name}
+            onJoin={collab.join}
+            onLeave={leaveRoom}
+          />
+
+          <GestureTrainer
+            hands={hands}
+            gestures={trainedGestures}
+            onChange={onTrainedGesturesChange}
+            current={trainedGesture}
+          />
         </div>
 
-        <div className="status">
-          <p style={{ fontWeight: 'bold', marginBottom: '0.75rem', color: '#8b5cf6' }}>How to Use:</p>
-          <ul style={{ textAlign: 'left', fontSize: '0.95rem', lineHeight: '1.6', paddingLeft: '1.5rem' }}>
-            <li>Your index finger controls the cursor</li>
-            <li>Pinch (thumb + index) to click</li>
-            <li>Make a fist to drag notes</li>
-            <li>Use left buttons to add/manage notes</li>
-          </ul>
+        <div style={{ position: 'fixed', top: '20px', left: '20px', display: 'flex', gap: '8px', zIndex: 10001 }}>
+          <button onClick={() => setIsCalibrating(true)} style={topButtonStyle}>
+            {calibration ? 'Recalibrate Cursor' : 'Calibrate Cursor'}
+          </button>
+          <button onClick={() => setShowSettings(prev => !prev)} style={topButtonStyle}>
+            Settings ({profile})
+          </button>
         </div>
-      </div>
 
-      <VirtualCursor 
-        hands={hands} 
-        onPosChange={onCursorMove}
-        onPinch={onPinch}
-        onFist={onFist}
-      />
-      {!isDrawingMode && (
-        <>
-          <InteractiveElements 
-            cursorPosition={cursorPosition} 
-            isHandDetected={isCursorVisible}
-            isPinching={isPinching}
-            isFist={isFist}
-            boxes={boxes}
-            onBoxesChange={setBoxes}
+        {showSettings && !isCalibrating && (
+          <SettingsPanel
+            hands={hands}
+            profile={profile}
+            profiles={profiles}
+            settings={settings}
+            onSettingsChange={onSettingsChange}
+            bindings={bindings}
+            onBindingsChange={onBindingsChange}
+            onSwitchProfile={switchProfile}
+            onCreateProfile={onCreateProfile}
+            onDeleteProfile={onDeleteProfile}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+
+        {isCalibrating && (
+          <CalibrationWizard
+            hands={hands}
+            cursors={cursors}
+            onComplete={(next) => {
+              saveProfileData(CALIBRATION_KEY, next);
+              setCalibration(next);
+              setIsCalibrating(false);
+            }}
+            onReset={() => {
+              removeProfileData(CALIBRATION_KEY);
+              setCalibration(null);
+              setIsCalibrating(false);
+            }}
+            onCancel={() => setIsCalibrating(false)}
           />
-          <DemoButtons
-            cursorPosition={cursorPosition}
-            isHandDetected={isCursorVisible}
-            isPinching={isPinching}
-            isFist={isFist}
-            onAction={onBtnAction}
+        )}
+
+        <main className="app-main">
+          <CameraView 
+            onVideoReady={onVideoReady}
+            hands={hands}
+            showOverlay={true}
           />
-        </>
-      )}
-      <DrawingCanvas
-        cursorPosition={cursorPosition}
-        isHandDetected={isCursorVisible}
-        isPinching={isPinching}
-        isDrawingMode={isDrawingMode}
-        onExit={() => setIsDrawingMode(false)}
-      />
-      {showPerformanceStats && <PerformanceStats hands={hands} isTracking={isTracking} />}
-      <footer className="app-footer">
-  <p className="footer-credit">
-    Built by <a href="https://meetjunayed.netlify.app/" target="_blank" rel="noopener noreferrer">Md Junayed Bin Karim</a> ·
-    <a href="https://linkedin.com/in/junayed-bin-karim-47b755270" target="_blank" rel="noopener noreferrer" style={{ marginLeft: "6px" }}>LinkedIn</a>
-  </p>
-</footer>
+        </main>
+      
+        <div className="info-grid" style={{
+          display: 'grid',
+          gridTemplateColumns: '1fr 1fr',
+          gap: '1.5rem',
+          maxWidth: '1400px',
+          margin: '1.5rem auto 2rem',
+          padding: '0 2rem',
+        }}>
+          <div className="status">
+            {videoElement && (
+              <>
+                <p>Camera connected</p>
+                {isTracking && <p>Hand tracking: {hands.length} hand(s) detected</p>}
+              </>
+            )}
+            {!videoElement && provider.needsVideo && <p>Initializing camera...</p>}
+            {!provider.needsVideo && <p>Tracking source: {provider.name} ({hands.length} hand(s))</p>}
+            {gesture && <p>Gesture: {gesture.replace('_', ' ')}</p>}
+            {trainedGesture && <p>Custom gesture: {trainedGesture}</p>}
+            {lastMotion && <p>Last motion: {lastMotion}</p>}
+          </div>
+
+          <div className="status">
+            <p style={{ fontWeight: 'bold', marginBottom: '0.75rem', color: '#8b5cf6' }}>How to Use:</p>
+            <ul style={{ textAlign: 'left', fontSize: '0.95rem', lineHeight: '1.6', paddingLeft: '1.5rem' }}>
+              <li>Your index finger controls the cursor</li>
+              <li>Pinch (thumb + index) to click</li>
+              <li>Make a fist to drag notes, drop one on the trash to delete it</li>
+              <li>Pinch and hold a note to type on the air keyboard; turn on swipe typing to trace words</li>
+              <li>Pinch a note's bottom-right corner to resize it; its header button switches text, markdown and checklist</li>
+              <li>Pinch a note with both hands to resize and rotate it</li>
+              <li>Fist-drag empty space to pan the board; pinch it with both hands and spread to zoom (or Ctrl+scroll)</li>
+              <li>Dragged notes snap to their neighbors' edges and centers; Tidy and By color rearrange the whole board</li>
+              <li>Pinch a note and drag to another to link them with an arrow (again to unlink); frames carry the notes inside them</li>
+              <li>Pinch the minimap to jump around, Fit All shows the whole board</li>
+              <li>Use left buttons to add/manage notes</li>
+              <li>Hold still over a button to click it, swipe a note away to dismiss it</li>
+              <li>Swipe left/right in draw mode to change colors</li>
+              <li>Open Brush in draw mode for the color wheel and sliders; rest an open hand on one and twist your wrist to fine-tune</li>
+              <li>Pick erasers, shapes or the lasso in the drawing toolbar; fist over a selection deletes it</li>
+              <li>Thumbs down to undo, thumbs up to redo (or Ctrl+Z / Ctrl+Shift+Z)</li>
+              <li>Record your own poses under Custom gestures and give each one an action</li>
+              <li>Open Settings to pick your profile, dominant hand, smoothing and pinch/fist sensitivity</li>
+              <li>Under Settings &gt; Bindings, remap poses, swipes and the left buttons, including what clicks and grabs</li>
+              <li>Run <code>npm run relay</code> and join the same room from another browser to edit one board together</li>
+            </ul>
+          </div>
+        </div>
+
+        <VirtualCursor 
+          hands={hands} 
+          onPosChange={onCursorMove}
+          onPinch={onPinch}
+          onFist={onFist}
+          onGesture={setGesture}
+          onCursorsChange={setCursors}
+          calibration={calibration}
+          smoothing={SMOOTHING_PRESETS[settings.smoothing]}
+          gestures={gestureDefinitions}
+          dominantHand={settings.dominantHand}
+          normalizeReach={settings.normalizeReach}
+          pointerPoses={bindings.pointer}
+        />
+        {!isDrawingMode && !isCalibrating && (
+          <>
+            <InteractiveElements 
+              cursorPosition={cursorPosition} 
+              isHandDetected={isCursorVisible}
+              isPinching={isPinching}
+              isFist={isFist}
+              boxes={workspace.boxes}
+              onBoxesChange={setBoxes}
+              connectors={workspace.connectors}
+              onConnectorsChange={setConnectors}
+              motionEvents={motionEvents}
+              cursors={cursors}
+              camera={camera}
+              snapToGrid={snapToGrid}
+              lockedNotes={collab.lockedNotes}
+              site={site}
+              calibration={calibration}
+              normalizeReach={settings.normalizeReach}
+            />
+            <DemoButtons actions={boardButtons} onAction={runAction} />
+            <LayoutControls
+              snapToGrid={snapToGrid}
+              onSnapToGridChange={onSnapToGridChange}
+              onArrange={onArrange}
+              onAddFrame={onAddFrame}
+            />
+          </>
+        )}
+        <DrawingCanvas
+          key={profile}
+          isDrawingMode={isDrawingMode}
+          onExit={() => setIsDrawingMode(false)}
+          actions={actionEvents}
+          strokes={workspace.strokes}
+          onStrokesChange={setStrokes}
+          camera={camera}
+        />
+        {!isCalibrating && (
+          <Minimap boxes={workspace.boxes} strokes={workspace.strokes} camera={camera} onCameraChange={setCamera} />
+        )}
+        <RemoteCursors cursors={collab.remoteCursors} camera={camera} />
+        {showPerformanceStats && <PerformanceStats hands={hands} isTracking={isTracking} />}
+        <footer className="app-footer">
+    <p className="footer-credit">
+      Built by <a href="https://meetjunayed.netlify.app/" target="_blank" rel="noopener noreferrer">Md Junayed Bin Karim</a> ·
+      <a href="https://linkedin.com/in/junayed-bin-karim-47b755270" target="_blank" rel="noopener noreferrer" style={{ marginLeft: "6px" }}>LinkedIn</a>
+    </p>
+  </footer>
 
       
-    </div>
+      </div>
+    </HandInputProvider>
   );
 }
 
@@ -0,0 +1,256 @@
+import type { DraggableBox } from '../components/InteractiveElements';
+import type { BoardCommand, BoardState } from '../utils/history';
+import type { ItemStamps, Stamp, SyncOp, SyncSnapshot } from './protocol';
+
+// how long a note stays held by whoever last moved it
+export const LEASE_MS = 1500;
+const GEOMETRY_KEYS = ['x', 'y', 'width', 'height', 'rotation'];
+
+const compare = (a: Stamp, b: Stamp) => a.clock - b.clock || (a.peer < b.peer ? -1 : a.peer > b.peer ? 1 : 0);
+const newer = (a: Stamp, b: Stamp | null | undefined) => !b || compare(a, b) > 0;
+
+// items that were on the board before syncing started have no stamps and count as added
+const itemAlive = (stamps: ItemStamps) => !stamps.deleted || (!!stamps.added && compare(stamps.added, stamps.deleted) > 0);
+
+interface Lease {
+  peer: string;
+  since: Stamp;
+  expires: number;
+}
+
+// Turns local history commands into operations for the room and merges everyone's
+// operations into the board. Notes are last-writer-wins per field; strokes and
+// connectors are add/remove sets keyed by a room-wide key. Applying an op twice, or
+// ops in a different order, ends in the same board for everyone.
+export class BoardSync {
+  readonly self: string;
+  private clock = 0;
+  private counter = 0;
+  private created = new Map<number, Stamp>();
+  private deleted = new Map<number, Stamp>();
+  private fields = new Map<number, Map<string, Stamp>>();
+  private items = new Map<string, ItemStamps>();
+  // strokes and connectors are immutable, so the object itself carries the key
+  private keys = new WeakMap<object, string>();
+  private leases = new Map<number, Map<string, Lease>>();
+
+  constructor(self: string) {
+    this.self = self;
+  }
+
+  private stamp(): Stamp {
+    this.clock += 1;
+    return { clock: this.clock, peer: this.self };
+  }
+
+  private keyOf(item: object): string {
+    let key = this.keys.get(item);
+    if (!key) {
+      this.counter += 1;
+      key = `${this.self}:${this.counter}`;
+      this.keys.set(item, key);
+    }
+    return key;
+  }
+
+  private itemStamps(key: string): ItemStamps {
+    let stamps = this.items.get(key);
+    if (!stamps) {
+      stamps = { added: null, deleted: null };
+      this.items.set(key, stamps);
+    }
+    return stamps;
+  }
+
+  private noteAlive(id: number) {
+    const deleted = this.deleted.get(id);
+    if (!deleted) return true;
+    const created = this.created.get(id);
+    return !!created && compare(created, deleted) > 0;
+  }
+
+  // Records the stamp on every field it's newer for; returns the fields that won
+  private claimFields(id: number, fields: Partial<DraggableBox>, stamp: Stamp): Partial<DraggableBox> {
+    const stamps = this.fields.get(id) ?? new Map<string, Stamp>();
+    this.fields.set(id, stamps);
+    const won: Partial<DraggableBox> = {};
+    Object.entries(fields).forEach(([key, value]) => {
+      if (!newer(stamp, stamps.get(key))) return;
+      stamps.set(key, stamp);
+      Object.assign(won, { [key]: value });
+    });
+    return won;
+  }
+
+  private recordMove(id: number, peer: string, stamp: Stamp, now: number) {
+    const leases = this.leases.get(id) ?? new Map<string, Lease>();
+    const current = leases.get(peer);
+    leases.set(peer, { peer, since: current && current.expires > now ? current.since : stamp, expires: now + LEASE_MS });
+    this.leases.set(id, leases);
+  }
+
+  localOps(command: BoardCommand, now = performance.now()): SyncOp[] {
+    switch (command.type) {
+      case 'add-notes':
+        return command.notes.map(({ item }) => {
+          const stamp = this.stamp();
+          this.created.set(item.id, stamp);
+          this.claimFields(item.id, item, stamp);
+          return { type: 'note-put', id: item.id, fields: item, full: true, stamp };
+        });
+      case 'delete-notes':
+        return command.notes.map(({ item }) => {
+          const stamp = this.stamp();
+          this.deleted.set(item.id, stamp);
+          return { type: 'note-delete', id: item.id, stamp };
+        });
+      case 'update-notes':
+        return command.changes.map(({ id, after }) => {
+          const stamp = this.stamp();
+          this.claimFields(id, after, stamp);
+          if (Object.keys(after).some(key => GEOMETRY_KEYS.includes(key))) this.recordMove(id, this.self, stamp, now);
+          return { type: 'note-put', id, fields: after, full: false, stamp };
+        });
+      case 'add-strokes':
+        return command.strokes.map(({ item, index }) => {
+          const stamp = this.stamp();
+          const key = this.keyOf(item);
+          this.itemStamps(key).added = stamp;
+          return { type: 'stroke-add', key, stroke: item, index, stamp };
+        });
+      case 'delete-strokes':
+        return command.strokes.map(({ item }) => {
+          const stamp = this.stamp();
+          const key = this.keyOf(item);
+          this.itemStamps(key).deleted = stamp;
+          return { type: 'stroke-delete', key, stamp };
+        });
+      case 'add-connectors':
+        return command.connectors.map(({ item }) => {
+          const stamp = this.stamp();
+          const key = this.keyOf(item);
+          this.itemStamps(key).added = stamp;
+          return { type: 'connector-add', key, connector: item, stamp };
+        });
+      case 'delete-connectors':
+        return command.connectors.map(({ item }) => {
+          const stamp = this.stamp();
+          const key = this.keyOf(item);
+          this.itemStamps(key).deleted = stamp;
+          return { type: 'connector-delete', key, stamp };
+        });
+      case 'batch':
+        return command.commands.flatMap(c => this.localOps(c, now));
+    }
+  }
+
+  // Adds or drops one stroke or connector to match its stamps
+  private syncItem<T extends object>(list: T[], key: string, item: T | null, index: number): T[] {
+    const present = list.findIndex(existing => this.keys.get(existing) === key);
+    const alive = itemAlive(this.itemStamps(key));
+    if (alive && present < 0 && item) {
+      this.keys.set(item, key);
+      const next = [...list];
+      next.splice(Math.max(0, Math.min(index, next.length)), 0, item);
+      return next;
+    }
+    if (!alive && present >= 0) return list.filter((_, i) => i !== present);
+    return list;
+  }
+
+  // Merges operations from the room; returns the same board when nothing changed
+  applyOps(board: BoardState, ops: SyncOp[], now = performance.now()): BoardState {
+    let { boxes, strokes, connectors } = board;
+
+    ops.forEach(op => {
+      this.clock = Math.max(this.clock, op.stamp.clock);
+      switch (op.type) {
+        case 'note-put': {
+          if (op.full && newer(op.stamp, this.created.get(op.id))) this.created.set(op.id, op.stamp);
+          const won = this.claimFields(op.id, op.fields, op.stamp);
+          const existing = boxes.find(box => box.id === op.id);
+          if (!this.noteAlive(op.id)) {
+            if (existing) boxes = boxes.filter(box => box.id !== op.id);
+          } else if (existing && Object.keys(won).length > 0) {
+            boxes = boxes.map(box => (box.id === op.id ? { ...box, ...won } : box));
+          } else if (!existing && op.full) {
+            boxes = [...boxes, op.fields as DraggableBox];
+          }
+          if (!op.full && Object.keys(op.fields).some(key => GEOMETRY_KEYS.includes(key))) {
+            this.recordMove(op.id, op.stamp.peer, op.stamp, now);
+          }
+          break;
+        }
+        case 'note-delete':
+          if (newer(op.stamp, this.deleted.get(op.id))) this.deleted.set(op.id, op.stamp);
+          if (!this.noteAlive(op.id)) boxes = boxes.filter(box => box.id !== op.id);
+          break;
+        case 'stroke-add':
+        case 'connector-add': {
+          const stamps = this.itemStamps(op.key);
+          if (newer(op.stamp, stamps.added)) stamps.added = op.stamp;
+          if (op.type === 'stroke-add') strokes = this.syncItem(strokes, op.key, op.stroke, op.index);
+          else connectors = this.syncItem(connectors, op.key, op.connector, connectors.length);
+          break;
+        }
+        case 'stroke-delete':
+        case 'connector-delete': {
+          const stamps = this.itemStamps(op.key);
+          if (newer(op.stamp, stamps.deleted)) stamps.deleted = op.stamp;
+          if (op.type === 'stroke-delete') strokes = this.syncItem(strokes, op.key, null, 0);
+          else connectors = this.syncItem(connectors, op.key, null, 0);
+          break;
+        }
+      }
+    });
+
+    if (boxes === board.boxes && strokes === board.strokes && connectors === board.connectors) return board;
+    return { boxes, strokes, connectors };
+  }
+
+  // Notes someone else is moving and started moving first, mapped to who holds them
+  heldByOthers(now = performance.now()): Map<number, string> {
+    const held = new Map<number, string>();
+    for (const [id, leases] of this.leases) {
+      let winner: Lease | null = null;
+      for (const lease of [...leases.values()]) {
+        if (lease.expires <= now) {
+          leases.delete(lease.peer);
+        } else if (!winner || compare(lease.since, winner.since) < 0) {
+          winner = lease;
+        }
+      }
+      if (leases.size === 0) this.leases.delete(id);
+      if (winner && winner.peer !== this.self) held.set(id, winner.peer);
+    }
+    return held;
+  }
+
+  dropPeer(peer: string) {
+    this.leases.forEach(leases => leases.delete(peer));
+  }
+
+  snapshot(board: BoardState): SyncSnapshot {
+    return {
+      board,
+      strokeKeys: board.strokes.map(stroke => this.keyOf(stroke)),
+      connectorKeys: board.connectors.map(connector => this.keyOf(connector)),
+      clock: this.clock,
+      created: [...this.created],
+      deleted: [...this.deleted],
+      fields: [...this.fields].map(([id, stamps]) => [id, [...stamps]]),
+      items: [...this.items],
+    };
+  }
+
+  // Picks up the room's state from a snapshot; ops that arrived meanwhile can be applied after
+  load(snapshot: SyncSnapshot) {
+    this.clock = Math.max(this.clock, snapshot.clock);
+    this.created = new Map(snapshot.created);
+    this.deleted = new Map(snapshot.deleted);
+    this.fields = new Map(snapshot.fields.map(([id, stamps]) => [id, new Map(stamps)]));
+    this.items = new Map(snapshot.items);
+    snapshot.board.strokes.forEach((stroke, i) => this.keys.set(stroke, snapshot.strokeKeys[i]));
+    snapshot.board.connectors.forEach((connector, i) => this.keys.set(connector, snapshot.connectorKeys[i]));
+  }
+}
@@ -0,0 +1,71 @@
+import type { DraggableBox } from '../components/InteractiveElements';
+import type { DrawStroke } from '../components/DrawingCanvas';
+import type { Connector } from '../utils/connectors';
+import type { BoardState } from '../utils/history';
+
+// Message shapes shared with server/relay.js. The relay only reads `type` and `to`,
+// everything else passes through untouched.
+
+export interface Peer {
+  id: string;
+  name: string;
+  color: string;
+  // small per-room number, so notes made by different people never get the same id
+  site: number;
+}
+
+// Lamport clock plus peer id: a total order every participant agrees on
+export interface Stamp {
+  clock: number;
+  peer: string;
+}
+
+export type SyncOp =
+  // `full` puts create the note (an add, or an undone delete); the rest update fields
+  | { type: 'note-put'; id: number; fields: Partial<DraggableBox>; full: boolean; stamp: Stamp }
+  | { type: 'note-delete'; id: number; stamp: Stamp }
+  | { type: 'stroke-add'; key: string; stroke: DrawStroke; index: number; stamp: Stamp }
+  | { type: 'stroke-delete'; key: string; stamp: Stamp }
+  | { type: 'connector-add'; key: string; connector: Connector; stamp: Stamp }
+  | { type: 'connector-delete'; key: string; stamp: Stamp };
+
+// a participant's primary cursor, in world coordinates
+export interface Presence {
+  x: number;
+  y: number;
+  isPinching: boolean;
+  isFist: boolean;
+}
+
+export interface ItemStamps {
+  added: Stamp | null;
+  deleted: Stamp | null;
+}
+
+// everything a newcomer needs to pick up where the room is
+export interface SyncSnapshot {
+  board: BoardState;
+  strokeKeys: string[];
+  connectorKeys: string[];
+  clock: number;
+  created: [number, Stamp][];
+  deleted: [number, Stamp][];
+  fields: [number, [string, Stamp][]][];
+  items: [string, ItemStamps][];
+}
+
+// sent by a client; `to` addresses one peer, otherwise the relay forwards to the whole room
+export type PeerMessage =
+  | { type: 'ops'; ops: SyncOp[] }
+  | { type: 'presence'; cursor: Presence | null }
+  | { type: 'snapshot-request' }
+  | { type: 'snapshot'; snapshot: SyncSnapshot };
+
+export type OutgoingMessage = PeerMessage & { to?: string };
+
+// received from the relay
+export type IncomingMessage =
+  | { type: 'welcome'; self: Peer; peers: Peer[] }
+  | { type: 'join'; peer: Peer }
+  | { type: 'leave'; peerId: string }
+  | (PeerMessage & { from: string });
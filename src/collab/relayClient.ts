@@ -0,0 +1,90 @@
+import { Emitter } from '../utils/emitter';
+import type { IncomingMessage, OutgoingMessage } from './protocol';
+
+const RECONNECT_MIN = 500;
+const RECONNECT_MAX = 8000;
+const DEFAULT_RELAY_URL = 'ws://localhost:8787';
+
+export type RelayStatus = 'connecting' | 'open' | 'closed';
+
+// `?collabUrl=ws://host:port` wins over VITE_COLLAB_URL, same as the tracker settings
+export function relayUrlFromEnvironment(search = window.location.search): string {
+  const params = new URLSearchParams(search);
+  return params.get('collabUrl') ?? import.meta.env.VITE_COLLAB_URL ?? DEFAULT_RELAY_URL;
+}
+
+function parseMessage(data: unknown): IncomingMessage | null {
+  if (typeof data !== 'string') return null;
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed.type === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// One room on the relay (server/relay.js). Reconnects on its own; every reconnect is
+// a fresh join, so listeners see a new `welcome` and should resync from it.
+export class RelayClient {
+  readonly messages = new Emitter<IncomingMessage>();
+  readonly statusChanges = new Emitter<RelayStatus>();
+  private url: string;
+  private socket: WebSocket | null = null;
+  private reconnectDelay = RECONNECT_MIN;
+  private reconnectTimer: number | null = null;
+  private closed = true;
+
+  constructor(baseUrl: string, room: string, name: string, color: string) {
+    const query = new URLSearchParams({ name, color });
+    this.url = `${baseUrl.replace(/\/$/, '')}/${encodeURIComponent(room)}?${query}`;
+  }
+
+  open() {
+    this.closed = false;
+    this.connect();
+  }
+
+  private connect() {
+    if (this.closed) return;
+
+    this.statusChanges.emit('connecting');
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = RECONNECT_MIN;
+      this.statusChanges.emit('open');
+    };
+    socket.onmessage = (event) => {
+      const message = parseMessage(event.data);
+      if (message) {
+        this.messages.emit(message);
+      } else {
+        console.warn('Ignoring malformed relay message from', this.url);
+      }
+    };
+    socket.onclose = () => {
+      this.socket = null;
+      if (this.closed) return;
+      this.statusChanges.emit('closed');
+      this.reconnectTimer = window.setTimeout(() => this.connect(), this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX);
+    };
+  }
+
+  // dropped while disconnected; the snapshot on rejoin catches everyone up
+  send(message: OutgoingMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.statusChanges.emit('closed');
+  }
+}
@@ -0,0 +1,193 @@
+import { useRef, useState, type CSSProperties, type Ref } from 'react';
+import HandButton from '../handInput/HandButton';
+import HandToggle from '../handInput/HandToggle';
+import useHandTarget, { type HandTargetState } from '../handInput/useHandTarget';
+import type { HandCursor } from './VirtualCursor';
+import { decodeSwipe, predictWords } from '../utils/wordPrediction';
+
+interface AirKeyboardProps {
+  ref?: Ref<HTMLDivElement>;
+  // the partial word right before the caret
+  prefix: string;
+  vocabulary: Map<string, number>;
+  onInsert: (text: string) => void;
+  onBackspace: () => void;
+  // replaces the word before the caret (and one space after it) with this word and a space
+  onReplaceWord: (word: string) => void;
+  onClose: () => void;
+}
+
+const ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+const KEY_SIZE = 48;
+
+const keyStyle = (width = KEY_SIZE, active = false) => ({ hovered, pressed }: HandTargetState): CSSProperties => ({
+  width: `${width}px`,
+  height: `${KEY_SIZE}px`,
+  padding: 0,
+  borderRadius: '8px',
+  border: hovered ? '2px solid white' : '2px solid transparent',
+  background: active ? 'white' : pressed ? 'rgba(255,255,255,0.5)' : hovered ? 'rgba(255,255,255,0.3)' : 'rgba(255,255,255,0.12)',
+  color: active ? 'black' : 'white',
+  fontSize: '18px',
+  fontWeight: 'bold',
+  cursor: 'pointer',
+  transform: pressed ? 'scale(0.92)' : 'scale(1)',
+  transition: 'transform 0.1s',
+});
+
+function keyUnder(cursor: HandCursor): string | null {
+  const el = document.elementFromPoint(cursor.x, cursor.y);
+  return el instanceof HTMLElement ? el.closest<HTMLElement>('[data-key]')?.dataset.key ?? null : null;
+}
+
+// Point and pinch to type. In swipe mode a pinch dragged across the letters spells a word
+// on release; a pinch that stays on one key still types that key.
+export default function AirKeyboard({ ref, prefix, vocabulary, onInsert, onBackspace, onReplaceWord, onClose }: AirKeyboardProps) {
+  const [shift, setShift] = useState(false);
+  const [swipeMode, setSwipeMode] = useState(false);
+  const [trace, setTrace] = useState('');
+  // other readings of the last swipe, offered until the next key
+  const [alternatives, setAlternatives] = useState<string[]>([]);
+  const path = useRef('');
+
+  const typeKey = (letter: string) => {
+    onInsert(shift ? letter.toUpperCase() : letter);
+    setShift(false);
+    setAlternatives([]);
+  };
+
+  const { ref: letterArea } = useHandTarget<HTMLDivElement>({
+    dwell: false,
+    disabled: !swipeMode,
+    onPress: () => {
+      path.current = '';
+    },
+    onDrag: cursor => {
+      const key = keyUnder(cursor);
+      if (key && key.length === 1 && !path.current.endsWith(key)) {
+        path.current += key;
+        setTrace(path.current);
+      }
+    },
+    onRelease: () => {
+      const keys = path.current;
+      path.current = '';
+      setTrace('');
+      const words = decodeSwipe(keys, vocabulary);
+      if (words.length === 0) return;
+      const [best, ...rest] = words;
+      const word = shift ? best[0].toUpperCase() + best.slice(1) : best;
+      // a swipe always writes a whole word, so it replaces any partial one
+      if (prefix) onReplaceWord(word);
+      else onInsert(`${word} `);
+      setShift(false);
+      setAlternatives(rest);
+    },
+  });
+
+  const suggestions = alternatives.length > 0 ? alternatives : predictWords(prefix, vocabulary);
+
+  return (
+    <div
+      ref={ref}
+      className="air-keyboard"
+      // keeps focus in the note's textarea when keys are clicked with a mouse
+      onMouseDown={(e) => e.preventDefault()}
+      style={{
+        position: 'fixed',
+        left: '50%',
+        bottom: '40px',
+        transform: 'translateX(-50%)',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: '6px',
+        padding: '12px',
+        backgroundColor: 'rgba(26, 26, 46, 0.95)',
+        borderRadius: '12px',
+        border: '1px solid rgba(255, 255, 255, 0.1)',
+        backdropFilter: 'blur(10px)',
+        zIndex: 1100,
+        pointerEvents: 'auto',
+      }}
+    >
+      <div style={{ display: 'flex', gap: '6px', minHeight: '36px', alignItems: 'center' }}>
+        {trace && <span style={{ color: '#8b5cf6', fontFamily: 'monospace', fontSize: '16px' }}>{trace}</span>}
+        {!trace && suggestions.length === 0 && <span style={{ color: '#666', fontSize: '12px' }}>Suggestions appear as you type</span>}
+        {!trace && suggestions.map(word => (
+          <HandButton
+            key={word}
+            onClick={() => {
+              onReplaceWord(word);
+              setAlternatives([]);
+            }}
+            dwell={false}
+            style={({ hovered }) => ({
+              padding: '6px 14px',
+              borderRadius: '16px',
+              border: hovered ? '2px solid white' : '2px solid transparent',
+              background: 'rgba(139, 92, 246, 0.6)',
+              color: 'white',
+              fontSize: '15px',
+              cursor: 'pointer',
+            })}
+          >
+            {word}
+          </HandButton>
+        ))}
+      </div>
+
+      <div
+        ref={letterArea}
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          gap: '6px',
+          padding: '4px',
+          borderRadius: '8px',
+          outline: swipeMode ? '1px dashed rgba(139, 92, 246, 0.6)' : 'none',
+        }}
+      >
+        {ROWS.map(row => (
+          <div key={row} style={{ display: 'flex', gap: '6px' }}>
+            {[...row].map(letter => (
+              <span key={letter} data-key={letter}>
+                <HandButton onClick={() => typeKey(letter)} dwell={false} style={keyStyle()}>
+                  {shift ? letter.toUpperCase() : letter}
+                </HandButton>
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+        <HandButton onClick={() => setShift(prev => !prev)} dwell={false} style={keyStyle(72, shift)}>⇧</HandButton>
+        <HandButton onClick={() => typeKey(',')} dwell={false} style={keyStyle()}>,</HandButton>
+        <HandButton onClick={() => { onInsert(' '); setAlternatives([]); }} dwell={false} style={keyStyle(200)}>space</HandButton>
+        <HandButton onClick={() => typeKey('.')} dwell={false} style={keyStyle()}>.</HandButton>
+        <HandButton onClick={() => { onBackspace(); setAlternatives([]); }} dwell={false} style={keyStyle(72)}>⌫</HandButton>
+        <HandButton onClick={() => typeKey('\n')} dwell={false} style={keyStyle(72)}>⏎</HandButton>
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+        <HandToggle checked={swipeMode} onChange={setSwipeMode}>Swipe typing</HandToggle>
+        <HandButton
+          onClick={onClose}
+          style={({ hovered }) => ({
+            padding: '6px 16px',
+            borderRadius: '8px',
+            border: hovered ? '2px solid white' : '2px solid transparent',
+            background: '#4ECDC4',
+            color: 'white',
+            fontWeight: 'bold',
+            cursor: 'pointer',
+          })}
+        >
+          Done
+        </HandButton>
+      </div>
+    </div>
+  );
+}
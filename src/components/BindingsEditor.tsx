@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { ACTIONS, isActionId, type ActionId, type InteractionMode } from '../utils/actions';
+import {
+  BUTTON_SLOTS,
+  DEFAULT_BINDINGS,
+  MOTION_TRIGGERS,
+  POSE_NAMES,
+  triggerLabel,
+  type Binding,
+  type BindingSet,
+  type BindingTrigger,
+  type MotionTrigger,
+} from '../utils/bindings';
+
+interface BindingsEditorProps {
+  bindings: BindingSet;
+  onChange: (bindings: BindingSet) => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  background: 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e0e0e0',
+  fontSize: '12px',
+  cursor: 'pointer',
+};
+
+const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' };
+
+// triggers travel through <select> values as "kind:name"
+const triggerValue = (trigger: BindingTrigger) => {
+  switch (trigger.kind) {
+    case 'gesture':
+      return `gesture:${trigger.gesture}`;
+    case 'motion':
+      return `motion:${trigger.motion}`;
+    case 'button':
+      return `button:${trigger.slot}`;
+  }
+};
+
+function parseTriggerValue(value: string): BindingTrigger {
+  const [kind, name] = value.split(':');
+  if (kind === 'motion') return { kind: 'motion', motion: name as MotionTrigger };
+  if (kind === 'button') return { kind: 'button', slot: Number(name) };
+  return { kind: 'gesture', gesture: name };
+}
+
+const ALL_TRIGGERS: BindingTrigger[] = [
+  ...POSE_NAMES.map(gesture => ({ kind: 'gesture', gesture }) as const),
+  ...(Object.keys(MOTION_TRIGGERS) as MotionTrigger[]).map(motion => ({ kind: 'motion', motion }) as const),
+  ...Array.from({ length: BUTTON_SLOTS }, (_, slot) => ({ kind: 'button', slot }) as const),
+];
+
+function ModeSelect({ value, onChange }: { value: InteractionMode | null; onChange: (mode: InteractionMode | null) => void }) {
+  return (
+    <select
+      value={value ?? 'any'}
+      onChange={(e) => onChange(e.target.value === 'any' ? null : e.target.value as InteractionMode)}
+    >
+      <option value="any">Always</option>
+      <option value="board">Board</option>
+      <option value="draw">Draw mode</option>
+    </select>
+  );
+}
+
+function ActionSelect({ value, onChange }: { value: ActionId; onChange: (action: ActionId) => void }) {
+  return (
+    <select
+      style={{ flex: 1, minWidth: 0 }}
+      value={value}
+      onChange={(e) => {
+        if (isActionId(e.target.value)) onChange(e.target.value);
+      }}
+    >
+      {Object.entries(ACTIONS).map(([action, { label }]) => <option key={action} value={action}>{label}</option>)}
+    </select>
+  );
+}
+
+// What each pose, motion and left-column button does, and which poses click and grab
+export default function BindingsEditor({ bindings, onChange }: BindingsEditorProps) {
+  const [draft, setDraft] = useState<Binding>({ trigger: { kind: 'gesture', gesture: 'peace' }, action: 'add-box', mode: null });
+  const { pointer } = bindings;
+
+  const update = (index: number, patch: Partial<Binding>) => {
+    onChange({ ...bindings, bindings: bindings.bindings.map((b, i) => (i === index ? { ...b, ...patch } : b)) });
+  };
+
+  const remove = (index: number) => {
+    onChange({ ...bindings, bindings: bindings.bindings.filter((_, i) => i !== index) });
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Put every binding back the way it came?')) onChange(DEFAULT_BINDINGS);
+  };
+
+  const poseSelect = (value: string, onSelect: (pose: string) => void) => (
+    <select style={{ flex: 1 }} value={value} onChange={(e) => onSelect(e.target.value)}>
+      {POSE_NAMES.map(name => <option key={name} value={name}>{name.replace('_', ' ')}</option>)}
+    </select>
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span style={{ fontWeight: 'bold', fontSize: '13px' }}>Bindings</span>
+        <button style={buttonStyle} onClick={handleReset}>Reset</button>
+      </div>
+
+      <label style={rowStyle}>
+        <span style={{ width: '60px' }}>Click</span>
+        {poseSelect(pointer.click, click => onChange({ ...bindings, pointer: { ...pointer, click } }))}
+      </label>
+      <label style={rowStyle}>
+        <span style={{ width: '60px' }}>Grab</span>
+        {poseSelect(pointer.grab, grab => onChange({ ...bindings, pointer: { ...pointer, grab } }))}
+      </label>
+
+      {bindings.bindings.map((binding, index) => (
+        <div key={index} style={rowStyle}>
+          <span
+            style={{ width: '90px', flexShrink: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            title={triggerLabel(binding.trigger)}
+          >
+            {triggerLabel(binding.trigger)}
+          </span>
+          <ActionSelect value={binding.action} onChange={action => update(index, { action })} />
+          <ModeSelect value={binding.mode} onChange={mode => update(index, { mode })} />
+          <button style={buttonStyle} onClick={() => remove(index)} title="Remove binding">x</button>
+        </div>
+      ))}
+
+      <div style={{ ...rowStyle, borderTop: '1px solid rgba(255, 255, 255, 0.1)', paddingTop: '6px' }}>
+        <select
+          style={{ width: '90px', flexShrink: 0 }}
+          value={triggerValue(draft.trigger)}
+          onChange={(e) => setDraft({ ...draft, trigger: parseTriggerValue(e.target.value) })}
+        >
+          {ALL_TRIGGERS.map(trigger => (
+            <option key={triggerValue(trigger)} value={triggerValue(trigger)}>{triggerLabel(trigger)}</option>
+          ))}
+        </select>
+        <ActionSelect value={draft.action} onChange={action => setDraft({ ...draft, action })} />
+        <ModeSelect value={draft.mode} onChange={mode => setDraft({ ...draft, mode })} />
+        <button style={buttonStyle} onClick={() => onChange({ ...bindings, bindings: [...bindings.bindings, draft] })}>
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useState, type CSSProperties, type Ref } from 'react';
+import ColorWheel from './ColorWheel';
+import HandButton from '../handInput/HandButton';
+import HandSlider from '../handInput/HandSlider';
+import HandScrollArea from '../handInput/HandScrollArea';
+import type { HandTargetState } from '../handInput/useHandTarget';
+import { hexToHsv, hsvToHex, withOpacity, type Hsv } from '../utils/color';
+import type { Palette } from '../utils/palettes';
+
+interface BrushPanelProps {
+  ref?: Ref<HTMLDivElement>;
+  color: string;
+  opacity: number;
+  size: number;
+  onColorChange: (color: string) => void;
+  onOpacityChange: (opacity: number) => void;
+  onSizeChange: (size: number) => void;
+  recent: string[];
+  palettes: Palette[];
+  onSavePalette: (name: string, colors: string[]) => void;
+  onAddToPalette: (name: string, color: string) => void;
+  onDeletePalette: (name: string) => void;
+}
+
+export const MIN_BRUSH_SIZE = 1;
+export const MAX_BRUSH_SIZE = 40;
+// a palette's × arms on the first press and deletes on a second press inside this window
+const CONFIRM_DELETE_MS = 3000;
+
+const sectionLabel: CSSProperties = { color: '#888', fontSize: '11px', textTransform: 'uppercase', letterSpacing: '0.05em' };
+
+const swatchStyle = (color: string, active: boolean) => ({ hovered }: HandTargetState): CSSProperties => ({
+  width: '24px',
+  height: '24px',
+  padding: 0,
+  borderRadius: '50%',
+  backgroundColor: color,
+  border: active ? '3px solid white' : hovered ? '2px solid rgba(255,255,255,0.8)' : '2px solid rgba(255,255,255,0.3)',
+  cursor: 'pointer',
+  transform: hovered ? 'scale(1.2)' : 'scale(1)',
+  transition: 'transform 0.2s',
+});
+
+const smallButtonStyle = ({ hovered }: HandTargetState): CSSProperties => ({
+  padding: '4px 8px',
+  background: hovered ? 'rgba(255,255,255,0.35)' : 'rgba(255,255,255,0.15)',
+  color: 'white',
+  border: hovered ? '1px solid white' : '1px solid transparent',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '11px',
+});
+
+// checkerboard behind the preview so opacity is visible
+const checker = 'repeating-conic-gradient(#555 0% 25%, #333 0% 50%) 50% / 12px 12px';
+
+export default function BrushPanel({
+  ref,
+  color,
+  opacity,
+  size,
+  onColorChange,
+  onOpacityChange,
+  onSizeChange,
+  recent,
+  palettes,
+  onSavePalette,
+  onAddToPalette,
+  onDeletePalette,
+}: BrushPanelProps) {
+  // hue and saturation are kept here, a black or gray color alone would lose them
+  const [hsv, setHsv] = useState<Hsv>(() => hexToHsv(color));
+  if (hsvToHex(hsv).toLowerCase() !== color.toLowerCase()) {
+    setHsv(hexToHsv(color));
+  }
+
+  const pick = (next: Hsv) => {
+    setHsv(next);
+    onColorChange(hsvToHex(next));
+  };
+
+  const handleSavePalette = () => {
+    const name = window.prompt('Palette name', `Palette ${palettes.length + 1}`)?.trim();
+    if (name) onSavePalette(name, recent);
+  };
+
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  useEffect(() => {
+    if (confirmDelete === null) return;
+    const timer = window.setTimeout(() => setConfirmDelete(null), CONFIRM_DELETE_MS);
+    return () => window.clearTimeout(timer);
+  }, [confirmDelete]);
+
+  const handleDeletePalette = (name: string) => {
+    if (confirmDelete !== name) {
+      setConfirmDelete(name);
+      return;
+    }
+    setConfirmDelete(null);
+    onDeletePalette(name);
+  };
+
+  const isActive = (c: string) => c.toLowerCase() === color.toLowerCase();
+
+  return (
+    <div
+      ref={ref}
+      className="brush-panel"
+      style={{
+        position: 'fixed',
+        left: '20px',
+        top: '50%',
+        transform: 'translateY(-50%)',
+        width: '220px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '12px',
+        padding: '16px',
+        backgroundColor: 'rgba(26, 26, 46, 0.95)',
+        borderRadius: '12px',
+        border: '1px solid rgba(255, 255, 255, 0.1)',
+        backdropFilter: 'blur(10px)',
+        zIndex: 10000,
+        maxHeight: 'calc(100vh - 40px)',
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+        <div style={{ width: '36px', height: '36px', borderRadius: '8px', background: checker, overflow: 'hidden' }}>
+          <div style={{ width: '100%', height: '100%', background: withOpacity(color, opacity) }} />
+        </div>
+        <span style={{ color: '#e0e0e0', fontSize: '13px', fontFamily: 'monospace' }}>{color.toUpperCase()}</span>
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'center' }}>
+        <ColorWheel hsv={hsv} onChange={pick} size={180} />
+      </div>
+
+      <HandSlider
+        label="Brightness"
+        value={hsv.v}
+        min={0}
+        max={1}
+        step={0.01}
+        onChange={v => pick({ ...hsv, v })}
+        format={v => `${Math.round(v * 100)}%`}
+        trackBackground={`linear-gradient(to right, #000, ${hsvToHex({ ...hsv, v: 1 })})`}
+      />
+      <HandSlider
+        label="Opacity"
+        value={opacity}
+        min={0.05}
+        max={1}
+        step={0.05}
+        onChange={onOpacityChange}
+        format={v => `${Math.round(v * 100)}%`}
+        trackBackground={`linear-gradient(to right, transparent, ${color})`}
+      />
+      <HandSlider
+        label="Size"
+        value={size}
+        min={MIN_BRUSH_SIZE}
+        max={MAX_BRUSH_SIZE}
+        step={0.5}
+        onChange={onSizeChange}
+        format={v => `${v}px`}
+      />
+
+      <span style={sectionLabel}>Recent</span>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+        {recent.map(c => (
+          <HandButton key={c} title={c} onClick={() => onColorChange(c)} style={swatchStyle(c, isActive(c))} />
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span style={sectionLabel}>Palettes</span>
+        <HandButton onClick={handleSavePalette} dwell={false} title="Save the recent colors as a palette" style={smallButtonStyle}>
+          Save Recent
+        </HandButton>
+      </div>
+      <HandScrollArea style={{ maxHeight: '160px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        {palettes.length === 0 && <span style={{ color: '#666', fontSize: '12px' }}>No saved palettes yet</span>}
+        {palettes.map(palette => (
+          <div key={palette.name} style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              <span style={{ color: '#e0e0e0', fontSize: '12px', flex: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}>{palette.name}</span>
+              <HandButton onClick={() => onAddToPalette(palette.name, color)} title="Add the current color" style={smallButtonStyle}>
+                +
+              </HandButton>
+              <HandButton
+                onClick={() => handleDeletePalette(palette.name)}
+                dwell={false}
+                title={confirmDelete === palette.name ? 'Press again to delete' : 'Delete palette'}
+                style={confirmDelete === palette.name ? state => ({ ...smallButtonStyle(state), background: '#FF6B6B' }) : smallButtonStyle}
+              >
+                {confirmDelete === palette.name ? 'Delete?' : '×'}
+              </HandButton>
+            </div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+              {palette.colors.map(c => (
+                <HandButton key={c} title={c} onClick={() => onColorChange(c)} style={swatchStyle(c, isActive(c))} />
+              ))}
+            </div>
+          </div>
+        ))}
+      </HandScrollArea>
+    </div>
+  );
+}
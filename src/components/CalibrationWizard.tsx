@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from 'react';
+import type { HandData } from '../hooks/useHandTracking';
+import type { HandCursor } from './VirtualCursor';
+import { createCalibration, type Calibration, type CalibrationPoint, type CameraMapping } from '../utils/calibration';
+import { handScale } from '../utils/gestureEngine';
+
+interface CalibrationWizardProps {
+  hands: HandData[];
+  cursors: HandCursor[];
+  onComplete: (calibration: Calibration) => void;
+  onReset: () => void;
+  onCancel: () => void;
+}
+
+const FINGER_TIP = 8;
+// targets sit this far in from the screen edges
+const MARGIN = 0.1;
+// fingertip samples averaged per captured point
+const SAMPLE_COUNT = 5;
+
+const TARGETS = [
+  { x: MARGIN, y: MARGIN, label: 'top left' },
+  { x: 1 - MARGIN, y: MARGIN, label: 'top right' },
+  { x: 1 - MARGIN, y: 1 - MARGIN, label: 'bottom right' },
+  { x: MARGIN, y: 1 - MARGIN, label: 'bottom left' },
+];
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 16px',
+  background: 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.3)',
+  borderRadius: '8px',
+  color: 'white',
+  fontSize: '14px',
+  cursor: 'pointer',
+};
+
+export default function CalibrationWizard({ hands, cursors, onComplete, onReset, onCancel }: CalibrationWizardProps) {
+  const [points, setPoints] = useState<CalibrationPoint[]>([]);
+  const [mappingType, setMappingType] = useState<CameraMapping['type']>('perspective');
+  const [acceleration, setAcceleration] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const samples = useRef<{ x: number; y: number }[]>([]);
+  const lastPinch = useRef(false);
+  // running hand size while calibrating, saved so later reach normalization is relative to it
+  const scaleTotal = useRef({ sum: 0, count: 0 });
+
+  const step = points.length;
+  const done = step >= TARGETS.length;
+
+  useEffect(() => {
+    const primary = cursors.find(c => c.isPrimary);
+    const hand = primary ? hands.find(h => h.id === primary.id) : undefined;
+    if (!primary || !hand) {
+      samples.current = [];
+      lastPinch.current = false;
+      return;
+    }
+
+    scaleTotal.current.sum += handScale(hand);
+    scaleTotal.current.count += 1;
+
+    const tip = hand.landmarks[FINGER_TIP];
+    samples.current.push({ x: 1 - tip.x, y: tip.y });
+    if (samples.current.length > SAMPLE_COUNT) {
+      samples.current.shift();
+    }
+
+    // the point is where the finger was just before the pinch closed
+    if (primary.isPinching && !lastPinch.current && !done && samples.current.length > 0) {
+      const camera = {
+        x: samples.current.reduce((sum, p) => sum + p.x, 0) / samples.current.length,
+        y: samples.current.reduce((sum, p) => sum + p.y, 0) / samples.current.length,
+      };
+      const target = TARGETS[step];
+      setPoints(prev => [...prev, { camera, screen: { x: target.x, y: target.y } }]);
+    }
+
+    lastPinch.current = primary.isPinching;
+  }, [hands, cursors, done, step]);
+
+  const handleSave = () => {
+    const { sum, count } = scaleTotal.current;
+    const calibration = createCalibration(points, mappingType, acceleration, count > 0 ? sum / count : undefined);
+    if (!calibration) {
+      setError('Those points don\'t give a usable mapping, please try again.');
+      setPoints([]);
+      return;
+    }
+    onComplete(calibration);
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(10, 10, 25, 0.85)',
+        zIndex: 20000,
+        color: '#e0e0e0',
+        userSelect: 'none',
+      }}
+    >
+      {!done && (
+        <div
+          style={{
+            position: 'absolute',
+            left: `${TARGETS[step].x * 100}%`,
+            top: `${TARGETS[step].y * 100}%`,
+            width: '48px',
+            height: '48px',
+            transform: 'translate(-50%, -50%)',
+            borderRadius: '50%',
+            border: '3px solid #4ECDC4',
+            boxShadow: '0 0 24px rgba(78, 205, 196, 0.8)',
+          }}
+        >
+          <div
+            style={{
+              position: 'absolute',
+              top: '50%',
+              left: '50%',
+              width: '8px',
+              height: '8px',
+              transform: 'translate(-50%, -50%)',
+              borderRadius: '50%',
+              background: '#4ECDC4',
+            }}
+          />
+        </div>
+      )}
+
+      <div
+        style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          width: '420px',
+          padding: '24px',
+          background: 'rgba(26, 26, 46, 0.95)',
+          border: '1px solid rgba(255, 255, 255, 0.2)',
+          borderRadius: '12px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '12px',
+          textAlign: 'center',
+        }}
+      >
+        <p style={{ fontWeight: 'bold', fontSize: '18px', color: '#8b5cf6' }}>Cursor Calibration</p>
+        {!done ? (
+          <p>
+            Point at the {TARGETS[step].label} target from a comfortable position and pinch.
+            ({step + 1}/{TARGETS.length})
+          </p>
+        ) : (
+          <>
+            <p>All corners captured.</p>
+            <label style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+              Mapping
+              <select value={mappingType} onChange={(e) => setMappingType(e.target.value as CameraMapping['type'])}>
+                <option value="perspective">Perspective</option>
+                <option value="affine">Affine</option>
+              </select>
+            </label>
+            <label style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+              Acceleration ({acceleration.toFixed(1)})
+              <input
+                type="range"
+                min={0.5}
+                max={2}
+                step={0.1}
+                value={acceleration}
+                onChange={(e) => setAcceleration(parseFloat(e.target.value))}
+              />
+            </label>
+          </>
+        )}
+        {error && <p style={{ color: '#ff6b6b', fontSize: '13px' }}>{error}</p>}
+
+        <div style={{ display: 'flex', gap: '8px', justifyContent: 'center' }}>
+          {done && (
+            <button style={{ ...buttonStyle, background: '#4ECDC4', color: '#1a1a2e' }} onClick={handleSave}>
+              Save
+            </button>
+          )}
+          <button style={buttonStyle} onClick={() => { setPoints([]); setError(null); }} disabled={step === 0}>
+            Restart
+          </button>
+          <button style={buttonStyle} onClick={onReset}>
+            Use Default
+          </button>
+          <button style={buttonStyle} onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
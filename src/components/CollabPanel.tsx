@@ -0,0 +1,100 @@
+import type { CollabStatus } from '../hooks/useCollaboration';
+import type { Peer } from '../collab/protocol';
+
+interface CollabPanelProps {
+  room: string | null;
+  status: CollabStatus;
+  self: Peer | null;
+  peers: Peer[];
+  defaultRoom: string;
+  onJoin: (room: string, name: string) => void;
+  onLeave: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '6px 12px',
+  background: 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e0e0e0',
+  fontSize: '13px',
+  cursor: 'pointer',
+};
+
+const STATUS_LABELS: Record<CollabStatus, { text: string; color: string }> = {
+  offline: { text: 'Not shared', color: '#888' },
+  connecting: { text: 'Connecting to relay...', color: '#FFD93D' },
+  syncing: { text: 'Loading the room...', color: '#FFD93D' },
+  live: { text: 'Live', color: '#4ecdc4' },
+};
+
+const dot = (color: string): React.CSSProperties => ({
+  display: 'inline-block',
+  width: '10px',
+  height: '10px',
+  borderRadius: '50%',
+  background: color,
+  flexShrink: 0,
+});
+
+export default function CollabPanel({ room, status, self, peers, defaultRoom, onJoin, onLeave }: CollabPanelProps) {
+  const handleJoin = () => {
+    const nextRoom = window.prompt('Room to join (everyone in it shares one board)', defaultRoom);
+    if (!nextRoom?.trim()) return;
+    const name = window.prompt('Your name, shown next to your cursor', self?.name ?? 'Guest');
+    if (name?.trim()) onJoin(nextRoom.trim(), name.trim());
+  };
+
+  const label = STATUS_LABELS[status];
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '10px 16px',
+        background: 'rgba(26, 26, 46, 0.8)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '8px',
+        color: '#e0e0e0',
+        fontSize: '14px',
+        backdropFilter: 'blur(10px)',
+        userSelect: 'none',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+        <span style={{ fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {room ? `Room: ${room}` : 'Collaborate'}
+        </span>
+        <span style={{ color: label.color, fontSize: '12px', whiteSpace: 'nowrap' }}>{label.text}</span>
+      </div>
+      {room && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px' }}>
+          {self && (
+            <span style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <span style={dot(self.color)} />
+              {self.name} (you)
+            </span>
+          )}
+          {peers.map(peer => (
+            <span key={peer.id} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <span style={dot(peer.color)} />
+              {peer.name}
+            </span>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: '8px' }}>
+        {room ? (
+          <button style={buttonStyle} onClick={onLeave}>Leave</button>
+        ) : (
+          <button style={buttonStyle} onClick={handleJoin} title="Share this board through the relay (npm run relay)">
+            Join room
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef, type PointerEvent } from 'react';
+import useHandTarget from '../handInput/useHandTarget';
+import { hsvToHex, type Hsv } from '../utils/color';
+
+interface ColorWheelProps {
+  hsv: Hsv;
+  onChange: (hsv: Hsv) => void;
+  size?: number;
+}
+
+// Hue runs clockwise from the right, saturation grows from the center out.
+// Value is set with a separate slider and only darkens the disc.
+export default function ColorWheel({ hsv, onChange, size = 160 }: ColorWheelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const radius = size / 2;
+
+  const hsvAt = (x: number, y: number, rect: DOMRect): Hsv => {
+    const dx = x - (rect.left + rect.width / 2);
+    const dy = y - (rect.top + rect.height / 2);
+    const h = ((Math.atan2(dy, dx) * 180) / Math.PI + 360) % 360;
+    const s = Math.min(1, Math.hypot(dx, dy) / (rect.width / 2));
+    return { h, s, v: hsv.v };
+  };
+
+  // pinch and drag to pick, or rest an open hand on the wheel and turn the wrist to spin the hue
+  const { ref, state } = useHandTarget<HTMLDivElement>({
+    dwell: false,
+    onDrag: (cursor, rect) => onChange(hsvAt(cursor.x, cursor.y, rect)),
+    onTwist: delta => onChange({ ...hsv, h: (hsv.h + (delta * 180) / Math.PI + 360) % 360 }),
+  });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size * dpr);
+    canvas.height = Math.round(size * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size, size);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(radius, radius, radius, 0, Math.PI * 2);
+    ctx.clip();
+
+    const hue = ctx.createConicGradient(0, radius, radius);
+    for (let deg = 0; deg <= 360; deg += 30) {
+      hue.addColorStop(deg / 360, hsvToHex({ h: deg % 360, s: 1, v: 1 }));
+    }
+    ctx.fillStyle = hue;
+    ctx.fillRect(0, 0, size, size);
+
+    const white = ctx.createRadialGradient(radius, radius, 0, radius, radius, radius);
+    white.addColorStop(0, 'rgba(255, 255, 255, 1)');
+    white.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    ctx.fillStyle = white;
+    ctx.fillRect(0, 0, size, size);
+
+    ctx.fillStyle = `rgba(0, 0, 0, ${1 - hsv.v})`;
+    ctx.fillRect(0, 0, size, size);
+    ctx.restore();
+  }, [hsv.v, size, radius]);
+
+  const handlePointer = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    onChange(hsvAt(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect()));
+  };
+
+  const angle = (hsv.h * Math.PI) / 180;
+  const markerX = radius + Math.cos(angle) * hsv.s * radius;
+  const markerY = radius + Math.sin(angle) * hsv.s * radius;
+
+  return (
+    <div
+      ref={ref}
+      onPointerDown={handlePointer}
+      onPointerMove={handlePointer}
+      style={{
+        position: 'relative',
+        width: `${size}px`,
+        height: `${size}px`,
+        borderRadius: '50%',
+        cursor: 'crosshair',
+        touchAction: 'none',
+        boxShadow: state.hovered ? '0 0 0 3px rgba(255, 255, 255, 0.6)' : '0 0 0 1px rgba(255, 255, 255, 0.2)',
+        transition: 'box-shadow 0.2s',
+      }}
+    >
+      <canvas ref={canvasRef} style={{ width: `${size}px`, height: `${size}px`, display: 'block' }} />
+      <div
+        style={{
+          position: 'absolute',
+          left: `${markerX}px`,
+          top: `${markerY}px`,
+          width: state.pressed ? '20px' : '16px',
+          height: state.pressed ? '20px' : '16px',
+          transform: 'translate(-50%, -50%)',
+          borderRadius: '50%',
+          border: '3px solid white',
+          boxShadow: '0 0 4px rgba(0, 0, 0, 0.6)',
+          background: hsvToHex(hsv),
+          pointerEvents: 'none',
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { arrowHead, connectorEnds, edgePoint, type Connector } from '../utils/connectors';
+import type { DraggableBox } from './InteractiveElements';
+
+interface ConnectorLayerProps {
+  boxes: DraggableBox[];
+  connectors: Connector[];
+  onRemove: (id: number) => void;
+  // the link being dragged out of a note, ending at a world point
+  preview?: { from: number; to: { x: number; y: number } } | null;
+}
+
+const COLOR = '#e0e0e0';
+const PREVIEW_COLOR = '#4ECDC4';
+
+const points = (list: { x: number; y: number }[]) => list.map(p => `${p.x},${p.y}`).join(' ');
+
+// Arrows between notes, drawn in world space inside the board's camera layer
+export default function ConnectorLayer({ boxes, connectors, onRemove, preview }: ConnectorLayerProps) {
+  const source = preview ? boxes.find(box => box.id === preview.from) : undefined;
+  const previewStart = source && preview ? edgePoint(source, preview.to) : null;
+
+  return (
+    <svg
+      style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: '1px',
+        height: '1px',
+        overflow: 'visible',
+        pointerEvents: 'none',
+        zIndex: 0,
+      }}
+    >
+      {connectors.map(connector => {
+        const ends = connectorEnds(connector, boxes);
+        if (!ends) return null;
+        const { start, end } = ends;
+        return (
+          <g key={connector.id}>
+            <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke={COLOR} strokeWidth={2} />
+            <polygon points={points(arrowHead(start, end))} fill={COLOR} />
+            {/* wide invisible hit line, clicking a connector removes it */}
+            <line
+              x1={start.x}
+              y1={start.y}
+              x2={end.x}
+              y2={end.y}
+              stroke="transparent"
+              strokeWidth={14}
+              onClick={() => onRemove(connector.id)}
+              style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+            >
+              <title>Click to remove</title>
+            </line>
+          </g>
+        );
+      })}
+      {preview && previewStart && (
+        <g>
+          <line
+            x1={previewStart.x}
+            y1={previewStart.y}
+            x2={preview.to.x}
+            y2={preview.to.y}
+            stroke={PREVIEW_COLOR}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+          />
+          <polygon points={points(arrowHead(previewStart, preview.to))} fill={PREVIEW_COLOR} />
+        </g>
+      )}
+    </svg>
+  );
+}
@@ -1,189 +1,497 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { Emitter } from '../utils/emitter';
+import type { ActionId } from '../utils/actions';
+import type { HandCursor } from './VirtualCursor';
+import HandButton from '../handInput/HandButton';
+import HandToggle from '../handInput/HandToggle';
+import BrushPanel from './BrushPanel';
+import usePalettes from '../hooks/usePalettes';
+import { withOpacity } from '../utils/color';
+import { screenToWorld, worldToScreen, type Camera } from '../utils/camera';
+import type { HandTargetState } from '../handInput/useHandTarget';
+import { useHandInput } from '../handInput/context';
+import { inkWidth, simplifyStroke } from '../utils/ink';
+import { StrokeLayers } from '../utils/strokeLayers';
+import { InteractionMachine, transitionLogger } from '../utils/interaction';
+import {
+  erasePixels,
+  eraseStrokes,
+  isShapeTool,
+  recognizeShape,
+  selectInLasso,
+  shapeStroke,
+  strokesBounds,
+  transformStroke,
+  type DrawingTool,
+} from '../utils/drawingTools';
 
 interface DrawingCanvasProps {
-  cursorPosition: { x: number; y: number };
-  isHandDetected: boolean;
-  isPinching: boolean;
+  camera: Camera;
   isDrawingMode: boolean;
   onExit: () => void;
+  // bound actions from App, this listens for the color steps
+  actions: Emitter<ActionId>;
+  strokes: DrawStroke[];
+  onStrokesChange: Dispatch<SetStateAction<DrawStroke[]>>;
 }
 
-// stroke = array of points with color/size
-interface DrawStroke {
+export type ShapeKind = 'line' | 'rect' | 'ellipse' | 'arrow';
+
+// stroke = array of points with color/size; a point's size is the ink width there
+export interface DrawStroke {
   points: {x: number, y: number, color: string, size: number}[];
   color: string;
   size: number;
+  // shapes are stroked with sharp corners instead of smoothed as ink
+  shape?: ShapeKind;
 }
 
-export default function DrawingCanvas({ cursorPosition, isHandDetected, isPinching, isDrawingMode, onExit }: DrawingCanvasProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+type Point = { x: number; y: number };
+
+// what the drawing hand is doing between pinch and release
+type Session =
+  | { kind: 'pen' }
+  | { kind: 'shape'; shape: ShapeKind; from: Point; stroke: DrawStroke | null }
+  | { kind: 'erase'; pixel: boolean }
+  | { kind: 'lasso'; path: Point[] }
+  | { kind: 'transform'; mode: 'move' | 'scale'; start: Point; anchor: Point; originals: DrawStroke[] };
+
+// recent colors shown right on the toolbar, the brush panel has the rest
+const QUICK_COLORS = 7;
+const tools: { id: DrawingTool; label: string }[] = [
+  { id: 'pen', label: 'Pen' },
+  { id: 'stroke-eraser', label: 'Eraser' },
+  { id: 'pixel-eraser', label: 'Pixel Eraser' },
+  { id: 'line', label: 'Line' },
+  { id: 'rect', label: 'Rect' },
+  { id: 'ellipse', label: 'Ellipse' },
+  { id: 'arrow', label: 'Arrow' },
+  { id: 'lasso', label: 'Lasso' },
+];
+// grab area of the selection's scale handle
+const HANDLE_SIZE = 28;
+const MIN_SCALE = 0.1;
+
+const canvasStyle: React.CSSProperties = {
+  position: 'fixed',
+  top: 0,
+  left: 0,
+  width: '100%',
+  height: '100%',
+  pointerEvents: 'none',
+  zIndex: 500,
+};
+
+const eraserRadius = (brushSize: number) => Math.max(10, brushSize * 2.5);
+
+export default function DrawingCanvas({ camera, isDrawingMode, onExit, actions, strokes, onStrokesChange: setStrokes }: DrawingCanvasProps) {
+  const committedCanvasRef = useRef<HTMLCanvasElement>(null);
+  const liveCanvasRef = useRef<HTMLCanvasElement>(null);
+  const layers = useRef<StrokeLayers | null>(null);
   const toolbarRef = useRef<HTMLDivElement>(null);
-  const exitRef = useRef<HTMLButtonElement>(null);
-  const colorRefs = useRef<(HTMLButtonElement | null)[]>([]);
-  const sizeRefs = useRef<(HTMLButtonElement | null)[]>([]);
-  const clearRef = useRef<HTMLButtonElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const { cursors, frames } = useHandInput();
   
-  const [strokes, setStrokes] = useState<DrawStroke[]>([]);
-  const [currentStroke, setCurrentStroke] = useState<{x: number, y: number, color: string, size: number}[]>([]);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [brushColor, setBrushColor] = useState('#FF6B6B');
+  const [liveStroke, setLiveStroke] = useState<DrawStroke | null>(null);
+  const [draft, setDraft] = useState<DrawStroke[] | null>(null);
+  const [lassoPath, setLassoPath] = useState<Point[]>([]);
+  const [selection, setSelection] = useState<DrawStroke[]>([]);
+  const { recent, addRecent, palettes, savePalette, addColor, removePalette } = usePalettes();
+  const [brushColor, setBrushColor] = useState(() => recent[0] ?? '#FF6B6B');
+  const [brushOpacity, setBrushOpacity] = useState(1);
   const [brushSize, setBrushSize] = useState(5);
-  const lastPinchState = useRef(false);
-  const [hoveredButton, setHoveredButton] = useState<string | null>(null);
-  const lastClickState = useRef(false);
+  const [showBrushPanel, setShowBrushPanel] = useState(false);
+  const [tool, setTool] = useState<DrawingTool>('pen');
+  const [snapShapes, setSnapShapes] = useState(false);
+  const lastFist = useRef<Record<number, boolean>>({});
+  // the pinch drawing the current stroke; a pinch that flickers open doesn't cut the stroke in two
+  const pen = useRef(new InteractionMachine<true>({ dragDistance: 0 }, undefined, transitionLogger('drawing')));
+  const session = useRef<Session | null>(null);
+  const strokePoints = useRef<DrawStroke['points']>([]);
+  const lastSampleTime = useRef(0);
+  // erasers and transforms work on a draft that's committed as one change on release
+  const draftRef = useRef<DrawStroke[] | null>(null);
+  const selectionRef = useRef<DrawStroke[]>([]);
+  const strokesRef = useRef(strokes);
+  const [wasDrawing, setWasDrawing] = useState(isDrawingMode);
+
+  // leaving draw mode drops the live stroke and selection before the next render
+  if (wasDrawing !== isDrawingMode) {
+    setWasDrawing(isDrawingMode);
+    if (!isDrawingMode) {
+      setLiveStroke(null);
+      setDraft(null);
+      setLassoPath([]);
+      setSelection([]);
+    }
+  }
 
-  const colors = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A', '#98D8C8', '#000000', '#FFFFFF'];
-  const sizes = [3, 5, 8, 12];
+  const shown = draft ?? strokes;
+  // undo or clear can remove selected strokes from under the selection
+  const selected = selection.filter(s => shown.includes(s));
+  const selectionBounds = strokesBounds(selected);
+  // the overlay is drawn in screen space
+  const selectionRect = selectionBounds && {
+    ...worldToScreen(camera, selectionBounds),
+    width: selectionBounds.width * camera.zoom,
+    height: selectionBounds.height * camera.zoom,
+  };
 
   useEffect(() => {
-    if (!isDrawingMode || !isHandDetected) {
-      setHoveredButton(null);
-      return;
-    }
+    strokesRef.current = strokes;
+  }, [strokes]);
 
-    const { x, y } = cursorPosition;
-    const inEl = (el: HTMLElement | null) => {
-      if (!el) return false;
-      const r = el.getBoundingClientRect();
-      return x >= r.left && x <= r.right && y >= r.top && y <= r.bottom;
+  useEffect(() => {
+    if (!isDrawingMode) return;
+
+    // next/previous color step through the recent colors (swipes, unless rebound)
+    return actions.subscribe(action => {
+      if (action !== 'next-color' && action !== 'previous-color') return;
+      if (recent.length === 0) return;
+      const step = action === 'next-color' ? 1 : -1;
+      setBrushColor(prev => {
+        const index = recent.indexOf(prev);
+        return recent[(index + step + recent.length) % recent.length];
+      });
+    });
+  }, [isDrawingMode, actions, recent]);
+
+  useEffect(() => {
+    let now = performance.now();
+    const inkColor = withOpacity(brushColor, brushOpacity);
+    // strokes live in world space; the brush keeps its on-screen size at any zoom
+    const size = brushSize / camera.zoom;
+    const toWorld = (cursor: HandCursor) => screenToWorld(camera, cursor);
+
+    const liveSelection = () => {
+      const current = new Set(strokesRef.current);
+      return selectionRef.current.filter(s => current.has(s));
+    };
+
+    const deleteSelection = () => {
+      const doomed = new Set(liveSelection());
+      if (doomed.size > 0) setStrokes(prev => prev.filter(s => !doomed.has(s)));
+      selectionRef.current = [];
     };
 
-    if (inEl(exitRef.current)) {
-      setHoveredButton('exit');
-    } else if (inEl(clearRef.current)) {
-      setHoveredButton('clear');
-    } else {
-      const colorIdx = colorRefs.current.findIndex(el => inEl(el));
-      if (colorIdx >= 0) {
-        setHoveredButton(`color-${colorIdx}`);
-      } else {
-        const sizeIdx = sizeRefs.current.findIndex(el => inEl(el));
-        if (sizeIdx >= 0) {
-          setHoveredButton(`size-${sizeIdx}`);
-        } else {
-          setHoveredButton(null);
+    const startSession = (cursor: HandCursor): Session => {
+      const at = toWorld(cursor);
+      if (tool === 'stroke-eraser' || tool === 'pixel-eraser') {
+        return { kind: 'erase', pixel: tool === 'pixel-eraser' };
+      }
+      if (isShapeTool(tool)) {
+        return { kind: 'shape', shape: tool, from: at, stroke: null };
+      }
+      if (tool === 'lasso') {
+        // pinching the selection moves it, its corner handle scales it, anywhere else starts a new lasso
+        const current = liveSelection();
+        const bounds = strokesBounds(current);
+        if (bounds) {
+          const right = bounds.x + bounds.width;
+          const bottom = bounds.y + bounds.height;
+          const handle = HANDLE_SIZE / camera.zoom;
+          if (Math.abs(at.x - right) <= handle && Math.abs(at.y - bottom) <= handle) {
+            return { kind: 'transform', mode: 'scale', start: at, anchor: { x: bounds.x, y: bounds.y }, originals: current };
+          }
+          if (at.x >= bounds.x && at.x <= right && at.y >= bounds.y && at.y <= bottom) {
+            return { kind: 'transform', mode: 'move', start: at, anchor: at, originals: current };
+          }
         }
+        selectionRef.current = [];
+        return { kind: 'lasso', path: [at] };
       }
-    }
-  }, [cursorPosition, isHandDetected, isDrawingMode]);
+      strokePoints.current = [{ ...at, color: inkColor, size: inkWidth(size, cursor.pinchStrength, 0) }];
+      lastSampleTime.current = now;
+      return { kind: 'pen' };
+    };
 
-  useEffect(() => {
-    if (!isDrawingMode || !hoveredButton) return;
-
-    if (isPinching && !lastClickState.current) {
-      if (hoveredButton === 'exit') {
-        onExit();
-      } else if (hoveredButton.startsWith('color-')) {
-        const colorIndex = parseInt(hoveredButton.split('-')[1]);
-        setBrushColor(colors[colorIndex]);
-      } else if (hoveredButton.startsWith('size-')) {
-        const sizeIndex = parseInt(hoveredButton.split('-')[1]);
-        setBrushSize(sizes[sizeIndex]);
-      } else if (hoveredButton === 'clear') {
-        setStrokes([]);
-        setCurrentStroke([]);
+    const continueSession = (active: Session, cursor: HandCursor) => {
+      const at = toWorld(cursor);
+      switch (active.kind) {
+        case 'pen': {
+          // harder pinches draw wider, fast movement draws thinner
+          const last = strokePoints.current[strokePoints.current.length - 1];
+          const speed = last ? Math.hypot(at.x - last.x, at.y - last.y) * camera.zoom / Math.max(1, now - lastSampleTime.current) : 0;
+          const width = inkWidth(size, cursor.pinchStrength, speed, last?.size);
+          strokePoints.current = [...strokePoints.current, { ...at, color: inkColor, size: width }];
+          lastSampleTime.current = now;
+          break;
+        }
+        case 'shape':
+          active.stroke = shapeStroke(active.shape, active.from, at, inkColor, size);
+          break;
+        case 'erase': {
+          const erase = active.pixel ? erasePixels : eraseStrokes;
+          const next = erase(draftRef.current ?? strokesRef.current, at, eraserRadius(brushSize) / camera.zoom);
+          if (next !== (draftRef.current ?? strokesRef.current)) draftRef.current = next;
+          break;
+        }
+        case 'lasso':
+          active.path.push(at);
+          break;
+        case 'transform': {
+          const { start, anchor, originals } = active;
+          const transformed = active.mode === 'move'
+            ? originals.map(s => transformStroke(s, at.x - start.x, at.y - start.y))
+            : originals.map(s => transformStroke(
+              s, 0, 0,
+              Math.max(MIN_SCALE, Math.hypot(at.x - anchor.x, at.y - anchor.y) / Math.max(1, Math.hypot(start.x - anchor.x, start.y - anchor.y))),
+              anchor,
+            ));
+          const replaced = new Map(originals.map((s, i) => [s, transformed[i]]));
+          draftRef.current = strokesRef.current.map(s => replaced.get(s) ?? s);
+          selectionRef.current = transformed;
+          break;
+        }
       }
-    }
-
-    lastClickState.current = isPinching;
-  }, [isPinching, hoveredButton, isDrawingMode, colors, sizes, onExit]);
+    };
 
-  useEffect(() => {
-    if (!isDrawingMode || !isHandDetected) {
-      if (isDrawing) {
-        if (currentStroke.length > 0) {
-          setStrokes(prev => [...prev, { points: currentStroke, color: brushColor, size: brushSize }]);
-          setCurrentStroke([]);
+    const finishSession = (active: Session) => {
+      switch (active.kind) {
+        case 'pen': {
+          const points = simplifyStroke(strokePoints.current);
+          if (points.length > 0) {
+            const stroke: DrawStroke = { points, color: inkColor, size };
+            const snapped = snapShapes ? recognizeShape(stroke) : null;
+            setStrokes(prev => [...prev, snapped ?? stroke]);
+            addRecent(brushColor);
+          }
+          strokePoints.current = [];
+          break;
+        }
+        case 'shape': {
+          const stroke = active.stroke;
+          if (stroke) {
+            setStrokes(prev => [...prev, stroke]);
+            addRecent(brushColor);
+          }
+          break;
         }
-        setIsDrawing(false);
+        case 'lasso':
+          selectionRef.current = selectInLasso(strokesRef.current, active.path);
+          break;
+        case 'erase':
+        case 'transform':
+          if (draftRef.current) setStrokes(draftRef.current);
+          break;
       }
+      draftRef.current = null;
+    };
+
+    if (!isDrawingMode) {
+      if (session.current) finishSession(session.current);
+      session.current = null;
+      pen.current.cancel('draw mode off');
+      selectionRef.current = [];
+      lastFist.current = {};
       return;
     }
 
-    if (isPinching && !lastPinchState.current) {
-      setIsDrawing(true);
-      setCurrentStroke([{ x: cursorPosition.x, y: cursorPosition.y, color: brushColor, size: brushSize }]);
-    }
+    return frames.subscribe(cursors => {
+      now = performance.now();
 
-    if (isPinching && isDrawing) {
-      setCurrentStroke([...currentStroke, { x: cursorPosition.x, y: cursorPosition.y, color: brushColor, size: brushSize }]);
-    }
+      // the toolbar, brush panel and other floating panels handle their own pinches, a pinch anywhere on them never draws
+      const panels = [toolbarRef.current, panelRef.current, ...document.querySelectorAll('[data-hand-panel]')]
+        .flatMap(el => el ? [el.getBoundingClientRect()] : []);
+      const overPanel = (c: HandCursor) =>
+        panels.some(r => c.x >= r.left && c.x <= r.right && c.y >= r.top && c.y <= r.bottom);
+
+      // a fist over the selection throws it away
+      cursors.forEach(cursor => {
+        if (!cursor.isFist || lastFist.current[cursor.id]) return;
+        const bounds = strokesBounds(liveSelection());
+        const at = toWorld(cursor);
+        if (bounds && at.x >= bounds.x && at.x <= bounds.x + bounds.width && at.y >= bounds.y && at.y <= bounds.y + bounds.height) {
+          deleteSelection();
+        }
+      });
 
-    if (!isPinching && lastPinchState.current && isDrawing) {
-      if (currentStroke.length > 0) {
-        setStrokes(prev => [...prev, { points: currentStroke, color: brushColor, size: brushSize }]);
-        setCurrentStroke([]);
+      // a stroke starts on a fresh pinch away from the toolbar
+      const { transitions, pointer } = pen.current.update(now, cursors.map(c => ({
+        id: c.id,
+        x: c.x,
+        y: c.y,
+        down: c.isPinching,
+        target: overPanel(c) ? null : true,
+      })));
+      const drawer = pointer && cursors.find(c => c.id === pointer.id);
+      let started = false;
+      transitions.forEach(({ to }) => {
+        if (to === 'press' && drawer) {
+          session.current = startSession(drawer);
+          started = true;
+          // erasers bite right where the pinch lands
+          if (session.current.kind === 'erase') continueSession(session.current, drawer);
+        } else if ((to === 'release' || to === 'cancel') && session.current) {
+          finishSession(session.current);
+          session.current = null;
+        }
+      });
+      if (!started && pen.current.engaged && drawer && session.current) {
+        continueSession(session.current, drawer);
       }
-      setIsDrawing(false);
-    }
 
-    lastPinchState.current = isPinching;
-  }, [isPinching, isHandDetected, cursorPosition, isDrawing, currentStroke, brushColor, brushSize, isDrawingMode]);
+      const active = session.current;
+      setLiveStroke(
+        active?.kind === 'pen' ? { points: strokePoints.current, color: inkColor, size }
+          : active?.kind === 'shape' ? active.stroke
+          : null
+      );
+      setLassoPath(prev => active?.kind === 'lasso' ? [...active.path] : prev.length > 0 ? [] : prev);
+      setDraft(draftRef.current);
+      setSelection(selectionRef.current);
+      lastFist.current = Object.fromEntries(cursors.map(c => [c.id, c.isFist]));
+    });
+  }, [frames, camera, isDrawingMode, brushColor, brushOpacity, brushSize, tool, snapShapes, setStrokes, addRecent]);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    // a new tool starts without a selection
+    selectionRef.current = [];
+  }, [tool]);
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  useEffect(() => {
+    const committed = committedCanvasRef.current;
+    const live = liveCanvasRef.current;
+    if (!isDrawingMode || !committed || !live) return;
 
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
+    const renderer = new StrokeLayers(committed, live);
+    layers.current = renderer;
+    const handleResize = () => renderer.resize(window.innerWidth, window.innerHeight);
+    handleResize();
+    // zooming changes devicePixelRatio and fires resize as well
+    window.addEventListener('resize', handleResize);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      layers.current = null;
+    };
+  }, [isDrawingMode]);
 
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+  useEffect(() => {
+    layers.current?.setStrokes(shown);
+  }, [shown, isDrawingMode]);
 
-    strokes.forEach(stroke => {
-      if (stroke.points.length < 2) return;
+  useEffect(() => {
+    layers.current?.setLive(liveStroke);
+  }, [liveStroke, isDrawingMode]);
 
-      ctx.strokeStyle = stroke.color;
-      ctx.lineWidth = stroke.size;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
+  useEffect(() => {
+    layers.current?.setCamera(camera);
+  }, [camera, isDrawingMode]);
 
-      ctx.beginPath();
-      ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-      
-      for (let i = 1; i < stroke.points.length; i++) {
-        ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
-      }
-      
-      ctx.stroke();
-    });
+  if (!isDrawingMode) return null;
 
-    if (currentStroke.length > 1) {
-      ctx.strokeStyle = brushColor;
-      ctx.lineWidth = brushSize;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
+  const toolButtonStyle = (active: boolean) => ({ hovered }: HandTargetState): React.CSSProperties => ({
+    padding: '6px 10px',
+    backgroundColor: active ? 'white' : (hovered ? 'rgba(255,255,255,0.4)' : 'rgba(255,255,255,0.2)'),
+    color: active ? 'black' : 'white',
+    border: hovered ? '2px solid white' : 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px',
+    fontWeight: 'bold',
+    transform: hovered ? 'scale(1.1)' : 'scale(1)',
+    transition: 'transform 0.2s',
+  });
 
-      ctx.beginPath();
-      ctx.moveTo(currentStroke[0].x, currentStroke[0].y);
-      
-      for (let i = 1; i < currentStroke.length; i++) {
-        ctx.lineTo(currentStroke[i].x, currentStroke[i].y);
-      }
-      
-      ctx.stroke();
-    }
-  }, [strokes, currentStroke, brushColor, brushSize]);
+  const redButtonStyle = ({ hovered }: HandTargetState): React.CSSProperties => ({
+    padding: '8px 16px',
+    background: hovered ? '#ff6666' : '#ff4444',
+    color: 'white',
+    border: hovered ? '2px solid white' : 'none',
+    borderRadius: '8px',
+    cursor: 'pointer',
+    fontSize: '13px',
+    fontWeight: 'bold',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    transition: 'all 0.2s',
+    transform: hovered ? 'scale(1.1)' : 'scale(1)',
+  });
 
-  if (!isDrawingMode) return null;
+  const deleteSelected = () => {
+    setStrokes(prev => prev.filter(s => !selected.includes(s)));
+    selectionRef.current = [];
+  };
+
+  const clearAll = () => {
+    setStrokes([]);
+    strokePoints.current = [];
+    session.current = null;
+    draftRef.current = null;
+    selectionRef.current = [];
+    pen.current.cancel('cleared');
+  };
 
   return (
     <>
-      <canvas
-        ref={canvasRef}
-        style={{
-          position: 'fixed',
-          top: 0,
-          left: 0,
-          width: '100%',
-          height: '100%',
-          pointerEvents: 'none',
-          zIndex: 500,
-        }}
-      />
+      <canvas ref={committedCanvasRef} style={canvasStyle} />
+      <canvas ref={liveCanvasRef} style={{ ...canvasStyle, zIndex: 501 }} />
+
+      <svg style={{ ...canvasStyle, zIndex: 502 }}>
+        {lassoPath.length > 1 && (
+          <polyline
+            points={lassoPath.map(p => worldToScreen(camera, p)).map(p => `${p.x},${p.y}`).join(' ')}
+            fill="rgba(139, 92, 246, 0.1)"
+            stroke="#8b5cf6"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+          />
+        )}
+        {selectionRect && (
+          <>
+            <rect
+              x={selectionRect.x}
+              y={selectionRect.y}
+              width={selectionRect.width}
+              height={selectionRect.height}
+              fill="none"
+              stroke="#8b5cf6"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+            />
+            <rect
+              x={selectionRect.x + selectionRect.width - HANDLE_SIZE / 4}
+              y={selectionRect.y + selectionRect.height - HANDLE_SIZE / 4}
+              width={HANDLE_SIZE / 2}
+              height={HANDLE_SIZE / 2}
+              fill="#8b5cf6"
+              stroke="white"
+              strokeWidth={2}
+            />
+          </>
+        )}
+        {(tool === 'stroke-eraser' || tool === 'pixel-eraser') && cursors.map(cursor => (
+          <circle
+            key={cursor.id}
+            cx={cursor.x}
+            cy={cursor.y}
+            r={eraserRadius(brushSize)}
+            fill="rgba(255, 255, 255, 0.1)"
+            stroke="white"
+            strokeWidth={1.5}
+            strokeDasharray={tool === 'pixel-eraser' ? '3 3' : undefined}
+          />
+        ))}
+      </svg>
       
+      {showBrushPanel && (
+        <BrushPanel
+          ref={panelRef}
+          color={brushColor}
+          opacity={brushOpacity}
+          size={brushSize}
+          onColorChange={setBrushColor}
+          onOpacityChange={setBrushOpacity}
+          onSizeChange={setBrushSize}
+          recent={recent}
+          palettes={palettes}
+          onSavePalette={savePalette}
+          onAddToPalette={addColor}
+          onDeletePalette={removePalette}
+        />
+      )}
+
       <div
         ref={toolbarRef}
         className="drawing-toolbar"
@@ -207,105 +515,82 @@ export default function DrawingCanvas({ cursorPosition, isHandDetected, isPinchi
           justifyContent: 'center',
         }}
       >
-        <button
-          ref={exitRef}
-          onClick={onExit}
-          style={{
-            padding: '8px 16px',
-            background: hoveredButton === 'exit' ? '#ff6666' : '#ff4444',
-            color: 'white',
-            border: hoveredButton === 'exit' ? '2px solid white' : 'none',
-            borderRadius: '8px',
-            cursor: 'pointer',
-            fontSize: '13px',
-            fontWeight: 'bold',
-            display: 'flex',
-            alignItems: 'center',
-            gap: '6px',
-            transition: 'all 0.2s',
-            transform: hoveredButton === 'exit' ? 'scale(1.1)' : 'scale(1)',
-          }}
-          onMouseEnter={(e) => (e.currentTarget.style.background = '#ff6666')}
-          onMouseLeave={(e) => (e.currentTarget.style.background = hoveredButton === 'exit' ? '#ff6666' : '#ff4444')}
-        >
+        <HandButton onClick={onExit} style={redButtonStyle}>
           <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
             <line x1="18" y1="6" x2="6" y2="18"></line>
             <line x1="6" y1="6" x2="18" y2="18"></line>
           </svg>
           Exit
-        </button>
+        </HandButton>
 
         <div style={{ width: '1px', height: '32px', background: 'rgba(255,255,255,0.2)' }} />
         
         <span style={{ color: '#e0e0e0', fontSize: '13px', fontWeight: '600' }}>Colors</span>
         
         <div style={{ display: 'flex', gap: '8px' }}>
-          {colors.map((color, index) => (
-            <button
+          {recent.slice(0, QUICK_COLORS).map(color => (
+            <HandButton
               key={color}
-              ref={el => { colorRefs.current[index] = el; }}
               onClick={() => setBrushColor(color)}
-              style={{
+              title={color}
+              style={({ hovered }) => ({
                 width: '32px',
                 height: '32px',
+                padding: 0,
                 borderRadius: '50%',
                 backgroundColor: color,
-                border: brushColor === color ? '3px solid white' : (hoveredButton === `color-${index}` ? '3px solid rgba(255,255,255,0.8)' : '2px solid rgba(255,255,255,0.3)'),
+                border: brushColor === color ? '3px solid white' : (hovered ? '3px solid rgba(255,255,255,0.8)' : '2px solid rgba(255,255,255,0.3)'),
                 cursor: 'pointer',
                 transition: 'transform 0.2s',
-                transform: hoveredButton === `color-${index}` ? 'scale(1.2)' : 'scale(1)',
-              }}
-              onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
-              onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
+                transform: hovered ? 'scale(1.2)' : 'scale(1)',
+              })}
             />
           ))}
         </div>
 
-        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
-          <span style={{ color: '#888', fontSize: '12px' }}>Size:</span>
-          {sizes.map((size, index) => (
-            <button
-              key={size}
-              ref={el => { sizeRefs.current[index] = el; }}
-              onClick={() => setBrushSize(size)}
-              style={{
-                width: '32px',
-                height: '32px',
-                borderRadius: '4px',
-                backgroundColor: brushSize === size ? 'white' : (hoveredButton === `size-${index}` ? 'rgba(255,255,255,0.4)' : 'rgba(255,255,255,0.2)'),
-                color: brushSize === size ? 'black' : 'white',
-                border: hoveredButton === `size-${index}` ? '2px solid white' : 'none',
-                cursor: 'pointer',
-                fontSize: '11px',
-                fontWeight: 'bold',
-                transform: hoveredButton === `size-${index}` ? 'scale(1.1)' : 'scale(1)',
-                transition: 'transform 0.2s',
-              }}
-            >
-              {size}
-            </button>
+        <HandButton
+          onClick={() => setShowBrushPanel(prev => !prev)}
+          title="Color wheel, opacity, size and palettes"
+          style={state => ({ ...toolButtonStyle(showBrushPanel)(state), display: 'flex', alignItems: 'center', gap: '8px' })}
+        >
+          <span
+            style={{
+              width: `${Math.min(20, Math.max(4, brushSize))}px`,
+              height: `${Math.min(20, Math.max(4, brushSize))}px`,
+              borderRadius: '50%',
+              background: withOpacity(brushColor, brushOpacity),
+              border: '1px solid rgba(255,255,255,0.5)',
+            }}
+          />
+          Brush {brushSize}px
+        </HandButton>
+
+        <div style={{ width: '1px', height: '32px', background: 'rgba(255,255,255,0.2)' }} />
+
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center', flexWrap: 'wrap' }}>
+          <span style={{ color: '#888', fontSize: '12px' }}>Tool:</span>
+          {tools.map(({ id, label }) => (
+            <HandButton key={id} onClick={() => setTool(id)} style={toolButtonStyle(tool === id)}>
+              {label}
+            </HandButton>
           ))}
+          <HandToggle checked={snapShapes} onChange={setSnapShapes}>
+            Snap Shapes
+          </HandToggle>
+          <HandButton
+            onClick={deleteSelected}
+            dwell={false}
+            disabled={selected.length === 0}
+            style={state => ({ ...toolButtonStyle(false)(state), opacity: selected.length > 0 ? 1 : 0.5 })}
+          >
+            Delete Selection
+          </HandButton>
         </div>
 
-        <button
-          ref={clearRef}
-          onClick={() => { setStrokes([]); setCurrentStroke([]); }}
-          style={{
-            padding: '8px 16px',
-            backgroundColor: hoveredButton === 'clear' ? '#ff6666' : '#ff4444',
-            color: 'white',
-            border: hoveredButton === 'clear' ? '2px solid white' : 'none',
-            borderRadius: '6px',
-            cursor: 'pointer',
-            fontSize: '13px',
-            fontWeight: 'bold',
-            marginLeft: '8px',
-            transform: hoveredButton === 'clear' ? 'scale(1.1)' : 'scale(1)',
-            transition: 'transform 0.2s',
-          }}
-        >
+        {/* no dwell here, resting on Clear shouldn't wipe the board */}
+        <HandButton onClick={clearAll} dwell={false} style={state => ({ ...redButtonStyle(state), borderRadius: '6px', marginLeft: '8px' })}>
           Clear
-        </button>
+        </HandButton>
       </div>
     </>
   );
@@ -0,0 +1,165 @@
+import { useEffect, useRef, useState } from 'react';
+import type { HandData } from '../hooks/useHandTracking';
+import { addTake, handFeatures, type TrainedGesture } from '../utils/gestureTraining';
+import { ACTIONS, isActionId, type ActionId } from '../utils/actions';
+
+interface GestureTrainerProps {
+  hands: HandData[];
+  gestures: TrainedGesture[];
+  onChange: (gestures: TrainedGesture[]) => void;
+  // the trained gesture recognized right now, shown so a new one can be tried out
+  current: string | null;
+}
+
+interface Recording {
+  name: string;
+  phase: 'countdown' | 'recording';
+  endsAt: number;
+}
+
+// time to get the pose ready after clicking, then how long it's held
+const COUNTDOWN_MS = 1500;
+const RECORD_MS = 3000;
+// fewer frames than this means the hand wasn't in view
+const MIN_FRAMES = 10;
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  background: 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e0e0e0',
+  fontSize: '13px',
+  cursor: 'pointer',
+};
+
+const smallButtonStyle: React.CSSProperties = { ...buttonStyle, padding: '2px 8px', fontSize: '12px' };
+
+// Teach the app a pose by holding it in front of the camera for a few seconds
+export default function GestureTrainer({ hands, gestures, onChange, current }: GestureTrainerProps) {
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [now, setNow] = useState(() => performance.now());
+  const [error, setError] = useState<string | null>(null);
+  const frames = useRef<number[][]>([]);
+
+  useEffect(() => {
+    if (recording?.phase !== 'recording') return;
+    const features = hands[0] && handFeatures(hands[0]);
+    if (features) frames.current.push(features);
+  }, [hands, recording]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const tick = window.setInterval(() => setNow(performance.now()), 100);
+    const done = window.setTimeout(() => {
+      if (recording.phase === 'countdown') {
+        frames.current = [];
+        setRecording({ ...recording, phase: 'recording', endsAt: performance.now() + RECORD_MS });
+        return;
+      }
+      setRecording(null);
+      if (frames.current.length < MIN_FRAMES) {
+        setError('No hand seen, keep it in view while recording');
+      } else {
+        onChange(addTake(gestures, recording.name, frames.current));
+      }
+      frames.current = [];
+    }, recording.endsAt - performance.now());
+    return () => {
+      window.clearInterval(tick);
+      window.clearTimeout(done);
+    };
+  }, [recording, gestures, onChange]);
+
+  const record = (name: string) => {
+    setError(null);
+    setNow(performance.now());
+    setRecording({ name, phase: 'countdown', endsAt: performance.now() + COUNTDOWN_MS });
+  };
+
+  const handleNew = () => {
+    const name = window.prompt('Name for the new gesture', `Gesture ${gestures.length + 1}`);
+    if (name?.trim()) record(name.trim());
+  };
+
+  const setAction = (name: string, action: ActionId | null) => {
+    onChange(gestures.map(g => (g.name === name ? { ...g, action } : g)));
+  };
+
+  const handleDelete = (name: string) => {
+    if (window.confirm(`Forget the "${name}" gesture?`)) onChange(gestures.filter(g => g.name !== name));
+  };
+
+  const secondsLeft = recording ? Math.max(0, Math.ceil((recording.endsAt - now) / 1000)) : 0;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '10px 16px',
+        background: 'rgba(26, 26, 46, 0.8)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '8px',
+        color: '#e0e0e0',
+        fontSize: '14px',
+        backdropFilter: 'blur(10px)',
+        userSelect: 'none',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+        <span style={{ fontWeight: 'bold' }}>Custom gestures</span>
+        <button style={{ ...buttonStyle, opacity: recording ? 0.5 : 1 }} onClick={handleNew} disabled={!!recording}>
+          Record new
+        </button>
+      </div>
+
+      {recording && (
+        <span style={{ color: recording.phase === 'recording' ? '#ff4444' : '#FFD93D', fontSize: '12px' }}>
+          {recording.phase === 'countdown'
+            ? `Get ready to show "${recording.name}"... ${secondsLeft}`
+            : `Hold "${recording.name}" steady, ${secondsLeft}s`}
+        </span>
+      )}
+
+      {gestures.map(gesture => (
+        <div key={gesture.name} style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '12px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span
+              style={{
+                flex: 1,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+                color: current === gesture.name ? '#4ecdc4' : '#e0e0e0',
+                fontWeight: current === gesture.name ? 'bold' : 'normal',
+              }}
+              title={`${gesture.samples.length} samples`}
+            >
+              {gesture.name}
+            </span>
+            <button style={smallButtonStyle} onClick={() => record(gesture.name)} disabled={!!recording} title="Record another take">
+              + Take
+            </button>
+            <button style={smallButtonStyle} onClick={() => handleDelete(gesture.name)}>Delete</button>
+          </div>
+          <select
+            value={gesture.action ?? ''}
+            onChange={(e) => setAction(gesture.name, isActionId(e.target.value) ? e.target.value : null)}
+          >
+            <option value="">No action</option>
+            {Object.entries(ACTIONS).map(([action, { label }]) => (
+              <option key={action} value={action}>{label}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+
+      {gestures.length === 0 && !recording && (
+        <span style={{ color: '#888', fontSize: '12px' }}>Record a pose, then pick what it does</span>
+      )}
+      {error && <span style={{ color: '#ff4444', fontSize: '12px' }}>{error}</span>}
+    </div>
+  );
+}
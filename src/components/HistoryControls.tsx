@@ -0,0 +1,58 @@
+import type { HistoryInfo } from '../hooks/useWorkspace';
+
+interface HistoryControlsProps {
+  history: HistoryInfo;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '6px 12px',
+  background: 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e0e0e0',
+  fontSize: '13px',
+  cursor: 'pointer',
+};
+
+export default function HistoryControls({ history, onUndo, onRedo }: HistoryControlsProps) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '10px 16px',
+        background: 'rgba(26, 26, 46, 0.8)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '8px',
+        color: '#e0e0e0',
+        fontSize: '14px',
+        backdropFilter: 'blur(10px)',
+        userSelect: 'none',
+      }}
+    >
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button
+          style={{ ...buttonStyle, opacity: history.undoDepth > 0 ? 1 : 0.5 }}
+          onClick={onUndo}
+          disabled={history.undoDepth === 0}
+          title={history.undoLabel ? `Undo: ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+        >
+          Undo ({history.undoDepth})
+        </button>
+        <button
+          style={{ ...buttonStyle, opacity: history.redoDepth > 0 ? 1 : 0.5 }}
+          onClick={onRedo}
+          disabled={history.redoDepth === 0}
+          title={history.redoLabel ? `Redo: ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        >
+          Redo ({history.redoDepth})
+        </button>
+      </div>
+      {history.undoLabel && <span style={{ color: '#888', fontSize: '12px' }}>Last: {history.undoLabel}</span>}
+    </div>
+  );
+}
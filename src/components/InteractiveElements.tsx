@@ -1,5 +1,89 @@
-import { useState, useEffect, useRef } from 'react';
-import { inRect } from '../utils/geometry';
+import { useState, useEffect, useMemo, useRef, type Dispatch, type SetStateAction } from 'react';
+import { inBounds, inRect } from '../utils/geometry';
+import { InteractionMachine, transitionLogger, type InteractionTransition } from '../utils/interaction';
+import type { Emitter } from '../utils/emitter';
+import type { MotionGestureEvent } from '../utils/motionGestures';
+import { twoHandTransform } from '../utils/bimanual';
+import { landmarkToScreen, type Calibration } from '../utils/calibration';
+import { toggleTask } from '../utils/markdown';
+import { TEXT_KINDS, frameMembers, isFrame, nextZ, noteAt, noteZ, raiseNote, trashZone } from '../utils/notes';
+import { screenToWorld, type Camera } from '../utils/camera';
+import { GRID_SIZE, GUIDE_THRESHOLD, snapNote } from '../utils/layout';
+import { toggleConnector, type Connector } from '../utils/connectors';
+import { withOpacity } from '../utils/color';
+import HandButton from '../handInput/HandButton';
+import NoteContent from './NoteContent';
+import AirKeyboard from './AirKeyboard';
+import ConnectorLayer from './ConnectorLayer';
+import { vocabularyOf } from '../utils/wordPrediction';
+import type { HandCursor } from './VirtualCursor';
+
+const MIN_NOTE_SIZE = 120;
+const MAX_NOTE_SIZE = 800;
+// grab area of the bottom-right resize corner
+const RESIZE_HANDLE = 24;
+const LINK_HANDLE = 16;
+// how far (screen px) a pinch on a note has to travel before it becomes a link instead of a hold-to-edit
+const LINK_DRAG_DISTANCE = 40;
+const HOLD_TO_EDIT_MS = 400;
+
+// what a pinch landed on: the resize corner, or a note that can be linked from or held to edit
+interface PinchTarget {
+  boxId: number;
+  corner: boolean;
+  editable: boolean;
+}
+
+const KIND_LABELS: Record<NoteKind, string> = {
+  text: 'Text',
+  markdown: 'MD',
+  checklist: '☑ List',
+  frame: 'Frame',
+};
+
+export type NoteKind = 'text' | 'markdown' | 'checklist' | 'frame';
+
+const inCorner = (p: { x: number; y: number }, box: DraggableBox) =>
+  inRect(p, box) && p.x >= box.x + box.width - RESIZE_HANDLE && p.y >= box.y + box.height - RESIZE_HANDLE;
+
+// a dragged frame carries the notes that were inside it when it was grabbed
+interface DragGroup {
+  start: { x: number; y: number };
+  members: { id: number; x: number; y: number }[];
+}
+
+const dragGroupFor = (boxes: DraggableBox[], box: DraggableBox): DragGroup | null =>
+  isFrame(box)
+    ? { start: { x: box.x, y: box.y }, members: frameMembers(boxes, box).map(({ id, x, y }) => ({ id, x, y })) }
+    : null;
+
+// the notes a dragged note can line up with: everything that isn't moving with it
+const snapTargets = (boxes: DraggableBox[], id: number, group: DragGroup | null) => {
+  const moving = new Set([id, ...(group?.members.map(m => m.id) ?? [])]);
+  return boxes.filter(b => !moving.has(b.id));
+};
+
+// Moves the dragged note to x, y (snapped to a neighbor's edge or center when one is close,
+// else to the grid if it's on), along with a frame's contents
+function moveDragged(boxes: DraggableBox[], id: number, x: number, y: number, group: DragGroup | null, grid: boolean, zoom: number) {
+  const box = boxes.find(b => b.id === id);
+  if (!box) return boxes;
+  const snapped = snapNote({ ...box, x, y }, snapTargets(boxes, id, group), {
+    grid: grid ? GRID_SIZE : undefined,
+    threshold: GUIDE_THRESHOLD / zoom,
+  });
+  const dx = snapped.x - (group?.start.x ?? 0);
+  const dy = snapped.y - (group?.start.y ?? 0);
+  const members = new Map(group?.members.map(m => [m.id, m]));
+  return boxes.map(b => {
+    if (b.id === id) return { ...b, x: snapped.x, y: snapped.y };
+    const member = members.get(b.id);
+    return member ? { ...b, x: member.x + dx, y: member.y + dy } : b;
+  });
+}
+
+// how long a note stays ready to be swiped away after the hand held still over it
+const DISMISS_WINDOW_MS = 3000;
 
 export interface DraggableBox {
   id: number;
@@ -10,6 +94,9 @@ export interface DraggableBox {
   color: string;
   label: string;
   text: string;
+  rotation?: number; // degrees
+  kind?: NoteKind; // plain text when missing
+  z?: number; // stacking order, raised whenever the note is grabbed
 }
 
 interface InteractiveElementsProps {
@@ -18,128 +105,326 @@ interface InteractiveElementsProps {
   isPinching: boolean;
   isFist: boolean;
   boxes: DraggableBox[];
-  onBoxesChange: (boxes: DraggableBox[]) => void;
+  onBoxesChange: Dispatch<SetStateAction<DraggableBox[]>>;
+  connectors: Connector[];
+  onConnectorsChange: Dispatch<SetStateAction<Connector[]>>;
+  motionEvents: Emitter<MotionGestureEvent>;
+  cursors: HandCursor[];
+  camera: Camera;
+  snapToGrid: boolean;
+  // notes a collaborator is moving right now; they can't be grabbed until they let go
+  lockedNotes?: Record<number, { name: string; color: string }>;
+  // the collaboration site new connector ids come from, 0 when the board isn't shared
+  site?: number;
+  // the cursor's camera mapping, so swipes land where the cursor was
+  calibration?: Calibration | null;
+  // whether the cursor normalizes reach by hand size, swipes follow it
+  normalizeReach?: boolean;
 }
 
-export default function InteractiveElements({ cursorPosition, isHandDetected, isPinching, isFist, boxes, onBoxesChange }: InteractiveElementsProps) {
+const NO_LOCKS: Record<number, { name: string; color: string }> = {};
+
+export default function InteractiveElements({ cursorPosition: screenCursor, isHandDetected, isPinching, isFist, boxes, onBoxesChange, connectors, onConnectorsChange, motionEvents, cursors, camera, snapToGrid, lockedNotes = NO_LOCKS, site = 0, calibration = null, normalizeReach = false }: InteractiveElementsProps) {
+  // notes live in world space; the trash and the keyboard stay in screen space
+  const cursorPosition = useMemo(() => screenToWorld(camera, screenCursor), [camera, screenCursor]);
 
-  const [draggedBox, setDraggedBox] = useState<number | null>(null);
+  const [heldBox, setHeldBox] = useState<number | null>(null);
+  // whoever started moving a note first keeps it; a collaborator got there before us
+  const draggedBox = heldBox !== null && lockedNotes[heldBox] ? null : heldBox;
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  // the note a swipe would dismiss right now, null when none is ready
+  const [dismissable, setDismissable] = useState<number | null>(null);
+  const [dragGroup, setDragGroup] = useState<DragGroup | null>(null);
+  // a link being dragged out of a note, by pinch or with the mouse from the note's link handle
+  const [link, setLink] = useState<{ from: number; mouse: boolean } | null>(null);
   const [editingBox, setEditingBox] = useState<number | null>(null);
-  const lastFistState = useRef(false);
-  const fistTimer = useRef<number | null>(null);
-  const lastPinchState = useRef(false);
-  const pinchTimer = useRef<number | null>(null);
+  // a fist on a note drags it; a pinch resizes from the corner, drags out a link, or held still edits
+  const grab = useRef(new InteractionMachine<number>({ dragDistance: 0 }, undefined, transitionLogger('note grab')));
+  const pinch = useRef(new InteractionMachine<PinchTarget>(
+    { dragDistance: LINK_DRAG_DISTANCE, holdMs: HOLD_TO_EDIT_MS },
+    target => target.editable && !target.corner,
+    transitionLogger('note pinch'),
+  ));
   const textareaRefs = useRef<Record<number, HTMLTextAreaElement | null>>({});
+  const keyboardRef = useRef<HTMLDivElement>(null);
+  // the note the air keyboard types into, opened when editing starts by hand
+  const [keyboardFor, setKeyboardFor] = useState<number | null>(null);
+  // caret in the edited note, kept so the keyboard can type while the textarea isn't focused
+  const [caret, setCaret] = useState<number | null>(null);
+  const [mouseDragPos, setMouseDragPos] = useState<{ x: number; y: number } | null>(null);
+  // a pinch on a note's corner resizes it; offset keeps the corner under the finger
+  const cornerGrab = useRef<{ boxId: number; dx: number; dy: number } | null>(null);
+  const mouseResize = useRef<{ boxId: number; dx: number; dy: number } | null>(null);
+  const twoHand = useRef<{
+    boxId: number;
+    handIds: [number, number];
+    startA: { x: number; y: number };
+    startB: { x: number; y: number };
+    start: DraggableBox;
+  } | null>(null);
 
+  // pinching a note with both hands scales and rotates it
   useEffect(() => {
-    if (!isHandDetected) {
-      setDraggedBox(null);
-      lastFistState.current = false;
-      lastPinchState.current = false;
-      if (fistTimer.current) {
-        clearTimeout(fistTimer.current);
-        fistTimer.current = null;
-      }
-      if (pinchTimer.current) {
-        clearTimeout(pinchTimer.current);
-        pinchTimer.current = null;
-      }
+    const pinching = cursors.filter(c => c.isPinching).map(c => ({ ...c, ...screenToWorld(camera, c) }));
+    if (pinching.length < 2) {
+      twoHand.current = null;
       return;
     }
 
-    if (isFist && !lastFistState.current) {
-      if (fistTimer.current) {
-        clearTimeout(fistTimer.current);
-        fistTimer.current = null;
+    const [a, b] = pinching;
+    const current = twoHand.current;
+    if (!current || current.handIds[0] !== a.id || current.handIds[1] !== b.id) {
+      const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      // frames only move as a group, they don't scale or rotate
+      const target = [noteAt(boxes, mid), noteAt(boxes, a), noteAt(boxes, b)].find(box => box && !isFrame(box) && !lockedNotes[box.id]);
+      if (!target) {
+        twoHand.current = null;
+        return;
       }
+      twoHand.current = { boxId: target.id, handIds: [a.id, b.id], startA: a, startB: b, start: target };
+      onBoxesChange(raiseNote(boxes, target.id));
+      return;
+    }
 
-      const hoveredBox = boxes.find(box => inRect(cursorPosition, box));
-      
-      if (hoveredBox) {
+    const { start, startA, startB, boxId } = current;
+    const t = twoHandTransform(startA, startB, a, b);
+    const width = Math.max(MIN_NOTE_SIZE, Math.min(MAX_NOTE_SIZE, start.width * t.scale));
+    const height = Math.max(MIN_NOTE_SIZE, Math.min(MAX_NOTE_SIZE, start.height * t.scale));
+    const centerX = start.x + start.width / 2 + t.translation.x;
+    const centerY = start.y + start.height / 2 + t.translation.y;
+
+    const next = {
+      x: centerX - width / 2,
+      y: centerY - height / 2,
+      width,
+      height,
+      rotation: (start.rotation ?? 0) + t.rotation * 180 / Math.PI,
+    };
+    // hands held still: the note is already there, and a new array would only run this again
+    const box = boxes.find(b => b.id === boxId);
+    if (!box || (Object.keys(next) as (keyof typeof next)[]).every(key => box[key] === next[key])) return;
+    onBoxesChange(boxes.map(b => (b.id === boxId ? { ...b, ...next } : b)));
+  }, [cursors, camera, boxes, onBoxesChange, lockedNotes]);
+
+  // holding an open hand still over a note readies it, then a horizontal swipe that
+  // starts on it dismisses it; a hand just waving across the board doesn't
+  useEffect(() => motionEvents.subscribe(event => {
+    // only an idle hand dismisses, not one that's dragging, linking, resizing, editing, pinching or grabbing
+    if (draggedBox !== null || editingBox !== null || link || cornerGrab.current || twoHand.current) return;
+    if (isPinching || isFist || grab.current.engaged || pinch.current.engaged) return;
+
+    if (event.type === 'hold' && event.name === 'dwell') {
+      const held = noteAt(boxes, cursorPosition);
+      if (held && !lockedNotes[held.id]) setDismissable(held.id);
+      return;
+    }
+    if (event.type !== 'swipe' || (event.direction !== 'left' && event.direction !== 'right')) return;
+    if (dismissable === null) return;
+
+    // swipe positions are already mirrored, landmarkToScreen takes the raw landmark
+    const start = screenToWorld(camera, landmarkToScreen(calibration, { x: 1 - event.from.x, y: event.from.y }, normalizeReach ? event.size : null));
+    const target = noteAt(boxes, start);
+    if (target?.id === dismissable) {
+      onBoxesChange(boxes.filter(box => box.id !== target.id));
+    }
+    setDismissable(null);
+  }), [motionEvents, camera, calibration, normalizeReach, boxes, onBoxesChange, draggedBox, editingBox, link, isPinching, isFist, cursorPosition, dismissable, lockedNotes]);
+
+  useEffect(() => {
+    if (dismissable === null) return;
+    const timer = window.setTimeout(() => setDismissable(null), DISMISS_WINDOW_MS);
+    return () => window.clearTimeout(timer);
+  }, [dismissable]);
+
+  useEffect(() => {
+    const now = performance.now();
+    const hovered = isHandDetected ? noteAt(boxes, cursorPosition) : undefined;
+    const pointer = { id: 0, x: screenCursor.x, y: screenCursor.y };
+
+    const grabbed = grab.current.update(now, isHandDetected ? [{
+      ...pointer,
+      down: isFist,
+      target: hovered && !lockedNotes[hovered.id] ? hovered.id : null,
+    }] : []);
+
+    const onGrab = ({ to, target }: InteractionTransition<number>) => {
+      const box = boxes.find(b => b.id === target);
+      if (to === 'press' && box) {
         setEditingBox(null);
-        setDraggedBox(hoveredBox.id);
+        setHeldBox(box.id);
+        setDragGroup(dragGroupFor(boxes, box));
         setDragOffset({
-          x: cursorPosition.x - hoveredBox.x,
-          y: cursorPosition.y - hoveredBox.y,
+          x: cursorPosition.x - box.x,
+          y: cursorPosition.y - box.y,
         });
+        onBoxesChange(raiseNote(boxes, box.id));
+      } else if (to === 'release' || to === 'cancel') {
+        // letting go over the trash deletes the note, losing the hand just drops it
+        if (to === 'release' && target !== null && inRect(screenCursor, trashZone())) {
+          onBoxesChange(prev => prev.filter(b => b.id !== target));
+        }
+        setHeldBox(null);
+        setDragGroup(null);
       }
+    };
+    grabbed.transitions.forEach(onGrab);
+
+    // the hand has to let go of a note a collaborator took before it can grab again
+    const lockedOut = heldBox !== null && lockedNotes[heldBox] ? grab.current.cancel('locked by a collaborator', now) : null;
+    if (lockedOut) {
+      onGrab(lockedOut);
+    } else if (draggedBox !== null && grab.current.engaged && isHandDetected) {
+      onBoxesChange(moveDragged(boxes, draggedBox, cursorPosition.x - dragOffset.x, cursorPosition.y - dragOffset.y, dragGroup, snapToGrid, camera.zoom));
     }
 
-    if (!isFist && lastFistState.current) {
-      if (draggedBox !== null && editingBox === null) {
-        if (fistTimer.current) {
-          clearTimeout(fistTimer.current);
+    // pinches on the air keyboard belong to its keys, not the notes under it
+    const keyboardRect = keyboardRef.current?.getBoundingClientRect();
+    const onKeyboard = !!keyboardRect && inBounds(screenCursor, keyboardRect.left, keyboardRect.right, keyboardRect.top, keyboardRect.bottom);
+
+    // a second hand on the note turned the pinch into a two-hand transform
+    const handedOff = twoHand.current ? pinch.current.cancel('two hands', now) : null;
+
+    const pinched = pinch.current.update(now, isHandDetected ? [{
+      ...pointer,
+      down: isPinching && !isFist,
+      target: hovered && !onKeyboard && !twoHand.current
+        ? {
+            boxId: hovered.id,
+            corner: !lockedNotes[hovered.id] && inCorner(cursorPosition, hovered),
+            editable: !isFrame(hovered) && editingBox !== hovered.id,
+          }
+        : null,
+    }] : []);
+
+    const onPinch = ({ to, target }: InteractionTransition<PinchTarget>) => {
+      const box = target && boxes.find(b => b.id === target.boxId);
+      if (to === 'press' && box && target.corner) {
+        cornerGrab.current = {
+          boxId: box.id,
+          dx: box.x + box.width - cursorPosition.x,
+          dy: box.y + box.height - cursorPosition.y,
+        };
+        onBoxesChange(raiseNote(boxes, box.id));
+      } else if (to === 'drag' && box && !target.corner) {
+        // pinch on a note and drag away from it to link it to another one
+        setLink({ from: box.id, mouse: false });
+      } else if (to === 'edit' && box) {
+        const dropped = grab.current.cancel('editing', now);
+        if (dropped) onGrab(dropped);
+        setEditingBox(box.id);
+        setKeyboardFor(box.id);
+        setCaret(null);
+        setHeldBox(null);
+        textareaRefs.current[box.id]?.focus();
+      } else if (to === 'release' || to === 'cancel') {
+        cornerGrab.current = null;
+        if (link && !link.mouse) {
+          const linkTo = noteAt(boxes, cursorPosition);
+          if (to === 'release' && linkTo && linkTo.id !== link.from) {
+            onConnectorsChange(prev => toggleConnector(prev, link.from, linkTo.id, site));
+          }
+          setLink(null);
         }
-        
-        fistTimer.current = window.setTimeout(() => {
-          setDraggedBox(null);
-          fistTimer.current = null;
-        }, 100);
       }
-    }
-
-    if (isFist && fistTimer.current) {
-      clearTimeout(fistTimer.current);
-      fistTimer.current = null;
-    }
+    };
+    if (handedOff) onPinch(handedOff);
+    pinched.transitions.forEach(onPinch);
 
-    if (draggedBox !== null && editingBox === null) {
+    const corner = cornerGrab.current;
+    if (corner && (!pinch.current.engaged || lockedNotes[corner.boxId])) {
+      cornerGrab.current = null;
+    } else if (corner && isHandDetected) {
       onBoxesChange(boxes.map(box =>
-        box.id === draggedBox
-          ? { 
-              ...box, 
-              x: cursorPosition.x - dragOffset.x, 
-              y: cursorPosition.y - dragOffset.y 
+        box.id === corner.boxId
+          ? {
+              ...box,
+              width: Math.max(MIN_NOTE_SIZE, Math.min(MAX_NOTE_SIZE, cursorPosition.x + corner.dx - box.x)),
+              height: Math.max(MIN_NOTE_SIZE, Math.min(MAX_NOTE_SIZE, cursorPosition.y + corner.dy - box.y)),
             }
           : box
       ));
     }
+  }, [isFist, isPinching, isHandDetected, cursorPosition, screenCursor, boxes, heldBox, draggedBox, dragGroup, editingBox, dragOffset, onBoxesChange, onConnectorsChange, link, snapToGrid, camera.zoom, lockedNotes, site]);
 
-    if (isPinching && !lastPinchState.current && !isFist) {
-      const hoveredBox = boxes.find(box => inRect(cursorPosition, box));
-      
-      if (hoveredBox && editingBox !== hoveredBox.id) {
-        pinchTimer.current = window.setTimeout(() => {
-          setEditingBox(hoveredBox.id);
-          setDraggedBox(null);
-          if (textareaRefs.current[hoveredBox.id]) {
-            textareaRefs.current[hoveredBox.id]?.focus();
-          }
-          pinchTimer.current = null;
-        }, 400);
+  // a mouse link follows the pointer anywhere on the page, not just over notes
+  useEffect(() => {
+    if (!link?.mouse) return;
+    const handleMove = (e: MouseEvent) => setMouseDragPos({ x: e.clientX, y: e.clientY });
+    const handleUp = (e: MouseEvent) => {
+      const target = noteAt(boxes, screenToWorld(camera, { x: e.clientX, y: e.clientY }));
+      if (target && target.id !== link.from) {
+        onConnectorsChange(prev => toggleConnector(prev, link.from, target.id, site));
       }
-    }
-
-    if (!isPinching && lastPinchState.current) {
-      if (pinchTimer.current) {
-        clearTimeout(pinchTimer.current);
-        pinchTimer.current = null;
-      }
-    }
-
-    lastFistState.current = isFist;
-    lastPinchState.current = isPinching;
-  }, [isFist, isPinching, isHandDetected, cursorPosition, boxes, draggedBox, editingBox, dragOffset, onBoxesChange]);
+      setLink(null);
+      setMouseDragPos(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [link, boxes, camera, onConnectorsChange, site]);
 
   const handleMouseDown = (boxId: number, e: React.MouseEvent) => {
     e.preventDefault();
     const box = boxes.find(b => b.id === boxId);
-    if (box) {
+    if (box && !lockedNotes[boxId]) {
       const rect = (e.target as HTMLElement).getBoundingClientRect();
       const clickY = e.clientY - rect.top;
       
       if (clickY < 40) {
+        const at = screenToWorld(camera, { x: e.clientX, y: e.clientY });
         setEditingBox(null);
-        setDraggedBox(boxId);
+        setHeldBox(boxId);
+        setDragGroup(dragGroupFor(boxes, box));
         setDragOffset({
-          x: e.clientX - box.x,
-          y: e.clientY - box.y,
+          x: at.x - box.x,
+          y: at.y - box.y,
         });
+        setMouseDragPos({ x: e.clientX, y: e.clientY });
+        onBoxesChange(prev => raiseNote(prev, boxId));
       }
     }
   };
 
+  const handleResizeStart = (box: DraggableBox, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (lockedNotes[box.id]) return;
+    const at = screenToWorld(camera, { x: e.clientX, y: e.clientY });
+    mouseResize.current = { boxId: box.id, dx: box.x + box.width - at.x, dy: box.y + box.height - at.y };
+    onBoxesChange(prev => raiseNote(prev, box.id));
+  };
+
+  const handleLinkStart = (box: DraggableBox, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setLink({ from: box.id, mouse: true });
+    setMouseDragPos({ x: e.clientX, y: e.clientY });
+  };
+
+  const renameFrame = (box: DraggableBox) => {
+    const title = window.prompt('Frame title', box.text || box.label);
+    if (title === null) return;
+    onBoxesChange(prev => prev.map(b => (b.id === box.id ? { ...b, text: title.trim() } : b)));
+  };
+
+  const cycleKind = (boxId: number) => {
+    setEditingBox(null);
+    onBoxesChange(prev => prev.map(box => {
+      if (box.id !== boxId) return box;
+      const next = TEXT_KINDS[(TEXT_KINDS.indexOf(box.kind ?? 'text') + 1) % TEXT_KINDS.length];
+      return { ...box, kind: next };
+    }));
+  };
+
+  const handleToggleTask = (boxId: number, line: number) => {
+    onBoxesChange(prev => prev.map(box =>
+      box.id === boxId ? { ...box, text: toggleTask(box.text, line) } : box
+    ));
+  };
+
   const handleBoxClick = (boxId: number) => {
     setEditingBox(boxId);
   };
@@ -150,126 +435,418 @@ export default function InteractiveElements({ cursorPosition, isHandDetected, is
     ));
   };
 
+  const vocabulary = useMemo(() => vocabularyOf(boxes.map(box => box.text)), [boxes]);
+  const keyboardBox = keyboardFor !== null && keyboardFor === editingBox ? boxes.find(box => box.id === keyboardFor) : undefined;
+  const keyboardCaret = keyboardBox ? Math.min(caret ?? keyboardBox.text.length, keyboardBox.text.length) : 0;
+
+  // Applies a keyboard edit at the caret (or the textarea's selection when it has focus)
+  const editAtCaret = (edit: (before: string, selected: string, after: string) => [string, string]) => {
+    if (!keyboardBox) return;
+    const el = textareaRefs.current[keyboardBox.id];
+    const focused = !!el && document.activeElement === el;
+    const text = keyboardBox.text;
+    const start = focused ? el.selectionStart : keyboardCaret;
+    const end = focused ? el.selectionEnd : keyboardCaret;
+    const [before, after] = edit(text.slice(0, start), text.slice(start, end), text.slice(end));
+
+    onBoxesChange(prev => prev.map(box => box.id === keyboardBox.id ? { ...box, text: before + after } : box));
+    setCaret(before.length);
+    if (focused) requestAnimationFrame(() => el.setSelectionRange(before.length, before.length));
+  };
+
+  const closeKeyboard = () => {
+    if (keyboardFor !== null) textareaRefs.current[keyboardFor]?.blur();
+    setKeyboardFor(null);
+    setEditingBox(null);
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (draggedBox !== null) {
-      onBoxesChange(boxes.map(box =>
-        box.id === draggedBox
-          ? { ...box, x: e.clientX - dragOffset.x, y: e.clientY - dragOffset.y }
+    const at = screenToWorld(camera, { x: e.clientX, y: e.clientY });
+    const resize = mouseResize.current;
+    if (resize) {
+      onBoxesChange(prev => prev.map(box =>
+        box.id === resize.boxId
+          ? {
+              ...box,
+              width: Math.max(MIN_NOTE_SIZE, Math.min(MAX_NOTE_SIZE, at.x + resize.dx - box.x)),
+              height: Math.max(MIN_NOTE_SIZE, Math.min(MAX_NOTE_SIZE, at.y + resize.dy - box.y)),
+            }
           : box
       ));
+      return;
+    }
+    if (draggedBox !== null && !lockedNotes[draggedBox]) {
+      setMouseDragPos({ x: e.clientX, y: e.clientY });
+      onBoxesChange(moveDragged(boxes, draggedBox, at.x - dragOffset.x, at.y - dragOffset.y, dragGroup, snapToGrid, camera.zoom));
     }
   };
 
-  const handleMouseUp = () => {
-    setDraggedBox(null);
+  const handleMouseUp = (e: React.MouseEvent) => {
+    mouseResize.current = null;
+    if (draggedBox !== null && inRect({ x: e.clientX, y: e.clientY }, trashZone())) {
+      const droppedId = draggedBox;
+      onBoxesChange(prev => prev.filter(box => box.id !== droppedId));
+    }
+    setHeldBox(null);
+    setDragGroup(null);
+    setMouseDragPos(null);
   };
 
   const hoveredBox = isHandDetected
-    ? boxes.find(box => inRect(cursorPosition, box))
+    ? noteAt(boxes, cursorPosition)
     : null;
 
+  const trash = trashZone();
+  const overTrash = draggedBox !== null && inRect(mouseDragPos ?? screenCursor, trash);
+  const dragged = draggedBox !== null ? boxes.find(box => box.id === draggedBox) : undefined;
+  // the dragged note is already snapped, so this only recovers which neighbors it lines up with exactly
+  const guides = dragged ? snapNote(dragged, snapTargets(boxes, dragged.id, dragGroup), { threshold: 0.5 }).guides : [];
+  const linkEnd = link && (link.mouse ? (mouseDragPos && screenToWorld(camera, mouseDragPos)) : cursorPosition);
+  const linkTarget = linkEnd ? noteAt(boxes, linkEnd) : undefined;
+  const linkGlow = (box: DraggableBox) => link && linkTarget?.id === box.id && link.from !== box.id;
+  const tooltip = (box: DraggableBox) =>
+    link ? 'Release to link'
+      : dismissable === box.id ? 'Swipe sideways to dismiss'
+      : inCorner(cursorPosition, box) ? 'Pinch to resize'
+      : 'Hovering';
+
+  // resize corner, plus a dot on the right edge to drag a connector out with the mouse
+  const handles = (box: DraggableBox) => (
+    <>
+      <div
+        onMouseDown={(e) => handleResizeStart(box, e)}
+        title="Drag or pinch to resize"
+        style={{
+          position: 'absolute',
+          right: 0,
+          bottom: 0,
+          width: `${RESIZE_HANDLE}px`,
+          height: `${RESIZE_HANDLE}px`,
+          cursor: 'nwse-resize',
+          background: 'linear-gradient(135deg, transparent 50%, rgba(0, 0, 0, 0.2) 50%)',
+          borderBottomRightRadius: '4px',
+        }}
+      />
+      <div
+        onMouseDown={(e) => handleLinkStart(box, e)}
+        title="Drag to another note to link them (or pinch a note and drag)"
+        style={{
+          position: 'absolute',
+          right: `${-LINK_HANDLE / 2}px`,
+          top: `calc(50% - ${LINK_HANDLE / 2}px)`,
+          width: `${LINK_HANDLE}px`,
+          height: `${LINK_HANDLE}px`,
+          borderRadius: '50%',
+          background: '#4ECDC4',
+          border: '2px solid white',
+          boxSizing: 'border-box',
+          cursor: 'crosshair',
+        }}
+      />
+    </>
+  );
+
+  // outlines a note in the color of the collaborator moving it
+  const heldBadge = (box: DraggableBox) => {
+    const holder = lockedNotes[box.id];
+    if (!holder) return null;
+    return (
+      <div
+        style={{
+          position: 'absolute',
+          inset: '-4px',
+          border: `2px solid ${holder.color}`,
+          borderRadius: '6px',
+          pointerEvents: 'none',
+        }}
+      >
+        <span
+          style={{
+            position: 'absolute',
+            left: '-2px',
+            bottom: '100%',
+            padding: '2px 6px',
+            borderRadius: '4px 4px 0 0',
+            background: holder.color,
+            color: 'white',
+            fontSize: '11px',
+            fontWeight: 'bold',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {holder.name} is moving
+        </span>
+      </div>
+    );
+  };
+
   return (
-    <div
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      style={{
-        position: 'fixed',
-        top: 0,
-        left: 0,
-        width: '100%',
-        height: '100%',
-        pointerEvents: 'none',
-        zIndex: 1000,
-      }}
-    >
-      {boxes.map(box => {
-        const isHovered = hoveredBox?.id === box.id;
-
-        return (
+    <>
+      <div
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          pointerEvents: 'none',
+          zIndex: 1000,
+        }}
+      >
+        {draggedBox !== null && (
           <div
-            key={box.id}
-            onMouseDown={(e) => handleMouseDown(box.id, e)}
             style={{
               position: 'absolute',
-              left: `${box.x}px`,
-              top: `${box.y}px`,
-              width: `${box.width}px`,
-              height: `${box.height}px`,
-              backgroundColor: box.color,
-              borderRadius: '4px',
+              left: `${trash.x}px`,
+              top: `${trash.y}px`,
+              width: `${trash.width}px`,
+              height: `${trash.height}px`,
               display: 'flex',
-              flexDirection: 'column',
-              fontWeight: 'normal',
-              fontSize: '14px',
-              color: '#333',
-              cursor: 'grab',
-              pointerEvents: 'auto',
-              transition: isHovered ? 'none' : 'transform 0.2s',
-              transform: isHovered ? 'scale(1.02)' : 'scale(1)',
-              boxShadow: isHovered
-                ? '0 8px 32px rgba(0, 0, 0, 0.3), 0 0 20px rgba(255, 255, 255, 0.5)'
-                : '0 4px 12px rgba(0, 0, 0, 0.15)',
-              userSelect: 'none',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px',
+              borderRadius: '12px',
+              border: `2px dashed ${overTrash ? '#ff4444' : 'rgba(255, 255, 255, 0.5)'}`,
+              backgroundColor: overTrash ? 'rgba(255, 68, 68, 0.35)' : 'rgba(0, 0, 0, 0.4)',
+              color: 'white',
+              fontSize: '13px',
+              fontWeight: 'bold',
+              transform: overTrash ? 'scale(1.1)' : 'scale(1)',
+              transition: 'transform 0.2s, background-color 0.2s',
+              // above the world layer, so above every note
+              zIndex: 1,
             }}
           >
-            <div
-              style={{
-                padding: '8px 12px',
-                backgroundColor: 'transparent',
-                color: '#666',
-                fontWeight: 'bold',
-                fontSize: '12px',
-                cursor: 'grab',
-                minHeight: '28px',
-              }}
-            >
-              {box.label}
-            </div>
-
-            <textarea
-              ref={(el) => { textareaRefs.current[box.id] = el; }}
-              value={box.text}
-              onChange={(e) => handleTextChange(box.id, e.target.value)}
-              onClick={() => handleBoxClick(box.id)}
-              onMouseDown={(e) => e.stopPropagation()}
-              placeholder="Pinch and hold to write..."
-              readOnly={editingBox !== box.id}
-              style={{
-                flex: 1,
-                padding: '12px',
-                border: 'none',
-                backgroundColor: 'transparent',
-                resize: 'none',
-                outline: 'none',
-                fontFamily: 'Arial, sans-serif',
-                fontSize: '20px',
-                color: '#333',
-                cursor: editingBox === box.id ? 'text' : 'grab',
-                lineHeight: '1.5',
-              }}
-            />
-            
-            {isHovered && (
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="3 6 5 6 21 6"></polyline>
+              <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+            </svg>
+            {overTrash ? 'Release to delete' : 'Drop here to delete'}
+          </div>
+        )}
+        <div
+          style={{
+            position: 'absolute',
+            left: 0,
+            top: 0,
+            transform: `scale(${camera.zoom}) translate(${-camera.x}px, ${-camera.y}px)`,
+            transformOrigin: '0 0',
+            zIndex: 0,
+          }}
+        >
+          {boxes.map(box => {
+            const isHovered = hoveredBox?.id === box.id;
+            const isDismissable = dismissable === box.id;
+            const kind = box.kind ?? 'text';
+            const showRendered = kind !== 'text' && editingBox !== box.id;
+            const isDragged = draggedBox === box.id;
+
+            if (kind === 'frame') {
+              return (
+                <div
+                  key={box.id}
+                  onMouseDown={(e) => handleMouseDown(box.id, e)}
+                  style={{
+                    position: 'absolute',
+                    left: `${box.x}px`,
+                    top: `${box.y}px`,
+                    width: `${box.width}px`,
+                    height: `${box.height}px`,
+                    boxSizing: 'border-box',
+                    backgroundColor: withOpacity(box.color, isHovered ? 0.22 : 0.15),
+                    border: `2px dashed ${box.color}`,
+                    borderRadius: '8px',
+                    cursor: 'grab',
+                    pointerEvents: 'auto',
+                    transform: `rotate(${box.rotation ?? 0}deg)`,
+                    boxShadow: linkGlow(box) ? '0 0 0 3px #4ECDC4' : 'none',
+                    outline: isDismissable ? '3px solid #FF6B6B' : 'none',
+                    userSelect: 'none',
+                    // under every note and connector
+                    zIndex: 0,
+                    opacity: isDragged && overTrash ? 0.5 : 1,
+                  }}
+                >
+                  <div
+                    onDoubleClick={() => renameFrame(box)}
+                    title="Double-click to rename"
+                    style={{ padding: '8px 12px', color: box.color, fontWeight: 'bold', fontSize: '13px', filter: 'brightness(1.4)' }}
+                  >
+                    {box.text || box.label}
+                  </div>
+                  {handles(box)}
+                  {heldBadge(box)}
+                </div>
+              );
+            }
+
+            return (
               <div
+                key={box.id}
+                onMouseDown={(e) => handleMouseDown(box.id, e)}
                 style={{
                   position: 'absolute',
-                  top: '-30px',
-                  left: '50%',
-                  transform: 'translateX(-50%)',
-                  padding: '4px 12px',
-                  backgroundColor: 'rgba(0, 0, 0, 0.8)',
-                  color: 'white',
+                  left: `${box.x}px`,
+                  top: `${box.y}px`,
+                  width: `${box.width}px`,
+                  height: `${box.height}px`,
+                  backgroundColor: box.color,
                   borderRadius: '4px',
-                  fontSize: '12px',
-                  whiteSpace: 'nowrap',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  fontWeight: 'normal',
+                  fontSize: '14px',
+                  color: '#333',
+                  cursor: 'grab',
+                  pointerEvents: 'auto',
+                  transition: isHovered ? 'none' : 'transform 0.2s',
+                  transform: `rotate(${box.rotation ?? 0}deg) ${isHovered ? 'scale(1.02)' : 'scale(1)'}`,
+                  boxShadow: linkGlow(box)
+                    ? '0 0 0 3px #4ECDC4, 0 8px 32px rgba(0, 0, 0, 0.3)'
+                    : isHovered
+                    ? '0 8px 32px rgba(0, 0, 0, 0.3), 0 0 20px rgba(255, 255, 255, 0.5)'
+                    : '0 4px 12px rgba(0, 0, 0, 0.15)',
+                  userSelect: 'none',
+                  outline: isDismissable ? '3px solid #FF6B6B' : 'none',
+                  // frames and connectors sit at 0
+                  zIndex: noteZ(box) + 1,
+                  opacity: isDragged && overTrash ? 0.5 : 1,
                 }}
               >
-                Hovering
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    padding: '8px 12px',
+                    backgroundColor: 'transparent',
+                    color: '#666',
+                    fontWeight: 'bold',
+                    fontSize: '12px',
+                    cursor: 'grab',
+                    minHeight: '28px',
+                    boxSizing: 'border-box',
+                  }}
+                >
+                  <span>{box.label}</span>
+                  <span onMouseDown={(e) => e.stopPropagation()}>
+                    <HandButton
+                      onClick={() => cycleKind(box.id)}
+                      dwell={false}
+                      title="Change note type"
+                      style={({ hovered }) => ({
+                        padding: '2px 6px',
+                        background: hovered ? 'rgba(0, 0, 0, 0.15)' : 'rgba(0, 0, 0, 0.06)',
+                        border: 'none',
+                        borderRadius: '4px',
+                        color: '#555',
+                        fontSize: '11px',
+                        fontWeight: 'bold',
+                        cursor: 'pointer',
+                      })}
+                    >
+                      {KIND_LABELS[kind]}
+                    </HandButton>
+                  </span>
+                </div>
+
+                {showRendered ? (
+                  <div
+                    onClick={(e) => { if (!(e.target as HTMLElement).closest('button, a')) handleBoxClick(box.id); }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    style={{ flex: 1, display: 'flex', minHeight: 0 }}
+                  >
+                    <NoteContent kind={kind} text={box.text} onToggle={(line) => handleToggleTask(box.id, line)} />
+                  </div>
+                ) : (
+                  <textarea
+                    ref={(el) => { textareaRefs.current[box.id] = el; }}
+                    value={box.text}
+                    onChange={(e) => handleTextChange(box.id, e.target.value)}
+                    onClick={() => handleBoxClick(box.id)}
+                    onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+                    onBlur={() => setEditingBox(prev => (prev === box.id && kind !== 'text' ? null : prev))}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    placeholder={kind === 'checklist' ? 'One item per line, [x] marks it done' : 'Pinch and hold to write...'}
+                    readOnly={editingBox !== box.id}
+                    // rich notes swap the rendered view for this textarea when editing starts
+                    autoFocus={kind !== 'text'}
+                    style={{
+                      flex: 1,
+                      padding: '12px',
+                      border: 'none',
+                      backgroundColor: 'transparent',
+                      resize: 'none',
+                      outline: 'none',
+                      fontFamily: kind === 'text' ? 'Arial, sans-serif' : 'monospace',
+                      fontSize: kind === 'text' ? '20px' : '15px',
+                      color: '#333',
+                      cursor: editingBox === box.id ? 'text' : 'grab',
+                      lineHeight: '1.5',
+                    }}
+                  />
+                )}
+
+                {handles(box)}
+                {heldBadge(box)}
+
+                {(isHovered || isDismissable) && (
+                  <div
+                    style={{
+                      position: 'absolute',
+                      top: '-30px',
+                      left: '50%',
+                      transform: 'translateX(-50%)',
+                      padding: '4px 12px',
+                      backgroundColor: isDismissable ? 'rgba(255, 107, 107, 0.9)' : 'rgba(0, 0, 0, 0.8)',
+                      color: 'white',
+                      borderRadius: '4px',
+                      fontSize: '12px',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {tooltip(box)}
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        );
-      })}
-    </div>
+            );
+          })}
+          <ConnectorLayer
+            boxes={boxes}
+            connectors={connectors}
+            onRemove={(id) => onConnectorsChange(prev => prev.filter(c => c.id !== id))}
+            preview={link && linkEnd ? { from: link.from, to: linkEnd } : null}
+          />
+          {guides.map(guide => (
+            <div
+              key={`${guide.axis}-${guide.position}`}
+              style={{
+                position: 'absolute',
+                left: `${guide.axis === 'x' ? guide.position : guide.from}px`,
+                top: `${guide.axis === 'y' ? guide.position : guide.from}px`,
+                width: guide.axis === 'x' ? `${1 / camera.zoom}px` : `${guide.to - guide.from}px`,
+                height: guide.axis === 'y' ? `${1 / camera.zoom}px` : `${guide.to - guide.from}px`,
+                background: '#ff4fa3',
+                pointerEvents: 'none',
+                zIndex: nextZ(boxes),
+              }}
+            />
+          ))}
+        </div>
+      </div>
+      {keyboardBox && (
+        <AirKeyboard
+          ref={keyboardRef}
+          prefix={/[\w']*$/.exec(keyboardBox.text.slice(0, keyboardCaret))?.[0] ?? ''}
+          vocabulary={vocabulary}
+          onInsert={(text) => editAtCaret((before, _selected, after) => [before + text, after])}
+          onBackspace={() => editAtCaret((before, selected, after) => [selected ? before : before.slice(0, -1), after])}
+          onReplaceWord={(word) => editAtCaret((before, _selected, after) => [before.replace(/[\w']*\s?$/, '') + word + ' ', after])}
+          onClose={closeKeyboard}
+        />
+      )}
+    </>
   );
 }
@@ -0,0 +1,57 @@
+import HandButton from '../handInput/HandButton';
+import HandToggle from '../handInput/HandToggle';
+import type { HandTargetState } from '../handInput/useHandTarget';
+
+export type ArrangeMode = 'grid' | 'color';
+
+interface LayoutControlsProps {
+  snapToGrid: boolean;
+  onSnapToGridChange: (snap: boolean) => void;
+  onArrange: (mode: ArrangeMode) => void;
+  onAddFrame: () => void;
+}
+
+const buttonStyle = ({ hovered }: HandTargetState): React.CSSProperties => ({
+  flex: 1,
+  padding: '6px 8px',
+  background: hovered ? 'rgba(255, 255, 255, 0.3)' : 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e0e0e0',
+  fontSize: '12px',
+  fontWeight: 'bold',
+  cursor: 'pointer',
+});
+
+// sits under the note buttons
+export default function LayoutControls({ snapToGrid, onSnapToGridChange, onArrange, onAddFrame }: LayoutControlsProps) {
+  return (
+    <div
+      data-hand-panel
+      style={{
+        position: 'fixed',
+        left: '50px',
+        top: '550px',
+        width: '160px',
+        boxSizing: 'border-box',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '8px',
+        background: 'rgba(26, 26, 46, 0.8)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '8px',
+        backdropFilter: 'blur(10px)',
+        userSelect: 'none',
+        zIndex: 900,
+      }}
+    >
+      <HandToggle checked={snapToGrid} onChange={onSnapToGridChange}>Snap to grid</HandToggle>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <HandButton onClick={() => onArrange('grid')} title="Lay every note out in a grid" style={buttonStyle}>Tidy</HandButton>
+        <HandButton onClick={() => onArrange('color')} title="One row per note color" style={buttonStyle}>By color</HandButton>
+      </div>
+      <HandButton onClick={onAddFrame} title="Notes inside a frame move with it" style={buttonStyle}>Add frame</HandButton>
+    </div>
+  );
+}
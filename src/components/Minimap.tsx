@@ -0,0 +1,164 @@
+import type { PointerEvent } from 'react';
+import useHandTarget from '../handInput/useHandTarget';
+import HandButton from '../handInput/HandButton';
+import type { HandTargetState } from '../handInput/useHandTarget';
+import { boardBounds } from '../utils/boardExport';
+import { isFrame } from '../utils/notes';
+import { centerOn, fitBounds, visibleRect, zoomAt, type Camera } from '../utils/camera';
+import type { Rect } from '../utils/geometry';
+import type { DraggableBox } from './InteractiveElements';
+import type { DrawStroke } from './DrawingCanvas';
+
+interface MinimapProps {
+  boxes: DraggableBox[];
+  strokes: DrawStroke[];
+  camera: Camera;
+  onCameraChange: (camera: Camera) => void;
+}
+
+const MAP_WIDTH = 200;
+const MAP_HEIGHT = 140;
+const ZOOM_STEP = 1.25;
+
+const union = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+const buttonStyle = ({ hovered }: HandTargetState): React.CSSProperties => ({
+  flex: 1,
+  padding: '4px 8px',
+  background: hovered ? 'rgba(255, 255, 255, 0.3)' : 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e0e0e0',
+  fontSize: '12px',
+  fontWeight: 'bold',
+  cursor: 'pointer',
+});
+
+// Overview of the whole board with the visible area outlined; pinch or click it to jump there
+export default function Minimap({ boxes, strokes, camera, onCameraChange }: MinimapProps) {
+  const viewport = { width: window.innerWidth, height: window.innerHeight };
+  const content = boardBounds({ boxes, strokes });
+  const view = visibleRect(camera, viewport);
+  const world = union(content, view);
+  const scale = Math.min(MAP_WIDTH / world.width, MAP_HEIGHT / world.height);
+  // centers the world in the map when its aspect ratio doesn't match
+  const offsetX = (MAP_WIDTH - world.width * scale) / 2;
+  const offsetY = (MAP_HEIGHT - world.height * scale) / 2;
+  const toMap = (x: number, y: number) => ({ x: (x - world.x) * scale + offsetX, y: (y - world.y) * scale + offsetY });
+
+  const jumpTo = (x: number, y: number, rect: DOMRect) => {
+    const target = {
+      x: (x - rect.left - offsetX) / scale + world.x,
+      y: (y - rect.top - offsetY) / scale + world.y,
+    };
+    onCameraChange(centerOn(camera, target, viewport));
+  };
+
+  const { ref, state } = useHandTarget<HTMLDivElement>({
+    dwell: false,
+    onPress: (cursor, rect) => jumpTo(cursor.x, cursor.y, rect),
+    onDrag: (cursor, rect) => jumpTo(cursor.x, cursor.y, rect),
+  });
+
+  const handlePointer = (e: PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    jumpTo(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect());
+  };
+
+  const center = { x: viewport.width / 2, y: viewport.height / 2 };
+  const viewTopLeft = toMap(view.x, view.y);
+
+  return (
+    <div
+      data-hand-panel
+      style={{
+        position: 'fixed',
+        right: '20px',
+        bottom: '20px',
+        zIndex: 1001,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '8px',
+        background: 'rgba(26, 26, 46, 0.8)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '8px',
+        backdropFilter: 'blur(10px)',
+        userSelect: 'none',
+      }}
+    >
+      <div
+        ref={ref}
+        onPointerDown={handlePointer}
+        onPointerMove={handlePointer}
+        style={{
+          width: `${MAP_WIDTH}px`,
+          height: `${MAP_HEIGHT}px`,
+          borderRadius: '4px',
+          background: '#0f172a',
+          outline: state.hovered ? '2px solid rgba(255, 255, 255, 0.6)' : 'none',
+          cursor: 'pointer',
+          touchAction: 'none',
+        }}
+      >
+        <svg width={MAP_WIDTH} height={MAP_HEIGHT} style={{ display: 'block', pointerEvents: 'none' }}>
+          {strokes.map((stroke, i) => (
+            <polyline
+              key={i}
+              points={stroke.points.map(p => { const m = toMap(p.x, p.y); return `${m.x},${m.y}`; }).join(' ')}
+              fill="none"
+              stroke={stroke.color}
+              strokeWidth={Math.max(1, stroke.size * scale)}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          ))}
+          {boxes.map(box => {
+            const m = toMap(box.x, box.y);
+            return (
+              <rect
+                key={box.id}
+                x={m.x}
+                y={m.y}
+                width={Math.max(2, box.width * scale)}
+                height={Math.max(2, box.height * scale)}
+                fill={box.color}
+                fillOpacity={isFrame(box) ? 0.3 : 1}
+                transform={box.rotation ? `rotate(${box.rotation} ${m.x + (box.width * scale) / 2} ${m.y + (box.height * scale) / 2})` : undefined}
+              />
+            );
+          })}
+          <rect
+            x={viewTopLeft.x}
+            y={viewTopLeft.y}
+            width={view.width * scale}
+            height={view.height * scale}
+            fill="rgba(255, 255, 255, 0.08)"
+            stroke="white"
+            strokeWidth={1.5}
+          />
+        </svg>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <HandButton onClick={() => onCameraChange(zoomAt(camera, center, 1 / ZOOM_STEP))} title="Zoom out" style={buttonStyle}>−</HandButton>
+        <span style={{ minWidth: '44px', textAlign: 'center', color: '#e0e0e0', fontSize: '12px' }}>
+          {Math.round(camera.zoom * 100)}%
+        </span>
+        <HandButton onClick={() => onCameraChange(zoomAt(camera, center, ZOOM_STEP))} title="Zoom in" style={buttonStyle}>+</HandButton>
+        <HandButton onClick={() => onCameraChange(fitBounds(content, viewport))} title="Show the whole board" style={buttonStyle}>
+          Fit All
+        </HandButton>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import type { CSSProperties, ReactNode } from 'react';
+import HandButton from '../handInput/HandButton';
+import { parseChecklist, parseMarkdown, type MdInline } from '../utils/markdown';
+import type { NoteKind } from './InteractiveElements';
+
+interface NoteContentProps {
+  kind: Exclude<NoteKind, 'text'>;
+  text: string;
+  onToggle: (line: number) => void;
+}
+
+const containerStyle: CSSProperties = {
+  flex: 1,
+  padding: '4px 12px 12px',
+  overflow: 'hidden',
+  fontFamily: 'Arial, sans-serif',
+  fontSize: '16px',
+  lineHeight: '1.4',
+  color: '#333',
+};
+
+function renderInline(nodes: MdInline[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'bold':
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'italic':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={i} style={{ background: 'rgba(0, 0, 0, 0.08)', padding: '0 3px', borderRadius: '3px' }}>{node.text}</code>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" onMouseDown={e => e.stopPropagation()}>
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+// a pinch on the box ticks it; no dwell, resting on a note shouldn't tick things
+function TaskBox({ done, line, onToggle, children }: { done: boolean; line: number; onToggle: (line: number) => void; children: ReactNode }) {
+  return (
+    <HandButton
+      onClick={() => onToggle(line)}
+      dwell={false}
+      style={({ hovered }) => ({
+        display: 'flex',
+        alignItems: 'flex-start',
+        gap: '6px',
+        width: '100%',
+        padding: '2px 4px',
+        background: hovered ? 'rgba(0, 0, 0, 0.08)' : 'transparent',
+        border: 'none',
+        borderRadius: '4px',
+        font: 'inherit',
+        color: 'inherit',
+        textAlign: 'left',
+        cursor: 'pointer',
+      })}
+    >
+      <span style={{ flexShrink: 0 }}>{done ? '☑' : '☐'}</span>
+      <span style={{ textDecoration: done ? 'line-through' : 'none', opacity: done ? 0.6 : 1 }}>{children}</span>
+    </HandButton>
+  );
+}
+
+// Read-only view of a markdown or checklist note, the raw text is edited in the textarea
+export default function NoteContent({ kind, text, onToggle }: NoteContentProps) {
+  if (kind === 'checklist') {
+    const items = parseChecklist(text);
+    return (
+      <div style={containerStyle}>
+        {items.length === 0 && <span style={{ color: '#999' }}>Pinch and hold to add items...</span>}
+        {items.map(item => (
+          <TaskBox key={item.line} done={item.done} line={item.line} onToggle={onToggle}>
+            {item.text}
+          </TaskBox>
+        ))}
+      </div>
+    );
+  }
+
+  const blocks = parseMarkdown(text);
+  return (
+    <div style={containerStyle}>
+      {blocks.length === 0 && <span style={{ color: '#999' }}>Pinch and hold to write markdown...</span>}
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'heading': {
+            const size = { 1: '22px', 2: '19px', 3: '17px' }[block.level];
+            return <div key={i} style={{ fontSize: size, fontWeight: 'bold', margin: '4px 0' }}>{renderInline(block.content)}</div>;
+          }
+          case 'paragraph':
+            return <p key={i} style={{ margin: '4px 0' }}>{renderInline(block.content)}</p>;
+          case 'code':
+            return (
+              <pre key={i} style={{ margin: '4px 0', padding: '6px', background: 'rgba(0, 0, 0, 0.08)', borderRadius: '4px', fontSize: '13px', whiteSpace: 'pre-wrap' }}>
+                {block.text}
+              </pre>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={i} style={{ margin: '4px 0', paddingLeft: '20px' }}>
+                {block.items.map(item => (
+                  <li key={item.line} style={{ listStyle: item.done === undefined ? undefined : 'none', marginLeft: item.done === undefined ? 0 : '-20px' }}>
+                    {item.done === undefined
+                      ? renderInline(item.content)
+                      : <TaskBox done={item.done} line={item.line} onToggle={onToggle}>{renderInline(item.content)}</TaskBox>}
+                  </li>
+                ))}
+              </List>
+            );
+          }
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useRef, useState } from 'react';
+import type { HandData } from '../hooks/useHandTracking';
+import useLandmarkRecorder from '../hooks/useLandmarkRecorder';
+import { parseRecording, serializeRecording, type HandRecording } from '../utils/landmarkRecording';
+import { downloadText, fileTimestamp } from '../utils/download';
+
+interface RecordingControlsProps {
+  hands: HandData[];
+  replay: HandRecording | null;
+  onReplayChange: (recording: HandRecording | null) => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  background: 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e0e0e0',
+  fontSize: '13px',
+  cursor: 'pointer',
+};
+
+export default function RecordingControls({ hands, replay, onReplayChange }: RecordingControlsProps) {
+  const { isRecording, start, stop } = useLandmarkRecorder(hands);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleStop = () => {
+    const recording = stop();
+    if (recording.frames.length === 0) return;
+    downloadText(`hands-${fileTimestamp()}.jsonl`, serializeRecording(recording), 'application/x-ndjson');
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const recording = parseRecording(await file.text());
+      setError(null);
+      onReplayChange(recording);
+    } catch (err) {
+      console.error('Failed to load recording:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load recording');
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '10px 16px',
+        background: 'rgba(26, 26, 46, 0.8)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '8px',
+        color: '#e0e0e0',
+        fontSize: '14px',
+        backdropFilter: 'blur(10px)',
+        userSelect: 'none',
+      }}
+    >
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        {isRecording ? (
+          <button style={{ ...buttonStyle, background: '#ff4444', color: 'white' }} onClick={handleStop}>
+            Stop &amp; Save
+          </button>
+        ) : (
+          <button style={buttonStyle} onClick={start} disabled={replay !== null}>
+            Record
+          </button>
+        )}
+
+        {replay ? (
+          <button style={buttonStyle} onClick={() => onReplayChange(null)}>
+            Stop Replay
+          </button>
+        ) : (
+          <button style={buttonStyle} onClick={() => fileInputRef.current?.click()} disabled={isRecording}>
+            Replay...
+          </button>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".jsonl,.ndjson,application/x-ndjson"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {isRecording && <span style={{ color: '#ff6b6b', fontSize: '12px' }}>Recording landmarks...</span>}
+      {replay && (
+        <span style={{ color: '#4ecdc4', fontSize: '12px' }}>
+          Replaying {replay.frames.length} frames ({(replay.duration / 1000).toFixed(1)}s)
+        </span>
+      )}
+      {error && <span style={{ color: '#ff4444', fontSize: '12px' }}>{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { worldToScreen, type Camera } from '../utils/camera';
+import type { Peer, Presence } from '../collab/protocol';
+import { CursorDot } from './VirtualCursor';
+
+export interface RemoteCursor {
+  peer: Peer;
+  cursor: Presence;
+}
+
+interface RemoteCursorsProps {
+  cursors: RemoteCursor[];
+  camera: Camera;
+}
+
+// Collaborators' hands, placed by world position so they point at the same notes on every screen
+export default function RemoteCursors({ cursors, camera }: RemoteCursorsProps) {
+  return (
+    <>
+      {cursors.map(({ peer, cursor }) => {
+        const at = worldToScreen(camera, cursor);
+        return (
+          <CursorDot
+            key={peer.id}
+            x={at.x}
+            y={at.y}
+            isPinching={cursor.isPinching}
+            isFist={cursor.isFist}
+            opacity={0.85}
+            label={peer.name}
+            color={peer.color}
+          />
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,181 @@
+import type { HandData } from '../hooks/useHandTracking';
+import BindingsEditor from './BindingsEditor';
+import { REFERENCE_HAND_SCALE, handScale } from '../utils/gestureEngine';
+import { SMOOTHING_PRESETS, type SmoothingPresetName } from '../utils/smoothing';
+import { DEFAULT_PROFILE } from '../utils/profileStorage';
+import type { BindingSet } from '../utils/bindings';
+import {
+  SENSITIVITY_MAX,
+  SENSITIVITY_MIN,
+  type DominantHand,
+  type UserSettings,
+} from '../utils/userSettings';
+
+interface SettingsPanelProps {
+  hands: HandData[];
+  profile: string;
+  profiles: string[];
+  settings: UserSettings;
+  onSettingsChange: (settings: UserSettings) => void;
+  bindings: BindingSet;
+  onBindingsChange: (bindings: BindingSet) => void;
+  onSwitchProfile: (profile: string) => void;
+  onCreateProfile: (name: string) => void;
+  onDeleteProfile: (profile: string) => void;
+  onClose: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  background: 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e0e0e0',
+  fontSize: '12px',
+  cursor: 'pointer',
+};
+
+const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px' };
+const labelStyle: React.CSSProperties = { width: '110px', flexShrink: 0 };
+
+// Who is in front of the camera, and how their hands should be read
+export default function SettingsPanel({
+  hands,
+  profile,
+  profiles,
+  settings,
+  onSettingsChange,
+  bindings,
+  onBindingsChange,
+  onSwitchProfile,
+  onCreateProfile,
+  onDeleteProfile,
+  onClose,
+}: SettingsPanelProps) {
+  const update = (patch: Partial<UserSettings>) => onSettingsChange({ ...settings, ...patch });
+
+  const handleNew = () => {
+    const name = window.prompt('Name for the new profile');
+    if (name?.trim()) onCreateProfile(name.trim());
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the "${profile}" profile with its calibration and gestures?`)) onDeleteProfile(profile);
+  };
+
+  // relative to the hand size the thresholds were tuned at
+  const size = hands[0] ? handScale(hands[0]) / REFERENCE_HAND_SCALE : null;
+
+  return (
+    <div
+      data-hand-panel
+      style={{
+        position: 'fixed',
+        top: '70px',
+        left: '20px',
+        width: '320px',
+        maxHeight: 'calc(100vh - 90px)',
+        overflowY: 'auto',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '10px',
+        padding: '12px 16px',
+        background: 'rgba(26, 26, 46, 0.9)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '8px',
+        color: '#e0e0e0',
+        fontSize: '14px',
+        zIndex: 10001,
+        backdropFilter: 'blur(10px)',
+        userSelect: 'none',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span style={{ fontWeight: 'bold' }}>Hand settings</span>
+        <button style={buttonStyle} onClick={onClose}>Close</button>
+      </div>
+
+      <div style={rowStyle}>
+        <span style={labelStyle}>Profile</span>
+        <select style={{ flex: 1, minWidth: 0 }} value={profile} onChange={(e) => onSwitchProfile(e.target.value)}>
+          {profiles.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <button style={buttonStyle} onClick={handleNew}>New</button>
+        <button
+          style={{ ...buttonStyle, opacity: profile === DEFAULT_PROFILE ? 0.5 : 1 }}
+          onClick={handleDelete}
+          disabled={profile === DEFAULT_PROFILE}
+        >
+          Delete
+        </button>
+      </div>
+
+      <label style={rowStyle}>
+        <span style={labelStyle}>Dominant hand</span>
+        <select
+          style={{ flex: 1 }}
+          value={settings.dominantHand ?? ''}
+          onChange={(e) => update({ dominantHand: (e.target.value || null) as DominantHand | null })}
+        >
+          <option value="">Whichever comes first</option>
+          <option value="Left">Left</option>
+          <option value="Right">Right</option>
+        </select>
+      </label>
+
+      <label style={rowStyle}>
+        <span style={labelStyle}>Smoothing</span>
+        <select
+          style={{ flex: 1 }}
+          value={settings.smoothing}
+          onChange={(e) => update({ smoothing: e.target.value as SmoothingPresetName })}
+        >
+          {Object.keys(SMOOTHING_PRESETS).map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      </label>
+
+      <label style={rowStyle} title="Higher catches lighter pinches, lower needs the fingers to really touch">
+        <span style={labelStyle}>Pinch sensitivity</span>
+        <input
+          type="range"
+          style={{ flex: 1 }}
+          min={SENSITIVITY_MIN}
+          max={SENSITIVITY_MAX}
+          step={0.05}
+          value={settings.pinchSensitivity}
+          onChange={(e) => update({ pinchSensitivity: Number(e.target.value) })}
+        />
+        <span style={{ width: '36px', textAlign: 'right' }}>{settings.pinchSensitivity.toFixed(2)}</span>
+      </label>
+
+      <label style={rowStyle} title="Higher catches a loose fist, lower needs the fingers fully curled">
+        <span style={labelStyle}>Fist sensitivity</span>
+        <input
+          type="range"
+          style={{ flex: 1 }}
+          min={SENSITIVITY_MIN}
+          max={SENSITIVITY_MAX}
+          step={0.05}
+          value={settings.fistSensitivity}
+          onChange={(e) => update({ fistSensitivity: Number(e.target.value) })}
+        />
+        <span style={{ width: '36px', textAlign: 'right' }}>{settings.fistSensitivity.toFixed(2)}</span>
+      </label>
+
+      <label style={rowStyle} title="Keep cursor reach the same when sitting closer to or further from the camera">
+        <input
+          type="checkbox"
+          checked={settings.normalizeReach}
+          onChange={(e) => update({ normalizeReach: e.target.checked })}
+        />
+        Adjust reach to hand size
+      </label>
+
+      <span style={{ color: '#888', fontSize: '12px' }}>
+        {size === null ? 'Show a hand to see its size' : `Hand size: ${size.toFixed(2)}x the reference`}
+      </span>
+
+      <BindingsEditor bindings={bindings} onChange={onBindingsChange} />
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
 import { useEffect, useState, useRef } from 'react';
 import type { HandData } from '../hooks/useHandTracking';
-import { detectPinchGesture } from '../utils/gestureDetection';
+import { DEFAULT_POINTER_POSES, toGestureState, type PointerPoses } from '../utils/gestureDetection';
+import { GestureRecognizer, handScale, type GestureDefinition } from '../utils/gestureEngine';
+import { DEFAULT_GESTURES, pinchDistanceOf } from '../utils/gestureDefinitions';
+import { SmoothingPipeline, SMOOTHING_PRESETS, type SmoothingStage } from '../utils/smoothing';
+import { landmarkToScreen, type Calibration } from '../utils/calibration';
+import type { DominantHand } from '../utils/userSettings';
 
-const SMOOTHING = 0.3;
-const BUFFER_SIZE = 3;
 const FINGER_TIP = 8;
+const WRIST = 0;
+const MIDDLE_MCP = 9;
+// gestures are ignored right after a hand shows up, entry frames are noisy
 const COOLDOWN = 150;
+// hand size follows leaning in and out, not frame-to-frame landmark noise
+const SCALE_SMOOTHING = 0.1;
 
 const CURSOR_SIZES: Record<string, number> = {
   normal: 24,
@@ -19,100 +27,60 @@ const INNER_DOT_SIZES: Record<string, number> = {
   fist: 16,
 };
 
-interface VirtualCursorProps {
-  hands: HandData[];
-  onPosChange?: (pos: { x: number; y: number }, visible: boolean) => void;
-  onPinch?: (val: boolean) => void;
-  onFist?: (val: boolean) => void;
+export interface HandCursor {
+  id: number;
+  handedness: 'Left' | 'Right';
+  x: number;
+  y: number;
+  isPinching: boolean;
+  pinchStrength: number;
+  isFist: boolean;
+  gesture: string | null;
+  // wrist rotation in radians: 0 with the fingers pointing up, positive turning clockwise on screen
+  roll: number;
+  // the hand that has been in view the longest; it drives the single-cursor UI
+  isPrimary: boolean;
 }
 
-export default function VirtualCursor({ hands, onPosChange, onPinch, onFist }: VirtualCursorProps) {
-  const [cursorPos, setCursorPos] = useState({ x: 0, y: 0 });
-  const [isVisible, setIsVisible] = useState(false);
-  const [isPinching, setIsPinching] = useState(false);
-  const [isFist, setIsFist] = useState(false);
-  const buffer = useRef<{ x: number; y: number }[]>([]);
-  const lastSeen = useRef<number>(0);
-  const gesturesOn = useRef<boolean>(true);
-
-  useEffect(() => {
-    if (hands.length === 0) {
-      const now = performance.now();
-      const elapsed = now - lastSeen.current;
-      
-      if (lastSeen.current > 0 && elapsed < COOLDOWN) {
-        gesturesOn.current = false;
-        setTimeout(() => {
-          gesturesOn.current = true;
-        }, COOLDOWN);
-      }
-      
-      setIsVisible(false);
-      setIsPinching(false);
-      setIsFist(false);
-      buffer.current = [];
-      onPosChange?.({ x: 0, y: 0 }, false);
-      onPinch?.(false);
-      onFist?.(false);
-      return;
-    }
-
-    lastSeen.current = performance.now();
-    const hand = hands[0];
-    const tip = hand.landmarks[FINGER_TIP];
-
-    const rawX = (1 - tip.x) * window.innerWidth;
-    const rawY = tip.y * window.innerHeight;
-
-    buffer.current.push({ x: rawX, y: rawY });
-    if (buffer.current.length > BUFFER_SIZE) {
-      buffer.current.shift();
-    }
-
-    const avgX = buffer.current.reduce((sum, p) => sum + p.x, 0) / buffer.current.length;
-    const avgY = buffer.current.reduce((sum, p) => sum + p.y, 0) / buffer.current.length;
-
-    const smoothX = cursorPos.x + (avgX - cursorPos.x) * SMOOTHING;
-    const smoothY = cursorPos.y + (avgY - cursorPos.y) * SMOOTHING;
-
-    setCursorPos({ x: smoothX, y: smoothY });
-    setIsVisible(true);
-    onPosChange?.({ x: smoothX, y: smoothY }, true);
-
-    if (gesturesOn.current) {
-      const gesture = detectPinchGesture(hand);
-      setIsPinching(gesture.isPinching);
-      setIsFist(gesture.isFist);
-      onPinch?.(gesture.isPinching);
-      onFist?.(gesture.isFist);
-    } else {
-      setIsPinching(false);
-      setIsFist(false);
-      onPinch?.(false);
-      onFist?.(false);
-    }
-  }, [hands, onPosChange, onPinch, onFist]);
+interface HandTrack {
+  filter: SmoothingPipeline;
+  pos: { x: number; y: number };
+  recognizer: GestureRecognizer;
+  firstSeen: number;
+  scale: number;
+}
 
-  if (!isVisible) return null;
+interface CursorDotProps {
+  x: number;
+  y: number;
+  isPinching: boolean;
+  isFist: boolean;
+  opacity?: number;
+  label?: string;
+  // rims the dot and tints the label, e.g. a collaborator's color
+  color?: string;
+}
 
+// The on-screen hand cursor; also used to show where collaborators are pointing
+export function CursorDot({ x, y, isPinching, isFist, opacity = 1, label, color }: CursorDotProps) {
   const cursorSize = isFist ? CURSOR_SIZES.fist : isPinching ? CURSOR_SIZES.pinch : CURSOR_SIZES.normal;
   const innerDotSize = isFist ? INNER_DOT_SIZES.fist : isPinching ? INNER_DOT_SIZES.pinch : INNER_DOT_SIZES.normal;
 
-  const cursorColor = isFist 
-    ? 'rgba(255, 165, 0, 0.8)' 
-    : isPinching 
-    ? 'rgba(255, 100, 255, 0.8)' 
+  const cursorColor = isFist
+    ? 'rgba(255, 165, 0, 0.8)'
+    : isPinching
+    ? 'rgba(255, 100, 255, 0.8)'
     : 'rgba(0, 255, 255, 0.7)';
 
-  const borderColor = isFist 
-    ? 'rgba(255, 200, 100, 0.9)' 
-    : isPinching 
-    ? 'rgba(255, 200, 255, 0.9)' 
-    : 'rgba(255, 255, 255, 0.9)';
+  const borderColor = color ?? (isFist
+    ? 'rgba(255, 200, 100, 0.9)'
+    : isPinching
+    ? 'rgba(255, 200, 255, 0.9)'
+    : 'rgba(255, 255, 255, 0.9)');
 
   const glowEffect = isFist
     ? '0 0 30px rgba(255, 165, 0, 1), 0 0 60px rgba(255, 165, 0, 0.5)'
-    : isPinching 
+    : isPinching
     ? '0 0 30px rgba(255, 100, 255, 1), 0 0 60px rgba(255, 100, 255, 0.5)'
     : '0 0 20px rgba(0, 255, 255, 0.8)';
 
@@ -121,8 +89,8 @@ export default function VirtualCursor({ hands, onPosChange, onPinch, onFist }: V
       className="virtual-cursor"
       style={{
         position: 'fixed',
-        left: `${cursorPos.x}px`,
-        top: `${cursorPos.y}px`,
+        left: `${x}px`,
+        top: `${y}px`,
         width: `${cursorSize}px`,
         height: `${cursorSize}px`,
         borderRadius: '50%',
@@ -132,6 +100,7 @@ export default function VirtualCursor({ hands, onPosChange, onPinch, onFist }: V
         pointerEvents: 'none',
         zIndex: 99999,
         boxShadow: glowEffect,
+        opacity,
         transition: 'width 0.1s ease-out, height 0.1s ease-out, background-color 0.1s ease-out',
       }}
     >
@@ -147,6 +116,158 @@ export default function VirtualCursor({ hands, onPosChange, onPinch, onFist }: V
           backgroundColor: 'white',
         }}
       />
+      {label && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '100%',
+            left: '50%',
+            transform: 'translate(-50%, 6px)',
+            fontSize: '10px',
+            fontWeight: 'bold',
+            color: color ?? 'white',
+            textShadow: '0 0 4px black',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {label}
+        </div>
+      )}
     </div>
   );
 }
+
+interface VirtualCursorProps {
+  hands: HandData[];
+  onPosChange?: (pos: { x: number; y: number }, visible: boolean) => void;
+  onPinch?: (val: boolean) => void;
+  onFist?: (val: boolean) => void;
+  onGesture?: (gesture: string | null) => void;
+  onCursorsChange?: (cursors: HandCursor[]) => void;
+  smoothing?: SmoothingStage[];
+  calibration?: Calibration | null;
+  gestures?: GestureDefinition[];
+  // this hand drives the single-cursor UI whenever it's in view
+  dominantHand?: DominantHand | null;
+  normalizeReach?: boolean;
+  // which poses click and grab, pinch and fist unless rebound
+  pointerPoses?: PointerPoses;
+}
+
+export default function VirtualCursor({
+  hands,
+  onPosChange,
+  onPinch,
+  onFist,
+  onGesture,
+  onCursorsChange,
+  smoothing = SMOOTHING_PRESETS.balanced,
+  calibration = null,
+  gestures = DEFAULT_GESTURES,
+  dominantHand = null,
+  normalizeReach = false,
+  pointerPoses = DEFAULT_POINTER_POSES,
+}: VirtualCursorProps) {
+  const [cursors, setCursors] = useState<HandCursor[]>([]);
+  const tracks = useRef(new Map<number, HandTrack>());
+  const primaryId = useRef<number | null>(null);
+
+  useEffect(() => {
+    tracks.current.forEach(track => { track.filter = new SmoothingPipeline(smoothing); });
+  }, [smoothing]);
+
+  useEffect(() => {
+    tracks.current.forEach(track => track.recognizer.setDefinitions(gestures));
+  }, [gestures]);
+
+  useEffect(() => {
+    const now = performance.now();
+    const seen = new Set<number>();
+    const pinchDistance = pinchDistanceOf(gestures);
+
+    const next: HandCursor[] = hands.map((hand, index) => {
+      const id = hand.id ?? index;
+      seen.add(id);
+      let track = tracks.current.get(id);
+      const scale = track ? track.scale + (handScale(hand) - track.scale) * SCALE_SMOOTHING : handScale(hand);
+      const { x: rawX, y: rawY } = landmarkToScreen(calibration, hand.landmarks[FINGER_TIP], normalizeReach ? scale : null);
+      const wrist = landmarkToScreen(calibration, hand.landmarks[WRIST]);
+      const knuckle = landmarkToScreen(calibration, hand.landmarks[MIDDLE_MCP]);
+      const roll = Math.atan2(knuckle.x - wrist.x, wrist.y - knuckle.y);
+
+      if (!track) {
+        track = {
+          filter: new SmoothingPipeline(smoothing),
+          pos: { x: rawX, y: rawY },
+          recognizer: new GestureRecognizer(gestures),
+          firstSeen: now,
+          scale,
+        };
+        tracks.current.set(id, track);
+      }
+      track.scale = scale;
+
+      track.pos = track.filter.filter({ x: rawX, y: rawY }, now);
+
+      const gesturesOn = now - track.firstSeen >= COOLDOWN;
+      const gesture = gesturesOn ? toGestureState(hand, track.recognizer.update(hand), pinchDistance, pointerPoses) : null;
+
+      return {
+        id,
+        handedness: hand.handedness,
+        x: track.pos.x,
+        y: track.pos.y,
+        isPinching: gesture?.isPinching ?? false,
+        pinchStrength: gesture?.pinchStrength ?? 0,
+        isFist: gesture?.isFist ?? false,
+        gesture: gesture?.gesture ?? null,
+        roll,
+        isPrimary: false,
+      };
+    });
+
+    tracks.current.forEach((_, id) => {
+      if (!seen.has(id)) tracks.current.delete(id);
+    });
+
+    const oldest = (candidates: HandCursor[]) => candidates
+      .map(c => ({ id: c.id, firstSeen: tracks.current.get(c.id)!.firstSeen }))
+      .sort((a, b) => a.firstSeen - b.firstSeen)[0]?.id ?? null;
+    const current = next.find(c => c.id === primaryId.current);
+    const dominant = dominantHand ? next.filter(c => c.handedness === dominantHand) : [];
+
+    // the dominant hand takes over as soon as it shows up; otherwise keep the current
+    // primary while it's visible and fall back to the oldest hand
+    if (dominant.length > 0 && current?.handedness !== dominantHand) {
+      primaryId.current = oldest(dominant);
+    } else if (!current) {
+      primaryId.current = oldest(next);
+    }
+    next.forEach(c => { c.isPrimary = c.id === primaryId.current; });
+
+    setCursors(next);
+    onCursorsChange?.(next);
+
+    const primary = next.find(c => c.isPrimary);
+    onPosChange?.(primary ? { x: primary.x, y: primary.y } : { x: 0, y: 0 }, !!primary);
+    onPinch?.(primary?.isPinching ?? false);
+    onFist?.(primary?.isFist ?? false);
+    onGesture?.(primary?.gesture ?? null);
+  }, [hands, onPosChange, onPinch, onFist, onGesture, onCursorsChange, smoothing, calibration, gestures, dominantHand, normalizeReach, pointerPoses]);
+
+  return (
+    <>
+      {cursors.map(cursor => (
+        <CursorDot
+          key={cursor.id}
+          x={cursor.x}
+          y={cursor.y}
+          isPinching={cursor.isPinching}
+          isFist={cursor.isFist}
+          opacity={cursor.isPrimary ? 1 : 0.75}
+          label={cursors.length > 1 ? cursor.handedness[0] : undefined}
+        />
+      ))}
+    </>
+  );
+}
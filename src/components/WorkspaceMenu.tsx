@@ -0,0 +1,149 @@
+import { useRef, useState } from 'react';
+import type { SaveStatus } from '../hooks/useWorkspace';
+import type { Workspace, WorkspaceSummary } from '../utils/workspaceStore';
+import { boardToPng, boardToSvg, parseBoard, serializeBoard, type BoardDocument } from '../utils/boardExport';
+import { downloadBlob, downloadText, fileTimestamp } from '../utils/download';
+
+interface WorkspaceMenuProps {
+  workspace: Workspace;
+  summaries: WorkspaceSummary[];
+  saveStatus: SaveStatus;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (board: BoardDocument) => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  background: 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '6px',
+  color: '#e0e0e0',
+  fontSize: '13px',
+  cursor: 'pointer',
+};
+
+const STATUS_LABELS: Record<SaveStatus, { text: string; color: string }> = {
+  saved: { text: 'All changes saved', color: '#4ecdc4' },
+  pending: { text: 'Saving...', color: '#888' },
+  error: { text: 'Could not save, storage may be full', color: '#ff4444' },
+};
+
+export default function WorkspaceMenu({
+  workspace,
+  summaries,
+  saveStatus,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+  onImport,
+}: WorkspaceMenuProps) {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { id: currentId, name: currentName } = workspace;
+
+  const handleCreate = () => {
+    const name = window.prompt('Name for the new workspace', `Board ${summaries.length + 1}`);
+    if (name?.trim()) onCreate(name.trim());
+  };
+
+  const handleRename = () => {
+    const name = window.prompt('Rename workspace', currentName);
+    if (name?.trim()) onRename(name.trim());
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${currentName}"? Its notes and drawings will be lost.`)) {
+      onDelete(currentId);
+    }
+  };
+
+  const handleExport = async (format: 'json' | 'svg' | 'png') => {
+    const baseName = `${currentName.replace(/[^\w-]+/g, '-')}-${fileTimestamp()}`;
+    try {
+      if (format === 'json') {
+        downloadText(`${baseName}.json`, serializeBoard(workspace), 'application/json');
+      } else if (format === 'svg') {
+        downloadText(`${baseName}.svg`, boardToSvg(workspace), 'image/svg+xml');
+      } else {
+        downloadBlob(`${baseName}.png`, await boardToPng(workspace));
+      }
+      setError(null);
+    } catch (err) {
+      console.error(`Failed to export ${format}:`, err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const board = parseBoard(await file.text());
+      onImport(board);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to import board:', err);
+      setError(`Import failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  const status = STATUS_LABELS[saveStatus];
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '10px 16px',
+        background: 'rgba(26, 26, 46, 0.8)',
+        border: '1px solid rgba(255, 255, 255, 0.2)',
+        borderRadius: '8px',
+        color: '#e0e0e0',
+        fontSize: '14px',
+        backdropFilter: 'blur(10px)',
+        userSelect: 'none',
+      }}
+    >
+      <label style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        Workspace
+        <select value={currentId} onChange={(e) => onSwitch(e.target.value)} style={{ flex: 1, minWidth: 0 }}>
+          {summaries.map(summary => (
+            <option key={summary.id} value={summary.id}>
+              {summary.id === currentId ? currentName : summary.name} ({summary.noteCount} notes)
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button style={buttonStyle} onClick={handleCreate}>New</button>
+        <button style={buttonStyle} onClick={handleRename}>Rename</button>
+        <button style={buttonStyle} onClick={handleDelete}>Delete</button>
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+        <button style={buttonStyle} onClick={() => handleExport('json')}>JSON</button>
+        <button style={buttonStyle} onClick={() => handleExport('svg')}>SVG</button>
+        <button style={buttonStyle} onClick={() => handleExport('png')}>PNG</button>
+        <button style={buttonStyle} onClick={() => fileInputRef.current?.click()}>Import...</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <span style={{ color: status.color, fontSize: '12px' }}>{status.text}</span>
+      {error && <span style={{ color: '#ff4444', fontSize: '12px' }}>{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type { CSSProperties, ReactNode } from 'react';
+import useHandTarget, { type HandTargetState } from './useHandTarget';
+
+interface HandButtonProps {
+  onClick: () => void;
+  children?: ReactNode;
+  style?: CSSProperties | ((state: HandTargetState) => CSSProperties);
+  className?: string;
+  title?: string;
+  disabled?: boolean;
+  dwell?: number | false;
+  // drawn under the button while it's hovered, e.g. a hint
+  tooltip?: (state: HandTargetState) => ReactNode;
+}
+
+export default function HandButton({ onClick, children, style, className, title, disabled, dwell, tooltip }: HandButtonProps) {
+  const { ref, state } = useHandTarget<HTMLButtonElement>({ onClick, dwell, disabled });
+  const resolved = typeof style === 'function' ? style(state) : style;
+
+  return (
+    <button
+      ref={ref}
+      onClick={onClick}
+      className={className}
+      title={title}
+      disabled={disabled}
+      data-hovered={state.hovered || undefined}
+      data-pressed={state.pressed || undefined}
+      style={{ position: 'relative', ...resolved }}
+    >
+      {children}
+      {state.dwellProgress > 0 && (
+        <span
+          style={{
+            position: 'absolute',
+            left: 0,
+            bottom: 0,
+            height: '3px',
+            width: `${state.dwellProgress * 100}%`,
+            background: 'white',
+            borderRadius: '2px',
+            pointerEvents: 'none',
+          }}
+        />
+      )}
+      {state.hovered && tooltip?.(state)}
+    </button>
+  );
+}
@@ -0,0 +1,28 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { HandCursor } from '../components/VirtualCursor';
+import { Emitter } from '../utils/emitter';
+import { HandInputContext } from './context';
+
+interface HandInputProviderProps {
+  cursors: HandCursor[];
+  dwellMs?: number | null;
+  children: ReactNode;
+}
+
+export const DEFAULT_DWELL_MS = 1200;
+
+export default function HandInputProvider({ cursors, dwellMs = DEFAULT_DWELL_MS, children }: HandInputProviderProps) {
+  const frames = useMemo(() => new Emitter<HandCursor[]>(), []);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    frames.emit(cursors);
+  }, [frames, cursors]);
+
+  const value = useMemo(
+    () => ({ cursors, frames, dwellMs, focusedId, setFocusedId }),
+    [cursors, frames, dwellMs, focusedId]
+  );
+
+  return <HandInputContext.Provider value={value}>{children}</HandInputContext.Provider>;
+}
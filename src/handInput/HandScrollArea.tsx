@@ -0,0 +1,40 @@
+import { useRef, type CSSProperties, type ReactNode } from 'react';
+import useHandTarget from './useHandTarget';
+
+interface HandScrollAreaProps {
+  children: ReactNode;
+  style?: CSSProperties;
+}
+
+// Pinch inside and drag to scroll, the content follows the hand like a touch screen.
+// Mouse wheel and touch scrolling work as usual.
+export default function HandScrollArea({ children, style }: HandScrollAreaProps) {
+  const grab = useRef<{ y: number; scrollTop: number } | null>(null);
+  const { ref, state } = useHandTarget<HTMLDivElement>({
+    dwell: false,
+    onPress: (cursor) => {
+      grab.current = { y: cursor.y, scrollTop: ref.current?.scrollTop ?? 0 };
+    },
+    onDrag: (cursor) => {
+      if (!grab.current || !ref.current) return;
+      ref.current.scrollTop = grab.current.scrollTop - (cursor.y - grab.current.y);
+    },
+    onRelease: () => {
+      grab.current = null;
+    },
+  });
+
+  return (
+    <div
+      ref={ref}
+      style={{
+        overflowY: 'auto',
+        outline: state.pressed ? '1px solid rgba(139, 92, 246, 0.8)' : 'none',
+        cursor: state.pressed ? 'grabbing' : undefined,
+        ...style,
+      }}
+    >
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import type { CSSProperties, PointerEvent } from 'react';
+import useHandTarget from './useHandTarget';
+
+interface HandSliderProps {
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+  label?: string;
+  format?: (value: number) => string;
+  // the track is drawn with this, e.g. a gradient
+  trackBackground?: string;
+  style?: CSSProperties;
+  disabled?: boolean;
+  // radians of wrist rotation that sweep the whole range, false turns twisting off
+  twistRange?: number | false;
+}
+
+const THUMB_SIZE = 18;
+
+export default function HandSlider({
+  value,
+  min,
+  max,
+  step = 0,
+  onChange,
+  label,
+  format = v => String(Math.round(v * 100) / 100),
+  trackBackground = 'rgba(255, 255, 255, 0.25)',
+  style,
+  disabled,
+  twistRange = Math.PI,
+}: HandSliderProps) {
+  const snap = (raw: number) => {
+    const clamped = Math.max(min, Math.min(max, raw));
+    return step > 0 ? Math.min(max, min + Math.round((clamped - min) / step) * step) : clamped;
+  };
+
+  const valueAt = (x: number, rect: DOMRect) => {
+    const t = Math.max(0, Math.min(1, (x - rect.left) / rect.width));
+    return snap(min + t * (max - min));
+  };
+
+  // pinch anywhere on the track and drag sideways, or rest an open hand on it and turn the wrist.
+  // No dwell, resting on a slider shouldn't change it.
+  const { ref, state } = useHandTarget<HTMLDivElement>({
+    dwell: false,
+    disabled,
+    onDrag: (cursor, rect) => onChange(valueAt(cursor.x, rect)),
+    onTwist: twistRange === false ? undefined : delta => onChange(snap(value + (delta / twistRange) * (max - min))),
+  });
+
+  const handlePointer = (e: PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    onChange(valueAt(e.clientX, e.currentTarget.getBoundingClientRect()));
+  };
+
+  const t = max > min ? (value - min) / (max - min) : 0;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', color: '#e0e0e0', fontSize: '12px', opacity: disabled ? 0.5 : 1, ...style }}>
+      {label && (
+        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <span>{label}</span>
+          <span style={{ color: '#888' }}>{format(value)}</span>
+        </div>
+      )}
+      <div
+        ref={ref}
+        role="slider"
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-valuenow={value}
+        onPointerDown={handlePointer}
+        onPointerMove={handlePointer}
+        style={{
+          position: 'relative',
+          height: `${THUMB_SIZE + 10}px`,
+          cursor: 'pointer',
+          touchAction: 'none',
+        }}
+      >
+        <div
+          style={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            top: '50%',
+            height: '6px',
+            transform: 'translateY(-50%)',
+            borderRadius: '3px',
+            background: trackBackground,
+            outline: state.hovered ? '1px solid rgba(255, 255, 255, 0.6)' : 'none',
+          }}
+        />
+        <div
+          style={{
+            position: 'absolute',
+            top: '50%',
+            left: `${t * 100}%`,
+            width: `${THUMB_SIZE}px`,
+            height: `${THUMB_SIZE}px`,
+            transform: `translate(-50%, -50%) scale(${state.pressed ? 1.25 : state.hovered ? 1.1 : 1})`,
+            borderRadius: '50%',
+            background: 'white',
+            boxShadow: state.pressed ? '0 0 12px rgba(255, 255, 255, 0.9)' : '0 1px 4px rgba(0, 0, 0, 0.4)',
+            transition: 'transform 0.1s',
+          }}
+        />
+      </div>
+    </div>
+  );
+}
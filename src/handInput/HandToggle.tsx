@@ -0,0 +1,70 @@
+import type { CSSProperties, ReactNode } from 'react';
+import useHandTarget from './useHandTarget';
+
+interface HandToggleProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  children?: ReactNode;
+  style?: CSSProperties;
+  disabled?: boolean;
+  dwell?: number | false;
+}
+
+export default function HandToggle({ checked, onChange, children, style, disabled, dwell }: HandToggleProps) {
+  const toggle = () => onChange(!checked);
+  const { ref, state } = useHandTarget<HTMLButtonElement>({ onClick: toggle, dwell, disabled });
+
+  return (
+    <button
+      ref={ref}
+      role="switch"
+      aria-checked={checked}
+      onClick={toggle}
+      disabled={disabled}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '6px 10px',
+        background: state.hovered ? 'rgba(255, 255, 255, 0.15)' : 'transparent',
+        border: state.hovered ? '1px solid rgba(255, 255, 255, 0.6)' : '1px solid transparent',
+        borderRadius: '8px',
+        color: '#e0e0e0',
+        fontSize: '13px',
+        cursor: 'pointer',
+        opacity: disabled ? 0.5 : 1,
+        ...style,
+      }}
+    >
+      <span
+        style={{
+          position: 'relative',
+          width: '34px',
+          height: '18px',
+          borderRadius: '9px',
+          background: checked ? '#4ECDC4' : 'rgba(255, 255, 255, 0.25)',
+          transition: 'background 0.2s',
+          flexShrink: 0,
+        }}
+      >
+        <span
+          style={{
+            position: 'absolute',
+            top: '2px',
+            left: checked ? '18px' : '2px',
+            width: '14px',
+            height: '14px',
+            borderRadius: '50%',
+            background: 'white',
+            transform: state.pressed ? 'scale(0.85)' : 'scale(1)',
+            transition: 'left 0.2s, transform 0.1s',
+          }}
+        />
+      </span>
+      {children}
+      {state.dwellProgress > 0 && (
+        <span style={{ color: '#888', fontSize: '11px' }}>{Math.round(state.dwellProgress * 100)}%</span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import type { HandCursor } from '../components/VirtualCursor';
+import type { Emitter } from '../utils/emitter';
+
+export interface HandInputContextValue {
+  cursors: HandCursor[];
+  // fires once per tracking frame, widgets run their state machines off it
+  frames: Emitter<HandCursor[]>;
+  // hovering this long without pinching clicks; null turns dwell-click off
+  dwellMs: number | null;
+  focusedId: string | null;
+  setFocusedId: (id: string | null) => void;
+}
+
+export const HandInputContext = createContext<HandInputContextValue | null>(null);
+
+export function useHandInput(): HandInputContextValue {
+  const value = useContext(HandInputContext);
+  if (!value) {
+    throw new Error('useHandInput must be used inside a HandInputProvider');
+  }
+  return value;
+}
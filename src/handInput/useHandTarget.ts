@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useId, useRef, useState } from 'react';
+import type { HandCursor } from '../components/VirtualCursor';
+import { useHandInput } from './context';
+import { InteractionMachine, transitionLogger } from '../utils/interaction';
+
+export interface HandTargetOptions {
+  onClick?: () => void;
+  onPress?: (cursor: HandCursor, rect: DOMRect) => void;
+  // every frame while pressed, including the press frame
+  onDrag?: (cursor: HandCursor, rect: DOMRect) => void;
+  onRelease?: (cursor: HandCursor | null, inside: boolean) => void;
+  // wrist rotation of an open hand resting on the target, in radians since the last call
+  onTwist?: (delta: number) => void;
+  // overrides the provider's dwell time, false turns it off for this target
+  dwell?: number | false;
+  disabled?: boolean;
+}
+
+export interface HandTargetState {
+  hovered: boolean;
+  pressed: boolean;
+  focused: boolean;
+  // 0-1 towards a dwell click
+  dwellProgress: number;
+}
+
+// a pinch and a dwell landing together shouldn't click twice
+const CLICK_COOLDOWN = 400;
+// twists are reported in steps of at least this much so tracking jitter doesn't creep the value
+const TWIST_STEP = 0.06;
+
+interface Machine {
+  hoverSince: number | null;
+  dwellFired: boolean;
+  lastClick: number;
+  twistHand: number | null;
+  lastRoll: number;
+  twist: number;
+}
+
+const IDLE: HandTargetState = { hovered: false, pressed: false, focused: false, dwellProgress: 0 };
+
+const contains = (rect: DOMRect, c: HandCursor) =>
+  c.x >= rect.left && c.x <= rect.right && c.y >= rect.top && c.y <= rect.bottom;
+
+// Hover, press, release, dwell-click and focus for one element, driven by every tracked hand.
+// Pressing goes through an InteractionMachine, so a press only starts on a fresh pinch inside
+// the element and a pinch that flickers open for a frame doesn't click twice.
+export default function useHandTarget<T extends HTMLElement>(options: HandTargetOptions = {}) {
+  const { frames, dwellMs, focusedId, setFocusedId } = useHandInput();
+  const id = useId();
+  const ref = useRef<T>(null);
+  const latest = useRef(options);
+  const machine = useRef<Machine>({ hoverSince: null, dwellFired: false, lastClick: 0, twistHand: null, lastRoll: 0, twist: 0 });
+  const press = useRef(new InteractionMachine<true>({}, undefined, transitionLogger('hand target')));
+  const [state, setState] = useState<Omit<HandTargetState, 'focused'>>(IDLE);
+
+  useEffect(() => {
+    latest.current = options;
+  });
+
+  const dwell = options.dwell === false ? null : options.dwell ?? dwellMs;
+
+  useEffect(() => frames.subscribe(cursors => {
+    const m = machine.current;
+    const { onClick, onPress, onDrag, onRelease, onTwist, disabled } = latest.current;
+    const now = performance.now();
+    const el = ref.current;
+
+    const click = () => {
+      if (now - m.lastClick < CLICK_COOLDOWN) return;
+      m.lastClick = now;
+      onClick?.();
+    };
+
+    const rect = el && !disabled ? el.getBoundingClientRect() : null;
+    const pressing = press.current;
+    if (!rect && pressing.cancel('disabled', now)) onRelease?.(null, false);
+
+    // pinches keep being watched while disabled, so one already held doesn't press on enabling
+    const { transitions, pointer } = pressing.update(now, cursors.map(c => ({
+      id: c.id,
+      x: c.x,
+      y: c.y,
+      down: c.isPinching && !c.isFist,
+      target: rect && contains(rect, c) ? true : null,
+    })));
+
+    if (!rect) {
+      m.hoverSince = null;
+      m.dwellFired = false;
+      m.twistHand = null;
+      setState(prev => prev === IDLE ? prev : IDLE);
+      return;
+    }
+
+    const inside = cursors.filter(c => contains(rect, c));
+
+    transitions.forEach(({ to, pointerId }) => {
+      const cursor = cursors.find(c => c.id === pointerId);
+      if (to === 'press' && cursor) {
+        setFocusedId(id);
+        onPress?.(cursor, rect);
+      } else if (to === 'release') {
+        // sliding off before letting go cancels, like a mouse button
+        const released = !!cursor && contains(rect, cursor);
+        onRelease?.(cursor ?? null, released);
+        if (released) click();
+      } else if (to === 'cancel') {
+        onRelease?.(null, false);
+      }
+    });
+
+    // every frame while pressed, through a short flicker too
+    const presser = pressing.engaged ? cursors.find(c => c.id === pointer?.id) : undefined;
+    if (presser) onDrag?.(presser, rect);
+
+    // dwell counts an open hand resting on the target; it re-arms once the hand leaves
+    const resting = inside.some(c => !c.isPinching && !c.isFist);
+    if (!resting || pressing.engaged) {
+      m.hoverSince = null;
+      if (inside.length === 0) m.dwellFired = false;
+    } else if (m.hoverSince === null) {
+      m.hoverSince = now;
+    }
+
+    // the first resting hand turns the target like a knob
+    const twister = !pressing.engaged ? inside.find(c => !c.isPinching && !c.isFist) : undefined;
+    if (!twister) {
+      m.twistHand = null;
+    } else if (m.twistHand !== twister.id) {
+      m.twistHand = twister.id;
+      m.lastRoll = twister.roll;
+      m.twist = 0;
+    } else {
+      let delta = twister.roll - m.lastRoll;
+      if (delta > Math.PI) delta -= Math.PI * 2;
+      if (delta < -Math.PI) delta += Math.PI * 2;
+      m.lastRoll = twister.roll;
+      m.twist += delta;
+      if (Math.abs(m.twist) >= TWIST_STEP) {
+        onTwist?.(m.twist);
+        m.twist = 0;
+      }
+    }
+
+    let dwellProgress = 0;
+    if (dwell !== null && m.hoverSince !== null && !m.dwellFired) {
+      dwellProgress = Math.min(1, (now - m.hoverSince) / dwell);
+      if (dwellProgress >= 1) {
+        m.dwellFired = true;
+        dwellProgress = 0;
+        setFocusedId(id);
+        click();
+      }
+    }
+
+    const next = { hovered: inside.length > 0, pressed: pressing.engaged, dwellProgress };
+    setState(prev =>
+      prev.hovered === next.hovered && prev.pressed === next.pressed && prev.dwellProgress === next.dwellProgress ? prev : next
+    );
+  }), [frames, dwell, id, setFocusedId]);
+
+  const focus = useCallback(() => setFocusedId(id), [id, setFocusedId]);
+
+  return { ref, id, state: { ...state, focused: focusedId === id } as HandTargetState, focus };
+}
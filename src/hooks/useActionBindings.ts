@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import type { HandCursor } from '../components/VirtualCursor';
+import type { Emitter } from '../utils/emitter';
+import type { MotionGestureEvent } from '../utils/motionGestures';
+import type { ActionId, InteractionMode } from '../utils/actions';
+import { actionsFor, motionTrigger, type Binding } from '../utils/bindings';
+
+interface UseActionBindingsOptions {
+  cursors: HandCursor[];
+  motionEvents: Emitter<MotionGestureEvent>;
+  bindings: Binding[];
+  mode: InteractionMode;
+  onAction: (action: ActionId) => void;
+  enabled?: boolean;
+}
+
+// Runs the actions bound to poses and motion gestures; on-screen buttons look theirs up
+// themselves through buttonActions
+export default function useActionBindings({ cursors, motionEvents, bindings, mode, onAction, enabled = true }: UseActionBindingsOptions) {
+  const lastGestures = useRef<Record<number, string | null>>({});
+
+  useEffect(() => {
+    const previous = lastGestures.current;
+    lastGestures.current = Object.fromEntries(cursors.map(c => [c.id, c.gesture]));
+    if (!enabled) return;
+
+    // once per pose, holding it doesn't repeat
+    cursors.forEach(cursor => {
+      if (!cursor.gesture || cursor.gesture === previous[cursor.id]) return;
+      actionsFor(bindings, { kind: 'gesture', gesture: cursor.gesture }, mode).forEach(onAction);
+    });
+  }, [cursors, bindings, mode, onAction, enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return motionEvents.subscribe(event => {
+      const motion = motionTrigger(event);
+      if (motion) actionsFor(bindings, { kind: 'motion', motion }, mode).forEach(onAction);
+    });
+  }, [motionEvents, bindings, mode, onAction, enabled]);
+}
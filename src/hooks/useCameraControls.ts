@@ -0,0 +1,89 @@
+import { useEffect, useRef, type Dispatch, type SetStateAction } from 'react';
+import type { HandCursor } from '../components/VirtualCursor';
+import { panBy, zoomAt, type Camera } from '../utils/camera';
+import { dist } from '../utils/geometry';
+
+interface UseCameraControlsOptions {
+  cursors: HandCursor[];
+  onCameraChange: Dispatch<SetStateAction<Camera>>;
+  // whether a gesture starting at this screen point grabs the board rather than something on it
+  canPanAt: (p: { x: number; y: number }) => boolean;
+  // off in draw mode, where each hand's pinch draws its own stroke
+  spreadZoom?: boolean;
+  enabled?: boolean;
+}
+
+// ctrl + wheel (and trackpad pinch, which browsers report the same way) zooms this much per wheel unit
+const WHEEL_ZOOM_RATE = 0.002;
+
+export default function useCameraControls({ cursors, onCameraChange, canPanAt, spreadZoom = true, enabled = true }: UseCameraControlsOptions) {
+  // last screen position of the fist that grabbed the board
+  const pan = useRef<{ handId: number; x: number; y: number } | null>(null);
+  const lastFist = useRef<Record<number, boolean>>({});
+  // a two-hand pinch that started on a note stays with the note (grabbed: false)
+  const spread = useRef<{ handIds: [number, number]; grabbed: boolean; center: { x: number; y: number }; distance: number } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      const factor = Math.exp(-e.deltaY * WHEEL_ZOOM_RATE);
+      onCameraChange(camera => zoomAt(camera, { x: e.clientX, y: e.clientY }, factor));
+    };
+
+    // passive: false so the page itself doesn't zoom
+    window.addEventListener('wheel', handleWheel, { passive: false });
+    return () => window.removeEventListener('wheel', handleWheel);
+  }, [enabled, onCameraChange]);
+
+  // a fist on empty space drags the board
+  useEffect(() => {
+    const previous = lastFist.current;
+    lastFist.current = Object.fromEntries(cursors.map(c => [c.id, c.isFist]));
+    if (!enabled) {
+      pan.current = null;
+      return;
+    }
+
+    const current = pan.current;
+    const hand = current && cursors.find(c => c.id === current.handId && c.isFist);
+    if (current && hand) {
+      const dx = hand.x - current.x;
+      const dy = hand.y - current.y;
+      pan.current = { handId: hand.id, x: hand.x, y: hand.y };
+      if (dx !== 0 || dy !== 0) onCameraChange(camera => panBy(camera, dx, dy));
+      return;
+    }
+
+    pan.current = null;
+    const starter = cursors.find(c => c.isFist && !previous[c.id] && canPanAt(c));
+    if (starter) pan.current = { handId: starter.id, x: starter.x, y: starter.y };
+  }, [cursors, enabled, canPanAt, onCameraChange]);
+
+  // pinching on empty space with both hands zooms around their midpoint, spreading them zooms in
+  useEffect(() => {
+    const pinching = cursors.filter(c => c.isPinching);
+    if (!enabled || !spreadZoom || pinching.length < 2) {
+      spread.current = null;
+      return;
+    }
+
+    const [a, b] = pinching;
+    const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const distance = dist(a, b);
+    const current = spread.current;
+    if (!current || current.handIds[0] !== a.id || current.handIds[1] !== b.id) {
+      spread.current = { handIds: [a.id, b.id], grabbed: canPanAt(center) && canPanAt(a) && canPanAt(b), center, distance };
+      return;
+    }
+    if (!current.grabbed) return;
+
+    const factor = current.distance > 0 ? distance / current.distance : 1;
+    const dx = center.x - current.center.x;
+    const dy = center.y - current.center.y;
+    spread.current = { ...current, center, distance };
+    onCameraChange(camera => panBy(zoomAt(camera, current.center, factor), dx, dy));
+  }, [cursors, enabled, spreadZoom, canPanAt, onCameraChange]);
+}
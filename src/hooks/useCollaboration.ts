@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { HandCursor } from '../components/VirtualCursor';
+import type { RemoteCursor } from '../components/RemoteCursors';
+import { BoardSync } from '../collab/boardSync';
+import { RelayClient, relayUrlFromEnvironment } from '../collab/relayClient';
+import type { Peer, Presence, SyncOp } from '../collab/protocol';
+import { screenToWorld, type Camera } from '../utils/camera';
+import type { Emitter } from '../utils/emitter';
+import type { BoardCommand, BoardState } from '../utils/history';
+
+export type CollabStatus = 'offline' | 'connecting' | 'syncing' | 'live';
+
+interface UseCollaborationOptions {
+  // local edits, including undo and redo
+  changes: Emitter<BoardCommand>;
+  currentBoard: () => BoardState;
+  applyRemote: (update: (board: BoardState) => BoardState) => void;
+  importBoard: (board: BoardState & { name: string }) => void;
+  cursors: HandCursor[];
+  camera: Camera;
+}
+
+interface Session {
+  room: string;
+  name: string;
+  color: string;
+}
+
+const PRESENCE_INTERVAL = 50;
+// leases run out on their own, so held notes are rechecked even when nobody sends anything
+const LEASE_CHECK_INTERVAL = 250;
+const PEER_COLORS = ['#FF6B6B', '#4ECDC4', '#FFD93D', '#8b5cf6', '#FF9F43', '#54A0FF', '#1DD1A1', '#F368E0'];
+
+function without<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
+
+const sameHeld = (a: Map<number, string>, b: Map<number, string>) =>
+  a.size === b.size && [...a].every(([id, peer]) => b.get(id) === peer);
+
+// Shares the open board with everyone in a relay room: local edits go out as ops,
+// remote ops merge in without touching local undo, and the primary hand's position
+// is broadcast so others can see where you're pointing.
+export default function useCollaboration({ changes, currentBoard, applyRemote, importBoard, cursors, camera }: UseCollaborationOptions) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [status, setStatus] = useState<CollabStatus>('offline');
+  const [self, setSelf] = useState<Peer | null>(null);
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const [presence, setPresence] = useState<Record<string, Presence>>({});
+  // notes a collaborator is moving, by the id of whoever holds them
+  const [held, setHeld] = useState<Map<number, string>>(() => new Map());
+  const client = useRef<RelayClient | null>(null);
+  const lastPresence = useRef({ at: 0, visible: false });
+
+  useEffect(() => {
+    if (!session) return;
+
+    const relay = new RelayClient(relayUrlFromEnvironment(), session.room, session.name, session.color);
+    client.current = relay;
+    let sync: BoardSync | null = null;
+    // ops that arrive while waiting for a snapshot, applied on top of it
+    let pending: SyncOp[] | null = null;
+    // peers that asked for a snapshot before we had one to give
+    let waiting: string[] = [];
+    let joined = false;
+
+    const refreshHeld = () => {
+      const next = sync?.heldByOthers() ?? new Map<number, string>();
+      setHeld(prev => (sameHeld(prev, next) ? prev : next));
+    };
+
+    const sendSnapshot = (to: string) => {
+      if (sync) relay.send({ type: 'snapshot', to, snapshot: sync.snapshot(currentBoard()) });
+    };
+
+    const unsubscribeStatus = relay.statusChanges.subscribe(next => {
+      if (next !== 'open') setStatus('connecting');
+    });
+
+    const unsubscribeMessages = relay.messages.subscribe(message => {
+      switch (message.type) {
+        case 'welcome':
+          // every reconnect is a fresh join under a new peer id
+          sync = new BoardSync(message.self.id);
+          setSelf(message.self);
+          setPeers(message.peers);
+          setPresence({});
+          if (message.peers.length > 0) {
+            pending = [];
+            relay.send({ type: 'snapshot-request', to: message.peers[0].id });
+            setStatus('syncing');
+          } else {
+            // first one in: the room starts from this board
+            pending = null;
+            joined = true;
+            setStatus('live');
+          }
+          refreshHeld();
+          break;
+        case 'join':
+          setPeers(prev => [...prev.filter(peer => peer.id !== message.peer.id), message.peer]);
+          break;
+        case 'leave':
+          setPeers(prev => prev.filter(peer => peer.id !== message.peerId));
+          setPresence(prev => without(prev, message.peerId));
+          waiting = waiting.filter(id => id !== message.peerId);
+          sync?.dropPeer(message.peerId);
+          refreshHeld();
+          break;
+        case 'ops': {
+          const current = sync;
+          if (!current) break;
+          if (pending) {
+            pending.push(...message.ops);
+            break;
+          }
+          applyRemote(board => current.applyOps(board, message.ops));
+          refreshHeld();
+          break;
+        }
+        case 'presence':
+          setPresence(prev => (message.cursor ? { ...prev, [message.from]: message.cursor } : without(prev, message.from)));
+          break;
+        case 'snapshot-request':
+          if (pending) waiting.push(message.from);
+          else sendSnapshot(message.from);
+          break;
+        case 'snapshot': {
+          const current = sync;
+          const buffered = pending;
+          if (!current || !buffered) break;
+          pending = null;
+          current.load(message.snapshot);
+          const { board } = message.snapshot;
+          if (joined) {
+            // back after a dropped connection, this workspace already is the room's board
+            applyRemote(() => board);
+          } else {
+            // the room opens as a new workspace, whatever was on screen stays as it was
+            importBoard({ name: session.room, ...board });
+            joined = true;
+          }
+          applyRemote(latest => current.applyOps(latest, buffered));
+          waiting.forEach(sendSnapshot);
+          waiting = [];
+          setStatus('live');
+          refreshHeld();
+          break;
+        }
+      }
+    });
+
+    const unsubscribeChanges = changes.subscribe(command => {
+      if (!sync || pending) return;
+      const ops = sync.localOps(command);
+      if (ops.length > 0) relay.send({ type: 'ops', ops });
+      refreshHeld();
+    });
+
+    const leaseTimer = window.setInterval(refreshHeld, LEASE_CHECK_INTERVAL);
+    relay.open();
+
+    return () => {
+      unsubscribeStatus();
+      unsubscribeMessages();
+      unsubscribeChanges();
+      window.clearInterval(leaseTimer);
+      relay.close();
+      client.current = null;
+    };
+  }, [session, changes, currentBoard, applyRemote, importBoard]);
+
+  useEffect(() => {
+    const relay = client.current;
+    if (!relay) return;
+    const primary = cursors.find(c => c.isPrimary);
+    const now = performance.now();
+    const last = lastPresence.current;
+    // throttled, but a hand showing up or leaving always goes out
+    if (!!primary === last.visible && now - last.at < PRESENCE_INTERVAL) return;
+    lastPresence.current = { at: now, visible: !!primary };
+    relay.send({
+      type: 'presence',
+      cursor: primary ? { ...screenToWorld(camera, primary), isPinching: primary.isPinching, isFist: primary.isFist } : null,
+    });
+  }, [cursors, camera]);
+
+  const join = useCallback((room: string, name: string) => {
+    setSession({ room, name, color: PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)] });
+    setStatus('connecting');
+  }, []);
+
+  const leave = useCallback(() => {
+    setSession(null);
+    setStatus('offline');
+    setSelf(null);
+    setPeers([]);
+    setPresence({});
+    setHeld(new Map());
+  }, []);
+
+  const lockedNotes = useMemo(() => {
+    const byId = new Map(peers.map(peer => [peer.id, peer]));
+    const locked: Record<number, Peer> = {};
+    held.forEach((peerId, noteId) => {
+      const peer = byId.get(peerId);
+      if (peer) locked[noteId] = peer;
+    });
+    return locked;
+  }, [held, peers]);
+
+  const remoteCursors = useMemo(
+    (): RemoteCursor[] => peers.flatMap(peer => (presence[peer.id] ? [{ peer, cursor: presence[peer.id] }] : [])),
+    [peers, presence],
+  );
+
+  return {
+    room: session?.room ?? null,
+    status,
+    self,
+    peers,
+    lockedNotes,
+    remoteCursors,
+    // the id range for notes and connectors made here, 0 while not in a room
+    site: self?.site ?? 0,
+    join,
+    leave,
+  };
+}
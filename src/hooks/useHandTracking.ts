@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState } from 'react';
-import { HandLandmarker, FilesetResolver, type NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { HandTrackingProvider } from '../tracking/types';
+import { HandIdentityTracker } from '../utils/handIdentity';
 
 export interface HandLandmark {
   x: number;
@@ -12,83 +13,52 @@ export interface HandData {
   landmarks: HandLandmark[];
   handedness: 'Left' | 'Right';
   score: number;
+  // assigned by useHandTracking, stable while the hand stays in view
+  id?: number;
 }
 
 interface UseHandTrackingProps {
   videoElement: HTMLVideoElement | null;
+  provider: HandTrackingProvider;
 }
 
-export default function useHandTracking({ videoElement }: UseHandTrackingProps) {
+export default function useHandTracking({ videoElement, provider }: UseHandTrackingProps) {
   const [isTracking, setIsTracking] = useState(false);
   const [hands, setHands] = useState<HandData[]>([]);
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
   const animationRef = useRef<number | null>(null);
   const lastUpdate = useRef<number>(0);
 
   useEffect(() => {
-    if (!videoElement) return;
+    const video = provider.needsVideo ? videoElement : null;
+    if (provider.needsVideo && !video) return;
 
     let isActive = true;
+    let pending: HandData[] | null = null;
+    const identities = new HandIdentityTracker();
 
     const initializeDetector = async () => {
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm'
-        );
+        await provider.init(video);
+        if (!isActive) return;
 
-        const handLandmarker = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
-            delegate: 'GPU',
-          },
-          numHands: 2,
-          runningMode: 'VIDEO',
-          minHandDetectionConfidence: 0.8,
-          minHandPresenceConfidence: 0.8,
-          minTrackingConfidence: 0.8,
-        });
-
-        handLandmarkerRef.current = handLandmarker;
         setIsTracking(true);
-
         detectHands();
       } catch (error) {
-        console.error('Failed to initialize hand detector:', error);
+        console.error(`Failed to initialize ${provider.name} hand tracker:`, error);
         setIsTracking(false);
       }
     };
 
-    const detectHands = async () => {
-      if (!isActive || !handLandmarkerRef.current || !videoElement) return;
-
-      if (videoElement.videoWidth === 0 || videoElement.videoHeight === 0) {
-        if (isActive) {
-          animationRef.current = requestAnimationFrame(detectHands);
-        }
-        return;
-      }
-
-      const startTimeMs = performance.now();
-      const results = handLandmarkerRef.current.detectForVideo(videoElement, startTimeMs);
-      const detectedHands: HandData[] = [];
-
-      if (results.landmarks && results.handedness) {
-        results.landmarks.forEach((handLandmarks: NormalizedLandmark[], index: number) => {
-          const handedness = results.handedness[index]?.[0]?.categoryName as 'Left' | 'Right';
-          const score = results.handedness[index]?.[0]?.score || 0;
-          if (score >= 0.8) {
-            detectedHands.push({
-              landmarks: handLandmarks.map(lm => ({ x: lm.x, y: lm.y, z: lm.z })),
-              handedness,
-              score,
-            });
-          }
-        });
-      }
+    const detectHands = () => {
+      if (!isActive) return;
 
       const now = performance.now();
-      if (now - lastUpdate.current > 16) {
-        setHands(detectedHands);
+      const detected = provider.detect(video, now);
+      if (detected) pending = identities.assign(detected, now);
+
+      if (pending && now - lastUpdate.current > 16) {
+        setHands(pending);
+        pending = null;
         lastUpdate.current = now;
       }
 
@@ -97,23 +67,23 @@ export default function useHandTracking({ videoElement }: UseHandTrackingProps)
       }
     };
 
-    if (videoElement.readyState >= 2) {
+    if (!video || video.readyState >= 2) {
       initializeDetector();
     } else {
-      videoElement.addEventListener('loadeddata', initializeDetector, { once: true });
+      video.addEventListener('loadeddata', initializeDetector, { once: true });
     }
 
     return () => {
       isActive = false;
+      video?.removeEventListener('loadeddata', initializeDetector);
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
-      if (handLandmarkerRef.current) {
-        handLandmarkerRef.current.close();
-      }
+      provider.close();
+      setHands([]);
       setIsTracking(false);
     };
-  }, [videoElement]);
+  }, [videoElement, provider]);
 
   return { isTracking, hands };
 }
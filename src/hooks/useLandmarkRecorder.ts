@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { HandData } from './useHandTracking';
+import { LandmarkRecorder, type HandRecording } from '../utils/landmarkRecording';
+
+export default function useLandmarkRecorder(hands: HandData[]) {
+  const recorderRef = useRef(new LandmarkRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+
+  useEffect(() => {
+    recorderRef.current.push(hands);
+  }, [hands]);
+
+  const start = useCallback(() => {
+    recorderRef.current.start();
+    setIsRecording(true);
+  }, []);
+
+  const stop = useCallback((): HandRecording => {
+    setIsRecording(false);
+    return recorderRef.current.stop();
+  }, []);
+
+  return { isRecording, start, stop };
+}
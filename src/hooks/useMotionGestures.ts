@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+import type { HandData } from './useHandTracking';
+import type { Emitter } from '../utils/emitter';
+import { MotionGestureDetector, type MotionGestureEvent, type MotionGestureOptions } from '../utils/motionGestures';
+
+interface UseMotionGesturesProps {
+  hands: HandData[];
+  events: Emitter<MotionGestureEvent>;
+  options?: Partial<MotionGestureOptions>;
+}
+
+// one detector per tracked hand, events carry the hand id
+export default function useMotionGestures({ hands, events, options }: UseMotionGesturesProps) {
+  const detectors = useRef(new Map<number, MotionGestureDetector>());
+
+  useEffect(() => {
+    detectors.current.clear();
+  }, [options]);
+
+  useEffect(() => {
+    const now = performance.now();
+    const seen = new Set<number>();
+
+    hands.forEach((hand, index) => {
+      const id = hand.id ?? index;
+      seen.add(id);
+      let detector = detectors.current.get(id);
+      if (!detector) {
+        detector = new MotionGestureDetector(options);
+        detectors.current.set(id, detector);
+      }
+      detector.update(hand, now).forEach(event => events.emit({ ...event, handId: id }));
+    });
+
+    detectors.current.forEach((_, id) => {
+      if (!seen.has(id)) detectors.current.delete(id);
+    });
+  }, [hands, events, options]);
+}
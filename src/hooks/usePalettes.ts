@@ -0,0 +1,47 @@
+import { useCallback, useState } from 'react';
+import {
+  addToPalette,
+  loadPalettes,
+  loadRecentColors,
+  pushRecent,
+  savePalettes,
+  saveRecentColors,
+  upsertPalette,
+  type Palette,
+} from '../utils/palettes';
+
+// Recent colors and named palettes, stored per profile
+export default function usePalettes() {
+  const [recent, setRecent] = useState(loadRecentColors);
+  const [palettes, setPalettes] = useState(loadPalettes);
+
+  const addRecent = useCallback((color: string) => {
+    setRecent(prev => {
+      const next = pushRecent(prev, color);
+      if (next !== prev) saveRecentColors(next);
+      return next;
+    });
+  }, []);
+
+  const updatePalettes = useCallback((update: (prev: Palette[]) => Palette[]) => {
+    setPalettes(prev => {
+      const next = update(prev);
+      savePalettes(next);
+      return next;
+    });
+  }, []);
+
+  const savePalette = useCallback((name: string, colors: string[]) => {
+    updatePalettes(prev => upsertPalette(prev, { name, colors }));
+  }, [updatePalettes]);
+
+  const addColor = useCallback((name: string, color: string) => {
+    updatePalettes(prev => prev.map(p => (p.name === name ? addToPalette(p, color) : p)));
+  }, [updatePalettes]);
+
+  const removePalette = useCallback((name: string) => {
+    updatePalettes(prev => prev.filter(p => p.name !== name));
+  }, [updatePalettes]);
+
+  return { recent, addRecent, palettes, savePalette, addColor, removePalette };
+}
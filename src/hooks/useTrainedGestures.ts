@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+import type { HandData } from './useHandTracking';
+import { TrainedGestureTracker, type TrainedGesture } from '../utils/gestureTraining';
+import type { ActionId } from '../utils/actions';
+
+interface UseTrainedGesturesOptions {
+  hands: HandData[];
+  gestures: TrainedGesture[];
+  onAction: (action: ActionId) => void;
+  // the trained gesture the first hand is holding, or null
+  onGestureChange?: (name: string | null) => void;
+  enabled?: boolean;
+}
+
+// Classifies every tracked hand against the user's trained poses; a bound action fires
+// once each time its pose starts
+export default function useTrainedGestures({ hands, gestures, onAction, onGestureChange, enabled = true }: UseTrainedGesturesOptions) {
+  const trackers = useRef(new Map<number, TrainedGestureTracker>());
+  const lastReported = useRef<string | null>(null);
+
+  useEffect(() => {
+    trackers.current.clear();
+  }, [gestures]);
+
+  useEffect(() => {
+    const active = enabled && gestures.length > 0;
+    const seen = new Set<number>();
+    let first: string | null = null;
+
+    for (const [index, hand] of (active ? hands : []).entries()) {
+      const id = hand.id ?? index;
+      seen.add(id);
+      let tracker = trackers.current.get(id);
+      if (!tracker) {
+        tracker = new TrainedGestureTracker();
+        trackers.current.set(id, tracker);
+      }
+      const { gesture, started } = tracker.update(hand, gestures);
+      if (index === 0) first = gesture;
+      const action = started && gestures.find(g => g.name === started)?.action;
+      if (action) onAction(action);
+    }
+
+    trackers.current.forEach((_, id) => {
+      if (!seen.has(id)) trackers.current.delete(id);
+    });
+
+    if (first !== lastReported.current) {
+      lastReported.current = first;
+      onGestureChange?.(first);
+    }
+  }, [hands, gestures, onAction, onGestureChange, enabled]);
+}
@@ -0,0 +1,37 @@
+import { useEffect } from 'react';
+
+interface UseUndoShortcutsOptions {
+  onUndo: () => void;
+  onRedo: () => void;
+  enabled?: boolean;
+}
+
+function isTextField(target: EventTarget | null) {
+  return target instanceof HTMLElement
+    && (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT' || target.isContentEditable);
+}
+
+// Keyboard undo/redo; the hand gestures for them are ordinary bindings (see useActionBindings)
+export default function useUndoShortcuts({ onUndo, onRedo, enabled = true }: UseUndoShortcutsOptions) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // text fields keep their own native undo
+      if (isTextField(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, onUndo, onRedo]);
+}
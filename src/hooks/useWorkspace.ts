@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useRef, useState, type SetStateAction } from 'react';
+import type { DraggableBox } from '../components/InteractiveElements';
+import type { DrawStroke } from '../components/DrawingCanvas';
+import { WorkspaceStore, emptyWorkspace, type Workspace, type WorkspaceSummary } from '../utils/workspaceStore';
+import { DEFAULT_CAMERA, sameCamera, type Camera } from '../utils/camera';
+import { pruneConnectors, type Connector } from '../utils/connectors';
+import { CommandHistory, applyCommand, combine, describeCommand, diffConnectors, diffNotes, diffStrokes, type BoardCommand, type BoardState } from '../utils/history';
+import { Emitter } from '../utils/emitter';
+
+// edits within this window are written together
+const AUTOSAVE_DELAY = 500;
+
+export type SaveStatus = 'saved' | 'pending' | 'error';
+
+export interface HistoryInfo {
+  undoDepth: number;
+  redoDepth: number;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+function historyInfo(history: CommandHistory): HistoryInfo {
+  const undo = history.peekUndo();
+  const redo = history.peekRedo();
+  return {
+    undoDepth: history.undoDepth,
+    redoDepth: history.redoDepth,
+    undoLabel: undo && describeCommand(undo),
+    redoLabel: redo && describeCommand(redo),
+  };
+}
+
+const sameInfo = (a: HistoryInfo, b: HistoryInfo) =>
+  a.undoDepth === b.undoDepth && a.redoDepth === b.redoDepth && a.undoLabel === b.undoLabel && a.redoLabel === b.redoLabel;
+
+function resolve<T>(action: SetStateAction<T>, prev: T): T {
+  return typeof action === 'function' ? (action as (prev: T) => T)(prev) : action;
+}
+
+export default function useWorkspace() {
+  const [store] = useState(() => new WorkspaceStore());
+  const [workspace, setWorkspace] = useState<Workspace>(() => store.restoreLast());
+  const [summaries, setSummaries] = useState<WorkspaceSummary[]>(() => store.list());
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  const latest = useRef(workspace);
+  const dirty = useRef(false);
+  const timer = useRef<number | null>(null);
+
+  const flush = useCallback(() => {
+    if (timer.current !== null) {
+      window.clearTimeout(timer.current);
+      timer.current = null;
+    }
+    if (!dirty.current) return;
+    try {
+      store.save(latest.current);
+      store.setLastOpened(latest.current.id);
+      dirty.current = false;
+      setSummaries(store.list());
+      setSaveStatus('saved');
+    } catch (error) {
+      console.error('Failed to save workspace:', error);
+      setSaveStatus('error');
+    }
+  }, [store]);
+
+  const [history] = useState(() => new CommandHistory());
+  // every local edit, including undo and redo, for anything mirroring the board elsewhere
+  const [changes] = useState(() => new Emitter<BoardCommand>());
+  const [historyState, setHistoryState] = useState<HistoryInfo>(() => historyInfo(history));
+
+  const syncHistory = useCallback(() => {
+    const next = historyInfo(history);
+    setHistoryState(prev => sameInfo(prev, next) ? prev : next);
+  }, [history]);
+
+  // changes go through the ref so several updates in one frame build on each other
+  const commit = useCallback((next: Workspace) => {
+    latest.current = next;
+    dirty.current = true;
+    setWorkspace(next);
+    setSaveStatus('pending');
+    if (timer.current !== null) window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(flush, AUTOSAVE_DELAY);
+  }, [flush]);
+
+  const record = useCallback((command: BoardCommand | null) => {
+    if (!command) return;
+    history.push(command);
+    syncHistory();
+    changes.emit(command);
+  }, [history, syncHistory, changes]);
+
+  const setBoxes = useCallback((action: SetStateAction<DraggableBox[]>) => {
+    const prev = latest.current;
+    const boxes = resolve(action, prev.boxes);
+    if (boxes === prev.boxes) return;
+    // a deleted note takes its connectors with it, in the same undo step
+    const connectors = pruneConnectors(prev.connectors, boxes);
+    const notes = diffNotes(prev.boxes, boxes);
+    const linked = diffConnectors(prev.connectors, connectors);
+    // a fresh array with nothing changed in it would only re-render and re-save
+    if (!notes && !linked) return;
+    record(combine([notes, linked]));
+    commit({ ...prev, boxes, connectors });
+  }, [commit, record]);
+
+  const setStrokes = useCallback((action: SetStateAction<DrawStroke[]>) => {
+    const prev = latest.current;
+    const strokes = resolve(action, prev.strokes);
+    if (strokes === prev.strokes) return;
+    const command = diffStrokes(prev.strokes, strokes);
+    if (!command) return;
+    record(command);
+    commit({ ...prev, strokes });
+  }, [commit, record]);
+
+  const setConnectors = useCallback((action: SetStateAction<Connector[]>) => {
+    const prev = latest.current;
+    const connectors = resolve(action, prev.connectors);
+    if (connectors === prev.connectors) return;
+    const command = diffConnectors(prev.connectors, connectors);
+    if (!command) return;
+    record(command);
+    commit({ ...prev, connectors });
+  }, [commit, record]);
+
+  const replay = useCallback((command: BoardCommand | null) => {
+    if (!command) return;
+    commit({ ...latest.current, ...applyCommand(latest.current, command) });
+    syncHistory();
+    changes.emit(command);
+  }, [commit, syncHistory, changes]);
+
+  const undo = useCallback(() => replay(history.undo()), [history, replay]);
+  const redo = useCallback(() => replay(history.redo()), [history, replay]);
+
+  const open = useCallback((next: Workspace) => {
+    // history belongs to the workspace it was recorded in
+    history.clear();
+    syncHistory();
+    latest.current = next;
+    dirty.current = false;
+    setWorkspace(next);
+    store.setLastOpened(next.id);
+    setSummaries(store.list());
+    setSaveStatus('saved');
+  }, [store, history, syncHistory]);
+
+  const switchTo = useCallback((id: string) => {
+    flush();
+    const next = store.load(id);
+    if (next) open(next);
+  }, [store, flush, open]);
+
+  const create = useCallback((name: string) => {
+    flush();
+    open(store.create(name));
+  }, [store, flush, open]);
+
+  // imports open as a new workspace so nothing on the current board is overwritten
+  const importBoard = useCallback((board: Pick<Workspace, 'name' | 'boxes' | 'strokes' | 'connectors'>) => {
+    flush();
+    open(store.save({ ...emptyWorkspace(board.name), boxes: board.boxes, strokes: board.strokes, connectors: board.connectors }));
+  }, [store, flush, open]);
+
+  const rename = useCallback((name: string) => {
+    commit({ ...latest.current, name });
+  }, [commit]);
+
+  // panning and zooming is saved with the board but isn't an undoable edit
+  const setCamera = useCallback((action: SetStateAction<Camera>) => {
+    const prev = latest.current;
+    const camera = resolve(action, prev.camera ?? DEFAULT_CAMERA);
+    if (prev.camera && sameCamera(camera, prev.camera)) return;
+    commit({ ...prev, camera });
+  }, [commit]);
+
+  // the board as of the latest edit, which may not have rendered yet
+  const currentBoard = useCallback((): BoardState => latest.current, []);
+
+  // edits from collaborators land on the board without becoming local undo steps
+  const applyRemote = useCallback((update: (board: BoardState) => BoardState) => {
+    const prev = latest.current;
+    const board = update(prev);
+    if (board.boxes === prev.boxes && board.strokes === prev.strokes && board.connectors === prev.connectors) return;
+    commit({ ...prev, boxes: board.boxes, strokes: board.strokes, connectors: board.connectors });
+  }, [commit]);
+
+  const remove = useCallback((id: string) => {
+    if (timer.current !== null && id === latest.current.id) {
+      window.clearTimeout(timer.current);
+      timer.current = null;
+      dirty.current = false;
+    }
+    store.remove(id);
+    if (id === latest.current.id) {
+      open(store.restoreLast());
+    } else {
+      setSummaries(store.list());
+    }
+  }, [store, open]);
+
+  useEffect(() => {
+    // nothing is lost if the tab closes inside the autosave window
+    window.addEventListener('beforeunload', flush);
+    return () => {
+      window.removeEventListener('beforeunload', flush);
+      flush();
+    };
+  }, [flush]);
+
+  return {
+    workspace,
+    summaries,
+    saveStatus,
+    setBoxes,
+    setStrokes,
+    setConnectors,
+    applyRemote,
+    currentBoard,
+    changes,
+    history: historyState,
+    undo,
+    redo,
+    switchTo,
+    create,
+    importBoard,
+    rename,
+    remove,
+    camera: workspace.camera ?? DEFAULT_CAMERA,
+    setCamera,
+  };
+}
@@ -0,0 +1,67 @@
+import type { HandTrackingProvider } from './types';
+import { MediaPipeProvider, type MediaPipeProviderOptions } from './mediapipeProvider';
+import { ScriptedProvider } from './scriptedProvider';
+import { WebSocketProvider } from './websocketProvider';
+
+export type HandTrackingConfig =
+  | ({ kind: 'mediapipe' } & MediaPipeProviderOptions)
+  | { kind: 'scripted' }
+  | { kind: 'websocket'; url: string };
+
+const DEFAULT_WS_URL = 'ws://localhost:8765';
+
+function numberOrUndefined(value: string | null | undefined) {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Query params win over VITE_* env vars, e.g. `?tracker=scripted` for CI or
+// `?tracker=websocket&wsUrl=ws://localhost:9000` for an external tracker.
+export function trackingConfigFromEnvironment(search = window.location.search): HandTrackingConfig {
+  const params = new URLSearchParams(search);
+  const env = import.meta.env;
+  const pick = (param: string, envKey: string): string | undefined =>
+    params.get(param) ?? env[envKey] ?? undefined;
+
+  const kind = pick('tracker', 'VITE_HAND_TRACKER') || 'mediapipe';
+
+  if (kind === 'scripted') {
+    return { kind: 'scripted' };
+  }
+
+  if (kind === 'websocket') {
+    return { kind: 'websocket', url: pick('wsUrl', 'VITE_HAND_TRACKER_WS_URL') || DEFAULT_WS_URL };
+  }
+
+  const delegate = pick('delegate', 'VITE_HAND_DELEGATE')?.toUpperCase();
+  const confidence = numberOrUndefined(pick('confidence', 'VITE_HAND_MIN_CONFIDENCE'));
+
+  return {
+    kind: 'mediapipe',
+    wasmPath: pick('wasmPath', 'VITE_MEDIAPIPE_WASM_PATH'),
+    modelAssetPath: pick('modelPath', 'VITE_HAND_MODEL_PATH'),
+    delegate: delegate === 'CPU' || delegate === 'GPU' ? delegate : undefined,
+    numHands: numberOrUndefined(pick('numHands', 'VITE_HAND_NUM_HANDS')),
+    minHandDetectionConfidence: confidence,
+    minHandPresenceConfidence: confidence,
+    minTrackingConfidence: confidence,
+    minHandScore: confidence,
+  };
+}
+
+export function createHandTrackingProvider(config: HandTrackingConfig): HandTrackingProvider {
+  switch (config.kind) {
+    case 'scripted':
+      return new ScriptedProvider();
+    case 'websocket':
+      return new WebSocketProvider(config.url);
+    case 'mediapipe': {
+      // drop unset keys so they fall back to the provider defaults
+      const options = Object.fromEntries(
+        Object.entries(config).filter(([key, value]) => key !== 'kind' && value !== undefined)
+      );
+      return new MediaPipeProvider(options);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { HandLandmarker, FilesetResolver, type NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { HandData } from '../hooks/useHandTracking';
+import type { HandTrackingProvider } from './types';
+
+export interface MediaPipeProviderOptions {
+  wasmPath?: string;
+  modelAssetPath?: string;
+  delegate?: 'CPU' | 'GPU';
+  numHands?: number;
+  minHandDetectionConfidence?: number;
+  minHandPresenceConfidence?: number;
+  minTrackingConfidence?: number;
+  // hands whose handedness score is below this are dropped
+  minHandScore?: number;
+}
+
+export const MEDIAPIPE_DEFAULTS: Required<MediaPipeProviderOptions> = {
+  wasmPath: 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm',
+  modelAssetPath: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+  delegate: 'GPU',
+  numHands: 2,
+  minHandDetectionConfidence: 0.8,
+  minHandPresenceConfidence: 0.8,
+  minTrackingConfidence: 0.8,
+  minHandScore: 0.8,
+};
+
+export class MediaPipeProvider implements HandTrackingProvider {
+  readonly name = 'mediapipe';
+  readonly needsVideo = true;
+  private options: Required<MediaPipeProviderOptions>;
+  private landmarker: HandLandmarker | null = null;
+  private lastTimestamp = -1;
+  // bumped on close so an init that resolves late doesn't resurrect a closed provider
+  private generation = 0;
+
+  constructor(options: MediaPipeProviderOptions = {}) {
+    this.options = { ...MEDIAPIPE_DEFAULTS, ...options };
+  }
+
+  async init() {
+    const generation = this.generation;
+    const vision = await FilesetResolver.forVisionTasks(this.options.wasmPath);
+
+    const landmarker = await HandLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        modelAssetPath: this.options.modelAssetPath,
+        delegate: this.options.delegate,
+      },
+      numHands: this.options.numHands,
+      runningMode: 'VIDEO',
+      minHandDetectionConfidence: this.options.minHandDetectionConfidence,
+      minHandPresenceConfidence: this.options.minHandPresenceConfidence,
+      minTrackingConfidence: this.options.minTrackingConfidence,
+    });
+
+    if (generation !== this.generation) {
+      landmarker.close();
+      return;
+    }
+    this.landmarker?.close();
+    this.landmarker = landmarker;
+  }
+
+  detect(video: HTMLVideoElement | null, timestampMs: number): HandData[] | null {
+    if (!this.landmarker || !video) return null;
+    if (video.videoWidth === 0 || video.videoHeight === 0) return null;
+    // detectForVideo requires strictly increasing timestamps
+    if (timestampMs <= this.lastTimestamp) return null;
+    this.lastTimestamp = timestampMs;
+
+    const results = this.landmarker.detectForVideo(video, timestampMs);
+    const detectedHands: HandData[] = [];
+
+    if (results.landmarks && results.handedness) {
+      results.landmarks.forEach((handLandmarks: NormalizedLandmark[], index: number) => {
+        const handedness = results.handedness[index]?.[0]?.categoryName as 'Left' | 'Right';
+        const score = results.handedness[index]?.[0]?.score || 0;
+        if (score >= this.options.minHandScore) {
+          detectedHands.push({
+            landmarks: handLandmarks.map(lm => ({ x: lm.x, y: lm.y, z: lm.z })),
+            handedness,
+            score,
+          });
+        }
+      });
+    }
+
+    return detectedHands;
+  }
+
+  close() {
+    this.generation++;
+    this.landmarker?.close();
+    this.landmarker = null;
+    this.lastTimestamp = -1;
+  }
+}
@@ -0,0 +1,43 @@
+import type { HandData } from '../hooks/useHandTracking';
+import { frameIndexAt, type HandRecording } from '../utils/landmarkRecording';
+import type { HandTrackingProvider } from './types';
+
+export class ReplayProvider implements HandTrackingProvider {
+  readonly name = 'replay';
+  readonly needsVideo = false;
+  private recording: HandRecording;
+  private loop: boolean;
+  private start: number | null = null;
+  private lastIndex = -1;
+
+  constructor(recording: HandRecording, loop = true) {
+    this.recording = recording;
+    this.loop = loop;
+  }
+
+  async init() {
+    this.start = null;
+    this.lastIndex = -1;
+  }
+
+  detect(_video: HTMLVideoElement | null, timestampMs: number): HandData[] | null {
+    if (this.start === null) this.start = timestampMs;
+
+    const { duration, frames } = this.recording;
+    let elapsed = timestampMs - this.start;
+    if (elapsed > duration && this.loop && duration > 0) {
+      this.start = timestampMs;
+      this.lastIndex = -1;
+      elapsed = 0;
+    }
+
+    const index = frameIndexAt(this.recording, elapsed);
+    if (index === this.lastIndex) return null;
+    this.lastIndex = index;
+    return index >= 0 ? frames[index].hands : [];
+  }
+
+  close() {
+    this.start = null;
+  }
+}
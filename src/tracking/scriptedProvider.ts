@@ -0,0 +1,49 @@
+import type { HandData } from '../hooks/useHandTracking';
+import type { HandTrackingProvider } from './types';
+import { syntheticHand } from './syntheticHand';
+
+// ms since the provider started -> hands for that moment
+export type HandScript = (elapsedMs: number) => HandData[];
+
+const FRAME_INTERVAL = 33;
+
+// slow figure-eight over the frame with a short pinch every 3 seconds
+export const defaultHandScript: HandScript = (t) => {
+  const phase = t / 4000 * Math.PI * 2;
+  const pinching = t % 3000 > 2500;
+  return [
+    syntheticHand({
+      x: 0.5 + Math.sin(phase) * 0.25,
+      y: 0.5 + Math.sin(phase * 2) * 0.15,
+      pinch: pinching ? 1 : 0,
+    }),
+  ];
+};
+
+export class ScriptedProvider implements HandTrackingProvider {
+  readonly name = 'scripted';
+  readonly needsVideo = false;
+  private script: HandScript;
+  private start: number | null = null;
+  private lastFrame = -Infinity;
+
+  constructor(script: HandScript = defaultHandScript) {
+    this.script = script;
+  }
+
+  async init() {
+    this.start = null;
+    this.lastFrame = -Infinity;
+  }
+
+  detect(_video: HTMLVideoElement | null, timestampMs: number): HandData[] | null {
+    if (this.start === null) this.start = timestampMs;
+    if (timestampMs - this.lastFrame < FRAME_INTERVAL) return null;
+    this.lastFrame = timestampMs;
+    return this.script(timestampMs - this.start);
+  }
+
+  close() {
+    this.start = null;
+  }
+}
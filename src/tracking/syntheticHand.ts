@@ -0,0 +1,59 @@
+import type { HandData, HandLandmark } from '../hooks/useHandTracking';
+
+export interface SyntheticHandPose {
+  x: number; // palm center, normalized image coords
+  y: number;
+  scale?: number; // roughly wrist to fingertip span
+  handedness?: 'Left' | 'Right';
+  pinch?: number; // 0 = open, 1 = thumb touching index tip
+  curl?: number; // 0 = fingers extended, 1 = fist
+}
+
+// [column offset, finger length] for index, middle, ring, pinky
+const FINGERS: [number, number][] = [
+  [-0.12, 0.45],
+  [-0.04, 0.5],
+  [0.04, 0.45],
+  [0.12, 0.35],
+];
+
+function lerp(a: HandLandmark, b: HandLandmark, t: number): HandLandmark {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: 0 };
+}
+
+// Builds a plausible 21-point MediaPipe hand. Only meant for scripted sessions and CI,
+// the proportions are just close enough for the gesture heuristics.
+export function syntheticHand({ x, y, scale = 0.25, handedness = 'Right', pinch = 0, curl = 0 }: SyntheticHandPose): HandData {
+  const s = scale;
+  const side = handedness === 'Right' ? -1 : 1;
+  const landmarks: HandLandmark[] = new Array(21);
+
+  landmarks[0] = { x, y: y + 0.5 * s, z: 0 };
+
+  FINGERS.forEach(([offset, length], i) => {
+    const base = 5 + i * 4;
+    const mcp = { x: x + offset * s * side, y, z: 0 };
+    landmarks[base] = mcp;
+    for (let j = 1; j <= 3; j++) {
+      const extended = { x: mcp.x, y: mcp.y - length * s * (j / 3), z: 0 };
+      const curled = { x: mcp.x, y: mcp.y + (j === 3 ? 0.15 : j === 2 ? 0 : -0.12) * s, z: 0 };
+      landmarks[base + j] = lerp(extended, curled, curl);
+    }
+  });
+
+  const thumb: HandLandmark[] = [
+    { x: x - 0.15 * s * side, y: y + 0.35 * s, z: 0 },
+    { x: x - 0.25 * s * side, y: y + 0.2 * s, z: 0 },
+    { x: x - 0.32 * s * side, y: y + 0.05 * s, z: 0 },
+    { x: x - 0.36 * s * side, y: y - 0.08 * s, z: 0 },
+  ];
+  // a curled thumb folds over the middle knuckle, a pinching one meets the index tip
+  const tucked = { x: landmarks[9].x, y: landmarks[9].y + 0.1 * s, z: 0 };
+  const indexTip = landmarks[8];
+  landmarks[1] = thumb[0];
+  landmarks[2] = thumb[1];
+  landmarks[3] = lerp(lerp(thumb[2], tucked, curl * 0.5), indexTip, pinch * 0.5);
+  landmarks[4] = lerp(lerp(thumb[3], tucked, curl), indexTip, pinch);
+
+  return { landmarks, handedness, score: 1 };
+}
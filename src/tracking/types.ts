@@ -0,0 +1,11 @@
+import type { HandData } from '../hooks/useHandTracking';
+
+export interface HandTrackingProvider {
+  readonly name: string;
+  // providers that don't read the camera (replay, websocket, scripted) can run without a video element
+  readonly needsVideo: boolean;
+  init(video: HTMLVideoElement | null): Promise<void>;
+  // returns null when nothing changed since the previous call
+  detect(video: HTMLVideoElement | null, timestampMs: number): HandData[] | null;
+  close(): void;
+}
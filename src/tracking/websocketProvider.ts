@@ -0,0 +1,84 @@
+import type { HandData } from '../hooks/useHandTracking';
+import { isHandData } from '../utils/landmarkRecording';
+import type { HandTrackingProvider } from './types';
+
+const RECONNECT_MIN = 500;
+const RECONNECT_MAX = 8000;
+
+// Accepts either `HandData[]` or `{ hands: HandData[] }` per message, so an external
+// tracker (python mediapipe, a leap bridge, ...) only has to send JSON.
+function parseMessage(data: unknown): HandData[] | null {
+  if (typeof data !== 'string') return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  const hands = Array.isArray(parsed) ? parsed : (parsed as { hands?: unknown })?.hands;
+  if (!Array.isArray(hands) || !hands.every(isHandData)) return null;
+  return hands;
+}
+
+export class WebSocketProvider implements HandTrackingProvider {
+  readonly name = 'websocket';
+  readonly needsVideo = false;
+  private url: string;
+  private socket: WebSocket | null = null;
+  private latest: HandData[] | null = null;
+  private reconnectDelay = RECONNECT_MIN;
+  private reconnectTimer: number | null = null;
+  private closed = true;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async init() {
+    this.closed = false;
+    this.connect();
+  }
+
+  private connect() {
+    if (this.closed) return;
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = RECONNECT_MIN;
+    };
+    socket.onmessage = (event) => {
+      const hands = parseMessage(event.data);
+      if (hands) {
+        this.latest = hands;
+      } else {
+        console.warn('Ignoring malformed landmark message from', this.url);
+      }
+    };
+    socket.onclose = () => {
+      this.socket = null;
+      this.latest = [];
+      if (this.closed) return;
+      this.reconnectTimer = window.setTimeout(() => this.connect(), this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX);
+    };
+  }
+
+  detect(): HandData[] | null {
+    const hands = this.latest;
+    this.latest = null;
+    return hands;
+  }
+
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.latest = null;
+  }
+}
@@ -0,0 +1,49 @@
+// Everything a gesture, motion or on-screen button can be bound to. App runs them;
+// the registry below is what the bindings editor and the buttons show.
+
+export type ActionId =
+  | 'add-box'
+  | 'add-frame'
+  | 'clear-all'
+  | 'random-colors'
+  | 'toggle-draw'
+  | 'undo'
+  | 'redo'
+  | 'arrange-grid'
+  | 'arrange-color'
+  | 'next-color'
+  | 'previous-color';
+
+// 'board' is the notes view, 'draw' is while draw mode is on
+export type InteractionMode = 'board' | 'draw';
+
+export interface ActionInfo {
+  label: string;
+  // shown on an on-screen button bound to this action
+  color: string;
+  icon?: 'plus' | 'trash' | 'palette' | 'pen';
+  // modes where the action does something, omitted for all of them
+  modes?: InteractionMode[];
+  // its button only clicks on a pinch, resting the cursor on it doesn't dwell-click
+  destructive?: boolean;
+}
+
+export const ACTIONS: Record<ActionId, ActionInfo> = {
+  'add-box': { label: 'Add Note', color: '#4ECDC4', icon: 'plus', modes: ['board'] },
+  'add-frame': { label: 'Add Frame', color: '#4ECDC4', modes: ['board'] },
+  'clear-all': { label: 'Clear All', color: '#FF6B6B', icon: 'trash', modes: ['board'], destructive: true },
+  'random-colors': { label: 'Random Colors', color: '#FFA07A', icon: 'palette', modes: ['board'] },
+  'toggle-draw': { label: 'Draw Mode', color: '#8b5cf6', icon: 'pen' },
+  undo: { label: 'Undo', color: '#6c757d' },
+  redo: { label: 'Redo', color: '#6c757d' },
+  'arrange-grid': { label: 'Tidy', color: '#45B7D1', modes: ['board'] },
+  'arrange-color': { label: 'By Color', color: '#45B7D1', modes: ['board'] },
+  'next-color': { label: 'Next Color', color: '#8b5cf6', modes: ['draw'] },
+  'previous-color': { label: 'Previous Color', color: '#8b5cf6', modes: ['draw'] },
+};
+
+export const ACTION_IDS = Object.keys(ACTIONS) as ActionId[];
+
+export function isActionId(value: unknown): value is ActionId {
+  return typeof value === 'string' && Object.hasOwn(ACTIONS, value);
+}
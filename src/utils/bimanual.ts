@@ -0,0 +1,32 @@
+import { dist } from './geometry';
+
+type Point = { x: number; y: number };
+
+export interface TwoHandTransform {
+  scale: number;
+  rotation: number; // radians
+  center: Point;
+  translation: Point;
+}
+
+// Scale/rotation/translation of the segment between two hands relative to where it started.
+// Same math as a two-finger touch gesture.
+export function twoHandTransform(startA: Point, startB: Point, a: Point, b: Point): TwoHandTransform {
+  const startDist = dist(startA, startB);
+  const currentDist = dist(a, b);
+  const startAngle = Math.atan2(startB.y - startA.y, startB.x - startA.x);
+  const angle = Math.atan2(b.y - a.y, b.x - a.x);
+  const startCenter = { x: (startA.x + startB.x) / 2, y: (startA.y + startB.y) / 2 };
+  const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+
+  let rotation = angle - startAngle;
+  if (rotation > Math.PI) rotation -= Math.PI * 2;
+  if (rotation < -Math.PI) rotation += Math.PI * 2;
+
+  return {
+    scale: startDist > 0 ? currentDist / startDist : 1,
+    rotation,
+    center,
+    translation: { x: center.x - startCenter.x, y: center.y - startCenter.y },
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_BINDINGS,
+  actionsFor,
+  buttonActions,
+  motionTrigger,
+  parseBindings,
+  sameTrigger,
+  type Binding,
+} from './bindings';
+
+const bindings: Binding[] = [
+  { trigger: { kind: 'button', slot: 0 }, action: 'add-box', mode: null },
+  { trigger: { kind: 'button', slot: 2 }, action: 'clear-all', mode: 'board' },
+  { trigger: { kind: 'button', slot: 2 }, action: 'random-colors', mode: 'draw' },
+  { trigger: { kind: 'gesture', gesture: 'thumbs_down' }, action: 'undo', mode: null },
+  { trigger: { kind: 'gesture', gesture: 'thumbs_down' }, action: 'next-color', mode: 'draw' },
+];
+
+describe('parseBindings', () => {
+  it('falls back to the defaults for anything but an object', () => {
+    expect(parseBindings(null)).toBe(DEFAULT_BINDINGS);
+    expect(parseBindings('swipe')).toBe(DEFAULT_BINDINGS);
+  });
+
+  it('keeps a valid set as it is', () => {
+    expect(parseBindings(JSON.parse(JSON.stringify(DEFAULT_BINDINGS)))).toEqual(DEFAULT_BINDINGS);
+  });
+
+  it('drops the entries it does not recognize and keeps the rest', () => {
+    const parsed = parseBindings({
+      bindings: [
+        { trigger: { kind: 'gesture', gesture: 'peace' }, action: 'undo', mode: 'draw' },
+        { trigger: { kind: 'gesture', gesture: 'wave' }, action: 'undo' },
+        { trigger: { kind: 'motion', motion: 'swipe-diagonal' }, action: 'undo' },
+        { trigger: { kind: 'button', slot: 9 }, action: 'undo' },
+        { trigger: { kind: 'button', slot: 1.5 }, action: 'undo' },
+        { trigger: { kind: 'push' }, action: 'undo' },
+        { trigger: { kind: 'motion', motion: 'push' }, action: 'launch-rocket' },
+        null,
+        { trigger: { kind: 'motion', motion: 'circle-cw' }, action: 'redo', mode: 'everywhere' },
+      ],
+    });
+    expect(parsed.bindings).toEqual([
+      { trigger: { kind: 'gesture', gesture: 'peace' }, action: 'undo', mode: 'draw' },
+      { trigger: { kind: 'motion', motion: 'circle-cw' }, action: 'redo', mode: null },
+    ]);
+  });
+
+  it('falls back per pose and to the default bindings when the list is missing', () => {
+    const parsed = parseBindings({ pointer: { click: 'peace', grab: 'wave' } });
+    expect(parsed.pointer).toEqual({ click: 'peace', grab: DEFAULT_BINDINGS.pointer.grab });
+    expect(parsed.bindings).toBe(DEFAULT_BINDINGS.bindings);
+  });
+});
+
+describe('actionsFor', () => {
+  it('returns the actions bound in this mode or in every mode', () => {
+    expect(actionsFor(bindings, { kind: 'gesture', gesture: 'thumbs_down' }, 'board')).toEqual(['undo']);
+    expect(actionsFor(bindings, { kind: 'gesture', gesture: 'thumbs_down' }, 'draw')).toEqual(['undo', 'next-color']);
+    expect(actionsFor(bindings, { kind: 'gesture', gesture: 'thumbs_up' }, 'draw')).toEqual([]);
+  });
+});
+
+describe('buttonActions', () => {
+  it('fills every slot, null where nothing is bound', () => {
+    expect(buttonActions(bindings, 'board')).toEqual(['add-box', null, 'clear-all', null]);
+    expect(buttonActions(bindings, 'draw')).toEqual(['add-box', null, 'random-colors', null]);
+  });
+});
+
+describe('motionTrigger', () => {
+  it('names swipes, circles and pushes and ignores holds', () => {
+    const at = 0;
+    const p = { x: 0.5, y: 0.5 };
+    expect(motionTrigger({ type: 'swipe', direction: 'left', from: p, to: p, size: 0.15, at })).toBe('swipe-left');
+    expect(motionTrigger({ type: 'circle', direction: 'ccw', center: p, at })).toBe('circle-ccw');
+    expect(motionTrigger({ type: 'push', position: p, at })).toBe('push');
+    expect(motionTrigger({ type: 'hold', name: 'dwell', durationMs: 1200, position: p, at })).toBeNull();
+  });
+});
+
+describe('sameTrigger', () => {
+  it('compares kind and value', () => {
+    expect(sameTrigger({ kind: 'button', slot: 1 }, { kind: 'button', slot: 1 })).toBe(true);
+    expect(sameTrigger({ kind: 'button', slot: 1 }, { kind: 'button', slot: 2 })).toBe(false);
+    expect(sameTrigger({ kind: 'motion', motion: 'push' }, { kind: 'gesture', gesture: 'push' })).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import type { MotionGestureEvent } from './motionGestures';
+import { isActionId, type ActionId, type InteractionMode } from './actions';
+import { DEFAULT_GESTURES } from './gestureDefinitions';
+import { DEFAULT_POINTER_POSES, type PointerPoses } from './gestureDetection';
+import { loadProfileData, saveProfileData } from './profileStorage';
+
+// What sets off which action, per mode. Stored as JSON in the profile, so one person can
+// undo with a thumbs down while another swipes for it.
+
+export type MotionTrigger = 'swipe-left' | 'swipe-right' | 'swipe-up' | 'swipe-down' | 'circle-cw' | 'circle-ccw' | 'push';
+
+export const MOTION_TRIGGERS: Record<MotionTrigger, string> = {
+  'swipe-left': 'Swipe left',
+  'swipe-right': 'Swipe right',
+  'swipe-up': 'Swipe up',
+  'swipe-down': 'Swipe down',
+  'circle-cw': 'Circle clockwise',
+  'circle-ccw': 'Circle counter-clockwise',
+  push: 'Push',
+};
+
+export type BindingTrigger =
+  // a static pose from gestureDefinitions, fired once when it starts
+  | { kind: 'gesture'; gesture: string }
+  | { kind: 'motion'; motion: MotionTrigger }
+  // a slot in the on-screen button column, top to bottom
+  | { kind: 'button'; slot: number };
+
+export interface Binding {
+  trigger: BindingTrigger;
+  action: ActionId;
+  // null: in every mode
+  mode: InteractionMode | null;
+}
+
+export interface BindingSet {
+  pointer: PointerPoses;
+  bindings: Binding[];
+}
+
+export const BINDINGS_KEY = 'bindings';
+export const BUTTON_SLOTS = 4;
+
+export const POSE_NAMES = DEFAULT_GESTURES.map(def => def.name);
+
+export const DEFAULT_BINDINGS: BindingSet = {
+  pointer: DEFAULT_POINTER_POSES,
+  bindings: [
+    { trigger: { kind: 'button', slot: 0 }, action: 'add-box', mode: null },
+    { trigger: { kind: 'button', slot: 1 }, action: 'clear-all', mode: null },
+    { trigger: { kind: 'button', slot: 2 }, action: 'random-colors', mode: null },
+    { trigger: { kind: 'button', slot: 3 }, action: 'toggle-draw', mode: null },
+    { trigger: { kind: 'gesture', gesture: 'thumbs_down' }, action: 'undo', mode: null },
+    { trigger: { kind: 'gesture', gesture: 'thumbs_up' }, action: 'redo', mode: null },
+    { trigger: { kind: 'motion', motion: 'swipe-right' }, action: 'next-color', mode: 'draw' },
+    { trigger: { kind: 'motion', motion: 'swipe-left' }, action: 'previous-color', mode: 'draw' },
+  ],
+};
+
+export function motionTrigger(event: MotionGestureEvent): MotionTrigger | null {
+  switch (event.type) {
+    case 'swipe':
+      return `swipe-${event.direction}`;
+    case 'circle':
+      return `circle-${event.direction}`;
+    case 'push':
+      return 'push';
+    default:
+      return null;
+  }
+}
+
+export function sameTrigger(a: BindingTrigger, b: BindingTrigger) {
+  switch (a.kind) {
+    case 'gesture':
+      return b.kind === 'gesture' && a.gesture === b.gesture;
+    case 'motion':
+      return b.kind === 'motion' && a.motion === b.motion;
+    case 'button':
+      return b.kind === 'button' && a.slot === b.slot;
+  }
+}
+
+export function triggerLabel(trigger: BindingTrigger) {
+  switch (trigger.kind) {
+    case 'gesture':
+      return trigger.gesture.replace('_', ' ');
+    case 'motion':
+      return MOTION_TRIGGERS[trigger.motion];
+    case 'button':
+      return `Button ${trigger.slot + 1}`;
+  }
+}
+
+export function actionsFor(bindings: Binding[], trigger: BindingTrigger, mode: InteractionMode): ActionId[] {
+  return bindings
+    .filter(b => (b.mode === null || b.mode === mode) && sameTrigger(b.trigger, trigger))
+    .map(b => b.action);
+}
+
+// The action each on-screen button runs in this mode, null for an unbound slot
+export function buttonActions(bindings: Binding[], mode: InteractionMode): (ActionId | null)[] {
+  return Array.from({ length: BUTTON_SLOTS }, (_, slot) => actionsFor(bindings, { kind: 'button', slot }, mode)[0] ?? null);
+}
+
+function parseTrigger(value: unknown): BindingTrigger | null {
+  if (!value || typeof value !== 'object') return null;
+  const trigger = value as Record<string, unknown>;
+  if (trigger.kind === 'gesture' && typeof trigger.gesture === 'string' && POSE_NAMES.includes(trigger.gesture)) {
+    return { kind: 'gesture', gesture: trigger.gesture };
+  }
+  if (trigger.kind === 'motion' && typeof trigger.motion === 'string' && Object.hasOwn(MOTION_TRIGGERS, trigger.motion)) {
+    return { kind: 'motion', motion: trigger.motion as MotionTrigger };
+  }
+  if (trigger.kind === 'button' && Number.isInteger(trigger.slot) && (trigger.slot as number) >= 0 && (trigger.slot as number) < BUTTON_SLOTS) {
+    return { kind: 'button', slot: trigger.slot as number };
+  }
+  return null;
+}
+
+// Hand-edited or older JSON: anything unrecognized is dropped rather than failing the whole set
+export function parseBindings(value: unknown): BindingSet {
+  if (!value || typeof value !== 'object') return DEFAULT_BINDINGS;
+  const { pointer, bindings } = value as Partial<Record<keyof BindingSet, unknown>>;
+  const poses = (pointer ?? {}) as Partial<Record<keyof PointerPoses, unknown>>;
+  const pose = (name: unknown, fallback: string) => (typeof name === 'string' && POSE_NAMES.includes(name) ? name : fallback);
+
+  return {
+    pointer: {
+      click: pose(poses.click, DEFAULT_POINTER_POSES.click),
+      grab: pose(poses.grab, DEFAULT_POINTER_POSES.grab),
+    },
+    bindings: Array.isArray(bindings)
+      ? bindings.flatMap(raw => {
+        const binding = (raw ?? {}) as Record<string, unknown>;
+        const trigger = parseTrigger(binding.trigger);
+        const mode = binding.mode === 'board' || binding.mode === 'draw' ? binding.mode : null;
+        return trigger && isActionId(binding.action) ? [{ trigger, action: binding.action, mode }] : [];
+      })
+      : DEFAULT_BINDINGS.bindings,
+  };
+}
+
+export function loadBindings(profile?: string): BindingSet {
+  const saved = loadProfileData<unknown>(BINDINGS_KEY, profile);
+  return saved === null ? DEFAULT_BINDINGS : parseBindings(saved);
+}
+
+export function saveBindings(bindings: BindingSet, profile?: string) {
+  saveProfileData(BINDINGS_KEY, bindings, profile);
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { DraggableBox } from '../components/InteractiveElements';
+import type { DrawStroke } from '../components/DrawingCanvas';
+import type { Connector } from './connectors';
+import { BOARD_FORMAT, BOARD_VERSION, boardBounds, parseBoard, serializeBoard } from './boardExport';
+
+const box: DraggableBox = { id: 1, x: 10, y: 20, width: 200, height: 100, color: '#FF6B6B', label: 'Note 1', text: 'hello' };
+const stroke: DrawStroke = { points: [{ x: 0, y: 0, color: '#000000', size: 4 }, { x: 50, y: 50, color: '#000000', size: 4 }], color: '#000000', size: 4 };
+
+const other: DraggableBox = { ...box, id: 2, x: 300, label: 'Note 2' };
+const link: Connector = { id: 1, from: 1, to: 2 };
+
+const board = { name: 'Board', boxes: [box, other], strokes: [stroke], connectors: [link] };
+
+// an exported document with one field swapped out
+const withField = (key: string, value: unknown) => JSON.stringify({ ...JSON.parse(serializeBoard(board)), [key]: value });
+
+describe('parseBoard', () => {
+  it('reads back what serializeBoard wrote', () => {
+    const doc = parseBoard(serializeBoard(board, new Date(0)));
+    expect(doc).toEqual({ format: BOARD_FORMAT, version: BOARD_VERSION, exportedAt: new Date(0).toISOString(), ...board });
+  });
+
+  it('fills in a missing name and stroke point styles', () => {
+    const bare = { ...stroke, points: [{ x: 1, y: 2 }] };
+    const doc = parseBoard(JSON.stringify({ format: BOARD_FORMAT, version: 1, name: ' ', boxes: [], strokes: [bare] }));
+    expect(doc.name).toBe('Imported Board');
+    expect(doc.connectors).toEqual([]);
+    expect(doc.strokes[0].points).toEqual([{ x: 1, y: 2, color: '#000000', size: 4 }]);
+  });
+
+  it('rejects documents that are not boards', () => {
+    expect(() => parseBoard('{')).toThrow(/^Not valid JSON/);
+    expect(() => parseBoard('[]')).toThrow('document: expected an object');
+    expect(() => parseBoard(withField('format', 'other'))).toThrow(`format: expected "${BOARD_FORMAT}"`);
+    expect(() => parseBoard(withField('version', '1'))).toThrow('version: expected a number');
+    expect(() => parseBoard(withField('version', BOARD_VERSION + 1))).toThrow('newer than supported');
+    expect(() => parseBoard(withField('boxes', {}))).toThrow('boxes: expected an array');
+    expect(() => parseBoard(withField('strokes', null))).toThrow('strokes: expected an array');
+  });
+
+  it('names the first bad note field', () => {
+    expect(() => parseBoard(withField('boxes', [null]))).toThrow('boxes[0]: expected an object');
+    expect(() => parseBoard(withField('boxes', [{ ...box, id: 1.5 }]))).toThrow('boxes[0].id: expected an integer');
+    expect(() => parseBoard(withField('boxes', [{ ...box, x: 'left' }]))).toThrow('boxes[0].x: expected a number');
+    expect(() => parseBoard(withField('boxes', [{ ...box, width: 0 }]))).toThrow('boxes[0]: size must be positive');
+    expect(() => parseBoard(withField('boxes', [{ ...box, text: 3 }]))).toThrow('boxes[0].text: expected a string');
+    expect(() => parseBoard(withField('boxes', [{ ...box, rotation: null }]))).toThrow('boxes[0].rotation: expected a number');
+    expect(() => parseBoard(withField('boxes', [{ ...box, kind: 'poem' }]))).toThrow('boxes[0].kind: expected one of');
+    expect(() => parseBoard(withField('boxes', [{ ...box, z: '1' }]))).toThrow('boxes[0].z: expected a number');
+    expect(() => parseBoard(withField('boxes', [box, { ...box }]))).toThrow('boxes: note ids must be unique');
+  });
+
+  it('names the first bad connector field', () => {
+    expect(() => parseBoard(withField('connectors', {}))).toThrow('connectors: expected an array');
+    expect(() => parseBoard(withField('connectors', [{ ...link, to: '2' }]))).toThrow('connectors[0].to: expected an integer');
+    expect(() => parseBoard(withField('connectors', [{ ...link, to: 3 }]))).toThrow('connectors[0].to: no note with id 3');
+    expect(() => parseBoard(withField('connectors', [{ ...link, to: 1 }]))).toThrow('connectors[0]: a connector needs two different notes');
+    expect(() => parseBoard(withField('connectors', [link, { ...link, from: 2, to: 1 }]))).toThrow('connectors: connector ids must be unique');
+  });
+
+  it('names the first bad stroke field', () => {
+    expect(() => parseBoard(withField('strokes', [{ ...stroke, size: -1 }]))).toThrow('strokes[0].size: expected a positive number');
+    expect(() => parseBoard(withField('strokes', [{ ...stroke, points: 'none' }]))).toThrow('strokes[0].points: expected an array');
+    expect(() => parseBoard(withField('strokes', [{ ...stroke, points: [{ x: 1 }] }]))).toThrow('strokes[0].points[0]: expected numeric x and y');
+  });
+});
+
+describe('boardBounds', () => {
+  it('pads content by the stroke width and the page margin', () => {
+    const bounds = boardBounds({ boxes: [], strokes: [stroke] });
+    expect(bounds.x).toBe(-2 - 24);
+    expect(bounds.width).toBe(54 + 48);
+  });
+
+  it('has a default page for an empty board', () => {
+    expect(boardBounds({ boxes: [], strokes: [] })).toEqual({ x: 0, y: 0, width: 800, height: 600 });
+  });
+});
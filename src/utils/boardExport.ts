@@ -0,0 +1,283 @@
+import type { DraggableBox, NoteKind } from '../components/InteractiveElements';
+import type { DrawStroke, ShapeKind } from '../components/DrawingCanvas';
+import { SHAPE_KINDS } from './drawingTools';
+import { inkOutlinePath, polylinePath } from './ink';
+import { parseChecklist } from './markdown';
+import { NOTE_KINDS, isFrame, noteZ } from './notes';
+import { arrowHead, connectorEnds, pruneConnectors, type Connector } from './connectors';
+
+export const BOARD_FORMAT = 'camerahandapp-board';
+// 2 added connectors; version 1 files import without any
+export const BOARD_VERSION = 2;
+
+export interface BoardDocument {
+  format: typeof BOARD_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  boxes: DraggableBox[];
+  strokes: DrawStroke[];
+  connectors: Connector[];
+}
+
+export interface BoardContent {
+  name: string;
+  boxes: DraggableBox[];
+  strokes: DrawStroke[];
+  connectors: Connector[];
+}
+
+// matches the page background behind the board
+const BACKGROUND = '#0f172a';
+const PADDING = 24;
+const NOTE_LABEL_SIZE = 12;
+const NOTE_TEXT_SIZE = 20;
+const NOTE_LINE_HEIGHT = 1.5;
+const CONNECTOR_COLOR = '#e0e0e0';
+
+export function serializeBoard(board: BoardContent, exportedAt = new Date()): string {
+  const doc: BoardDocument = {
+    format: BOARD_FORMAT,
+    version: BOARD_VERSION,
+    name: board.name,
+    exportedAt: exportedAt.toISOString(),
+    boxes: board.boxes,
+    strokes: board.strokes,
+    connectors: pruneConnectors(board.connectors, board.boxes),
+  };
+  return JSON.stringify(doc, null, 2);
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+function expect(condition: boolean, path: string, message: string): asserts condition {
+  if (!condition) throw new Error(`${path}: ${message}`);
+}
+
+function validateBox(value: unknown, path: string): DraggableBox {
+  expect(isObject(value), path, 'expected an object');
+  expect(Number.isInteger(value.id), `${path}.id`, 'expected an integer');
+  for (const key of ['x', 'y', 'width', 'height'] as const) {
+    expect(isFiniteNumber(value[key]), `${path}.${key}`, 'expected a number');
+  }
+  expect((value.width as number) > 0 && (value.height as number) > 0, path, 'size must be positive');
+  for (const key of ['color', 'label', 'text'] as const) {
+    expect(typeof value[key] === 'string', `${path}.${key}`, 'expected a string');
+  }
+  expect(value.rotation === undefined || isFiniteNumber(value.rotation), `${path}.rotation`, 'expected a number');
+  expect(value.kind === undefined || NOTE_KINDS.includes(value.kind as NoteKind), `${path}.kind`, `expected one of ${NOTE_KINDS.join(', ')}`);
+  expect(value.z === undefined || isFiniteNumber(value.z), `${path}.z`, 'expected a number');
+  return value as unknown as DraggableBox;
+}
+
+function validateStroke(value: unknown, path: string): DrawStroke {
+  expect(isObject(value), path, 'expected an object');
+  expect(typeof value.color === 'string', `${path}.color`, 'expected a string');
+  expect(isFiniteNumber(value.size) && value.size > 0, `${path}.size`, 'expected a positive number');
+  expect(value.shape === undefined || SHAPE_KINDS.includes(value.shape as ShapeKind), `${path}.shape`, `expected one of ${SHAPE_KINDS.join(', ')}`);
+  expect(Array.isArray(value.points), `${path}.points`, 'expected an array');
+  const points = (value.points as unknown[]).map((point, i) => {
+    const at = `${path}.points[${i}]`;
+    expect(isObject(point), at, 'expected an object');
+    expect(isFiniteNumber(point.x) && isFiniteNumber(point.y), at, 'expected numeric x and y');
+    return {
+      x: point.x,
+      y: point.y,
+      color: typeof point.color === 'string' ? point.color : value.color as string,
+      size: isFiniteNumber(point.size) ? point.size : value.size as number,
+    };
+  });
+  return { ...value, points } as DrawStroke;
+}
+
+function validateConnector(value: unknown, path: string, noteIds: Set<number>): Connector {
+  expect(isObject(value), path, 'expected an object');
+  for (const key of ['id', 'from', 'to'] as const) {
+    expect(Number.isInteger(value[key]), `${path}.${key}`, 'expected an integer');
+  }
+  expect(noteIds.has(value.from as number), `${path}.from`, `no note with id ${value.from}`);
+  expect(noteIds.has(value.to as number), `${path}.to`, `no note with id ${value.to}`);
+  expect(value.from !== value.to, path, 'a connector needs two different notes');
+  return { id: value.id as number, from: value.from as number, to: value.to as number };
+}
+
+// Validates an exported board and throws an Error naming the first bad field
+export function parseBoard(text: string): BoardDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  expect(isObject(raw), 'document', 'expected an object');
+  expect(raw.format === BOARD_FORMAT, 'format', `expected "${BOARD_FORMAT}"`);
+  expect(isFiniteNumber(raw.version), 'version', 'expected a number');
+  expect(raw.version <= BOARD_VERSION, 'version', `${raw.version} is newer than supported (${BOARD_VERSION})`);
+  expect(Array.isArray(raw.boxes), 'boxes', 'expected an array');
+  expect(Array.isArray(raw.strokes), 'strokes', 'expected an array');
+  expect(raw.connectors === undefined || Array.isArray(raw.connectors), 'connectors', 'expected an array');
+
+  const boxes = (raw.boxes as unknown[]).map((box, i) => validateBox(box, `boxes[${i}]`));
+  const ids = new Set(boxes.map(b => b.id));
+  expect(ids.size === boxes.length, 'boxes', 'note ids must be unique');
+  const strokes = (raw.strokes as unknown[]).map((stroke, i) => validateStroke(stroke, `strokes[${i}]`));
+  const connectors = ((raw.connectors ?? []) as unknown[]).map((connector, i) => validateConnector(connector, `connectors[${i}]`, ids));
+  expect(new Set(connectors.map(c => c.id)).size === connectors.length, 'connectors', 'connector ids must be unique');
+
+  return {
+    format: BOARD_FORMAT,
+    version: raw.version,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : 'Imported Board',
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : new Date().toISOString(),
+    boxes,
+    strokes,
+    connectors,
+  };
+}
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function rotatedCorners(box: DraggableBox) {
+  const angle = ((box.rotation ?? 0) * Math.PI) / 180;
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => {
+    const dx = (sx * box.width) / 2;
+    const dy = (sy * box.height) / 2;
+    return { x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos };
+  });
+}
+
+// content bounds plus padding, so exports aren't tied to the window they came from
+export function boardBounds(board: Pick<BoardContent, 'boxes' | 'strokes'>): Bounds {
+  // r pads stroke points by half the ink width
+  const points = [
+    ...board.boxes.flatMap(box => rotatedCorners(box).map(p => ({ ...p, r: 0 }))),
+    ...board.strokes.flatMap(s => s.points.map(p => ({ x: p.x, y: p.y, r: p.size / 2 }))),
+  ];
+  if (points.length === 0) {
+    return { x: 0, y: 0, width: 800, height: 600 };
+  }
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  points.forEach(({ x, y, r }) => {
+    minX = Math.min(minX, x - r);
+    minY = Math.min(minY, y - r);
+    maxX = Math.max(maxX, x + r);
+    maxY = Math.max(maxY, y + r);
+  });
+  return {
+    x: Math.floor(minX - PADDING),
+    y: Math.floor(minY - PADDING),
+    width: Math.ceil(maxX - minX + PADDING * 2),
+    height: Math.ceil(maxY - minY + PADDING * 2),
+  };
+}
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (v: number) => Math.round(v * 100) / 100;
+
+function frameSvg(box: DraggableBox): string {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const transform = box.rotation ? ` transform="rotate(${round(box.rotation)} ${round(cx)} ${round(cy)})"` : '';
+  return [
+    `<g${transform}>`,
+    `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" rx="8" fill="${escapeXml(box.color)}" fill-opacity="0.15" stroke="${escapeXml(box.color)}" stroke-width="2" stroke-dasharray="8 6" />`,
+    `<text x="${round(box.x + 12)}" y="${round(box.y + 8 + NOTE_LABEL_SIZE)}" font-family="Arial, sans-serif" font-size="${NOTE_LABEL_SIZE}" font-weight="bold" fill="${escapeXml(box.color)}">${escapeXml(box.text || box.label)}</text>`,
+    '</g>',
+  ].join('');
+}
+
+function connectorSvg(connector: Connector, boxes: DraggableBox[]): string {
+  const ends = connectorEnds(connector, boxes);
+  if (!ends) return '';
+  const { start, end } = ends;
+  const head = arrowHead(start, end).map(p => `${round(p.x)},${round(p.y)}`).join(' ');
+  return [
+    `<line x1="${round(start.x)}" y1="${round(start.y)}" x2="${round(end.x)}" y2="${round(end.y)}" stroke="${CONNECTOR_COLOR}" stroke-width="2" />`,
+    `<polygon points="${head}" fill="${CONNECTOR_COLOR}" />`,
+  ].join('');
+}
+
+function noteSvg(box: DraggableBox): string {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const transform = box.rotation ? ` transform="rotate(${round(box.rotation)} ${round(cx)} ${round(cy)})"` : '';
+  const lineHeight = NOTE_TEXT_SIZE * NOTE_LINE_HEIGHT;
+  const lines = box.kind === 'checklist'
+    ? parseChecklist(box.text).map(item => `${item.done ? '☑' : '☐'} ${item.text}`)
+    : box.text.split('\n');
+  const clipId = `note-${box.id}`;
+
+  return [
+    `<g${transform}>`,
+    `<clipPath id="${clipId}"><rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" /></clipPath>`,
+    `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" rx="4" fill="${escapeXml(box.color)}" />`,
+    `<g clip-path="url(#${clipId})" font-family="Arial, sans-serif">`,
+    `<text x="${round(box.x + 12)}" y="${round(box.y + 8 + NOTE_LABEL_SIZE)}" font-size="${NOTE_LABEL_SIZE}" font-weight="bold" fill="#666">${escapeXml(box.label)}</text>`,
+    `<text x="${round(box.x + 12)}" y="${round(box.y + 28 + 12 + NOTE_TEXT_SIZE)}" font-size="${NOTE_TEXT_SIZE}" fill="#333">`,
+    ...lines.map((line, i) => `<tspan x="${round(box.x + 12)}" dy="${i === 0 ? 0 : lineHeight}">${escapeXml(line)}</tspan>`),
+    '</text>',
+    '</g>',
+    '</g>',
+  ].join('');
+}
+
+export function boardToSvg(board: BoardContent): string {
+  const bounds = boardBounds(board);
+  const strokes = board.strokes
+    .filter(s => s.points.length > 0)
+    .map(s => s.shape
+      ? `<path d="${polylinePath(s.points)}" fill="none" stroke="${escapeXml(s.color)}" stroke-width="${round(s.size)}" stroke-linecap="round" stroke-linejoin="round" />`
+      : `<path d="${inkOutlinePath(s.points)}" fill="${escapeXml(s.color)}" />`);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${bounds.width}" height="${bounds.height}" viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}">`,
+    `<title>${escapeXml(board.name)}</title>`,
+    `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="${BACKGROUND}" />`,
+    ...strokes,
+    // frames, then connectors, then notes, as on screen
+    ...board.boxes.filter(isFrame).sort((a, b) => noteZ(a) - noteZ(b)).map(frameSvg),
+    ...board.connectors.map(c => connectorSvg(c, board.boxes)).filter(Boolean),
+    ...board.boxes.filter(box => !isFrame(box)).sort((a, b) => noteZ(a) - noteZ(b)).map(noteSvg),
+    '</svg>',
+  ].join('\n');
+}
+
+// rasterizes the SVG export, so both formats always match
+export function boardToPng(board: BoardContent, scale = window.devicePixelRatio || 1): Promise<Blob> {
+  const svg = boardToSvg(board);
+  const { width, height } = boardBounds(board);
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Failed to render board SVG'));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMapping,
+  createCalibration,
+  mapToViewport,
+  scaleReach,
+  solveAffine,
+  solveHomography,
+  type CalibrationPoint,
+  type Point2D,
+} from './calibration';
+
+// the active box the wizard targets: the middle of the camera frame fills the screen
+const toScreen = (p: Point2D) => ({ x: (p.x - 0.25) * 2, y: (p.y - 0.2) * 2.5 });
+const corners: Point2D[] = [
+  { x: 0.25, y: 0.2 },
+  { x: 0.75, y: 0.2 },
+  { x: 0.75, y: 0.6 },
+  { x: 0.25, y: 0.6 },
+  { x: 0.5, y: 0.4 },
+];
+const points: CalibrationPoint[] = corners.map(camera => ({ camera, screen: toScreen(camera) }));
+
+const expectPoint = (actual: Point2D, expected: Point2D) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+};
+
+describe('solveAffine', () => {
+  it('recovers the mapping the points were taken from', () => {
+    const mapping = solveAffine(points)!;
+    expect(mapping.type).toBe('affine');
+    expectPoint(applyMapping(mapping, { x: 0.4, y: 0.3 }), toScreen({ x: 0.4, y: 0.3 }));
+  });
+
+  it('needs three points that are not on one line', () => {
+    expect(solveAffine(points.slice(0, 2))).toBeNull();
+    const collinear = [0.2, 0.4, 0.6].map(v => ({ camera: { x: v, y: v }, screen: { x: v, y: v } }));
+    expect(solveAffine(collinear)).toBeNull();
+  });
+});
+
+describe('solveHomography', () => {
+  it('recovers a perspective mapping from four points', () => {
+    // a camera looking up at the user: the top of the box is narrower than the bottom
+    const quad: CalibrationPoint[] = [
+      { camera: { x: 0.35, y: 0.2 }, screen: { x: 0, y: 0 } },
+      { camera: { x: 0.65, y: 0.2 }, screen: { x: 1, y: 0 } },
+      { camera: { x: 0.8, y: 0.7 }, screen: { x: 1, y: 1 } },
+      { camera: { x: 0.2, y: 0.7 }, screen: { x: 0, y: 1 } },
+    ];
+    const mapping = solveHomography(quad)!;
+    expect(mapping.type).toBe('perspective');
+    quad.forEach(p => expectPoint(applyMapping(mapping, p.camera), p.screen));
+  });
+
+  it('fits more than four points by least squares', () => {
+    const mapping = solveHomography(points)!;
+    expectPoint(applyMapping(mapping, { x: 0.6, y: 0.5 }), toScreen({ x: 0.6, y: 0.5 }));
+  });
+
+  it('needs four points', () => {
+    expect(solveHomography(points.slice(0, 3))).toBeNull();
+  });
+});
+
+describe('mapToViewport', () => {
+  it('mirrors the raw landmark without a calibration', () => {
+    expect(mapToViewport(null, { x: 0.2, y: 0.7 })).toEqual({ x: 0.8, y: 0.7 });
+  });
+
+  it('maps through the calibration and clamps to the screen', () => {
+    const calibration = createCalibration(points, 'affine')!;
+    // raw landmarks are unmirrored, camera x 0.4 is raw x 0.6
+    expectPoint(mapToViewport(calibration, { x: 0.6, y: 0.3 }), toScreen({ x: 0.4, y: 0.3 }));
+    expect(mapToViewport(calibration, { x: 0.95, y: 0.05 })).toEqual({ x: 0, y: 0 });
+  });
+
+  it('slows the middle of the screen down and keeps the edges with acceleration', () => {
+    const calibration = createCalibration(points, 'affine', 2)!;
+    const near = mapToViewport(calibration, { x: 0.45, y: 0.4 });
+    expect(near.x).toBeGreaterThan(0.5);
+    expect(near.x).toBeLessThan(toScreen({ x: 0.55, y: 0.4 }).x);
+    expectPoint(mapToViewport(calibration, { x: 0.5, y: 0.4 }), { x: 0.5, y: 0.5 });
+    expectPoint(mapToViewport(calibration, { x: 0.25, y: 0.6 }), { x: 1, y: 1 });
+  });
+});
+
+describe('createCalibration', () => {
+  it('returns null when the points do not pin down a mapping', () => {
+    expect(createCalibration(points.slice(0, 3), 'perspective')).toBeNull();
+    expect(createCalibration(points, 'perspective')?.mapping.type).toBe('perspective');
+  });
+
+  it('keeps the hand size it was made at', () => {
+    expect(createCalibration(points, 'affine', 1, 0.12)?.handScale).toBe(0.12);
+    expect(createCalibration(points, 'affine')?.handScale).toBeUndefined();
+  });
+});
+
+describe('scaleReach', () => {
+  it('stretches reach around the frame center for a smaller hand', () => {
+    const reached = scaleReach({ x: 0.6, y: 0.3 }, 0.1, 0.2);
+    expect(reached.x).toBeCloseTo(0.7);
+    expect(reached.y).toBeCloseTo(0.1);
+    expect(scaleReach({ x: 0.6, y: 0.3 }, 0.2, 0.2)).toEqual({ x: 0.6, y: 0.3 });
+  });
+
+  it('clamps the gain so a bad size reading cannot fling the cursor', () => {
+    expect(scaleReach({ x: 0.6, y: 0.5 }, 0.01, 0.2).x).toBeCloseTo(0.75);
+    expect(scaleReach({ x: 0.6, y: 0.5 }, 1, 0.2).x).toBeCloseTo(0.55);
+  });
+
+  it('leaves the landmark alone without a usable size', () => {
+    const landmark = { x: 0.9, y: 0.1 };
+    expect(scaleReach(landmark, 0, 0.2)).toBe(landmark);
+    expect(scaleReach(landmark, NaN, 0.2)).toBe(landmark);
+  });
+});
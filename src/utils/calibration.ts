@@ -0,0 +1,159 @@
+import { REFERENCE_HAND_SCALE } from './gestureEngine';
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+// camera: mirrored normalized fingertip (1 - x, y), screen: normalized viewport position
+export interface CalibrationPoint {
+  camera: Point2D;
+  screen: Point2D;
+}
+
+export type CameraMapping =
+  | { type: 'affine'; m: number[] } // [a, b, c, d, e, f]: x' = ax + by + c, y' = dx + ey + f
+  | { type: 'perspective'; h: number[] }; // row-major 3x3 homography, h[8] = 1
+
+export interface Calibration {
+  mapping: CameraMapping;
+  // 1 = linear; above 1 gives finer control near the middle of the screen, below 1 reaches the edges sooner
+  acceleration: number;
+  // hand size (see handScale) while calibrating; reach is normalized back to it
+  handScale?: number;
+  createdAt: string;
+}
+
+export const CALIBRATION_KEY = 'calibration';
+
+// Gaussian elimination with partial pivoting, returns null for singular systems
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) {
+        m[r][c] -= f * m[col][c];
+      }
+    }
+  }
+
+  return m.map((row, i) => row[n] / row[i]);
+}
+
+// least squares via the normal equations (AᵀA)x = Aᵀb
+function leastSquares(rows: number[][], rhs: number[]): number[] | null {
+  const n = rows[0].length;
+  const ata = Array.from({ length: n }, () => new Array(n).fill(0));
+  const atb = new Array(n).fill(0);
+  rows.forEach((row, r) => {
+    for (let i = 0; i < n; i++) {
+      atb[i] += row[i] * rhs[r];
+      for (let j = 0; j < n; j++) {
+        ata[i][j] += row[i] * row[j];
+      }
+    }
+  });
+  return solveLinear(ata, atb);
+}
+
+export function solveAffine(points: CalibrationPoint[]): CameraMapping | null {
+  if (points.length < 3) return null;
+  const rows = points.map(p => [p.camera.x, p.camera.y, 1]);
+  const xs = leastSquares(rows, points.map(p => p.screen.x));
+  const ys = leastSquares(rows, points.map(p => p.screen.y));
+  if (!xs || !ys) return null;
+  return { type: 'affine', m: [...xs, ...ys] };
+}
+
+export function solveHomography(points: CalibrationPoint[]): CameraMapping | null {
+  if (points.length < 4) return null;
+  const rows: number[][] = [];
+  const rhs: number[] = [];
+  points.forEach(({ camera: { x, y }, screen: { x: u, y: v } }) => {
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    rhs.push(u);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    rhs.push(v);
+  });
+  const h = rows.length === 8 ? solveLinear(rows, rhs) : leastSquares(rows, rhs);
+  if (!h) return null;
+  return { type: 'perspective', h: [...h, 1] };
+}
+
+export function applyMapping(mapping: CameraMapping, p: Point2D): Point2D {
+  if (mapping.type === 'affine') {
+    const [a, b, c, d, e, f] = mapping.m;
+    return { x: a * p.x + b * p.y + c, y: d * p.x + e * p.y + f };
+  }
+  const h = mapping.h;
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  if (Math.abs(w) < 1e-9) return { x: 0.5, y: 0.5 };
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+}
+
+function accelerate(v: number, exponent: number) {
+  const offset = (v - 0.5) * 2;
+  return 0.5 + Math.sign(offset) * Math.pow(Math.abs(offset), exponent) / 2;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// past these a noisy size reading would throw the cursor around
+const MIN_REACH_GAIN = 0.5;
+const MAX_REACH_GAIN = 2.5;
+
+// Scales a landmark's offset from the frame center by reference / current hand size, so
+// the same arm movement covers the same part of the screen whether the user sits close
+// or leans back. The frame center stands in for the user's shoulder.
+export function scaleReach(landmark: Point2D, scale: number, reference: number): Point2D {
+  if (!(scale > 0)) return landmark;
+  const gain = Math.max(MIN_REACH_GAIN, Math.min(MAX_REACH_GAIN, reference / scale));
+  return { x: 0.5 + (landmark.x - 0.5) * gain, y: 0.5 + (landmark.y - 0.5) * gain };
+}
+
+// Normalized viewport position for a raw (unmirrored) landmark. Without a calibration
+// this is the plain mirrored camera position the cursor always used.
+export function mapToViewport(calibration: Calibration | null, landmark: Point2D): Point2D {
+  const camera = { x: 1 - landmark.x, y: landmark.y };
+  if (!calibration) return camera;
+
+  const mapped = applyMapping(calibration.mapping, camera);
+  const x = clamp01(mapped.x);
+  const y = clamp01(mapped.y);
+  if (calibration.acceleration === 1) return { x, y };
+  return { x: accelerate(x, calibration.acceleration), y: accelerate(y, calibration.acceleration) };
+}
+
+// Where the cursor puts a raw landmark, in screen px. Anything that hit-tests a hand
+// position against the page goes through here too, so it lands where the cursor does.
+// With a handSize the reach is normalized against the size calibration was done at.
+export function landmarkToScreen(calibration: Calibration | null, landmark: Point2D, handSize: number | null = null): Point2D {
+  const reached = handSize === null ? landmark : scaleReach(landmark, handSize, calibration?.handScale ?? REFERENCE_HAND_SCALE);
+  const p = mapToViewport(calibration, reached);
+  return { x: p.x * window.innerWidth, y: p.y * window.innerHeight };
+}
+
+export function createCalibration(
+  points: CalibrationPoint[],
+  type: CameraMapping['type'],
+  acceleration = 1,
+  handScale?: number,
+): Calibration | null {
+  const mapping = type === 'perspective' ? solveHomography(points) : solveAffine(points);
+  if (!mapping) return null;
+  return { mapping, acceleration, handScale, createdAt: new Date().toISOString() };
+}
@@ -0,0 +1,64 @@
+import type { Rect } from './geometry';
+
+// World point shown at the viewport's top-left corner, and css pixels per world unit.
+// Notes and strokes are stored in world coordinates; screen = (world - camera) * zoom.
+export interface Camera {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 4;
+export const DEFAULT_CAMERA: Camera = { x: 0, y: 0, zoom: 1 };
+const FIT_PADDING = 40;
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+export function worldToScreen(camera: Camera, p: Point): Point {
+  return { x: (p.x - camera.x) * camera.zoom, y: (p.y - camera.y) * camera.zoom };
+}
+
+export function screenToWorld(camera: Camera, p: Point): Point {
+  return { x: p.x / camera.zoom + camera.x, y: p.y / camera.zoom + camera.y };
+}
+
+// screen-space drag, so the board follows the hand one to one
+export function panBy(camera: Camera, dx: number, dy: number): Camera {
+  return { ...camera, x: camera.x - dx / camera.zoom, y: camera.y - dy / camera.zoom };
+}
+
+// Scales around a screen point, which stays over the same world point
+export function zoomAt(camera: Camera, screen: Point, factor: number): Camera {
+  const zoom = clampZoom(camera.zoom * factor);
+  const anchor = screenToWorld(camera, screen);
+  return { zoom, x: anchor.x - screen.x / zoom, y: anchor.y - screen.y / zoom };
+}
+
+export function centerOn(camera: Camera, world: Point, viewport: { width: number; height: number }): Camera {
+  return { ...camera, x: world.x - viewport.width / 2 / camera.zoom, y: world.y - viewport.height / 2 / camera.zoom };
+}
+
+// The camera that shows all of `bounds`, never zooming in past 1:1
+export function fitBounds(bounds: Rect, viewport: { width: number; height: number }, padding = FIT_PADDING): Camera {
+  const zoom = clampZoom(Math.min(
+    1,
+    (viewport.width - padding * 2) / Math.max(1, bounds.width),
+    (viewport.height - padding * 2) / Math.max(1, bounds.height),
+  ));
+  return centerOn({ x: 0, y: 0, zoom }, { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }, viewport);
+}
+
+// the part of the world the viewport shows
+export function visibleRect(camera: Camera, viewport: { width: number; height: number }): Rect {
+  return { x: camera.x, y: camera.y, width: viewport.width / camera.zoom, height: viewport.height / camera.zoom };
+}
+
+export function sameCamera(a: Camera, b: Camera) {
+  return a.x === b.x && a.y === b.y && a.zoom === b.zoom;
+}
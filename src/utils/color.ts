@@ -0,0 +1,62 @@
+export interface Hsv {
+  h: number; // degrees, 0-360
+  s: number; // 0-1
+  v: number; // 0-1
+}
+
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const hex2 = (v: number) => Math.round(v).toString(16).padStart(2, '0');
+
+// accepts #rgb, #rrggbb and #rrggbbaa, anything else is null
+export function parseHex(color: string): (Rgb & { a: number }) | null {
+  const m = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(color.trim());
+  if (!m) return null;
+  const digits = m[1].length === 3 ? [...m[1]].map(c => c + c).join('') : m[1];
+  const byte = (i: number) => parseInt(digits.slice(i, i + 2), 16);
+  return { r: byte(0), g: byte(2), b: byte(4), a: digits.length === 8 ? byte(6) / 255 : 1 };
+}
+
+export function hsvToHex({ h, s, v }: Hsv): string {
+  const f = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return `#${hex2(f(5) * 255)}${hex2(f(3) * 255)}${hex2(f(1) * 255)}`;
+}
+
+export function hexToHsv(color: string): Hsv {
+  const rgb = parseHex(color) ?? { r: 0, g: 0, b: 0 };
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+  }
+  return { h: (h * 60 + 360) % 360, s: max === 0 ? 0 : delta / max, v: max };
+}
+
+// Strokes keep opacity in the color itself as #rrggbbaa so canvas and SVG export agree
+export function withOpacity(color: string, opacity: number): string {
+  const rgb = parseHex(color);
+  if (!rgb) return color;
+  const base = `#${hex2(rgb.r)}${hex2(rgb.g)}${hex2(rgb.b)}`;
+  return opacity >= 1 ? base : `${base}${hex2(clamp01(opacity) * 255)}`;
+}
+
+export function splitOpacity(color: string): { color: string; opacity: number } {
+  const rgb = parseHex(color);
+  if (!rgb) return { color, opacity: 1 };
+  return { color: `#${hex2(rgb.r)}${hex2(rgb.g)}${hex2(rgb.b)}`, opacity: rgb.a };
+}
@@ -0,0 +1,64 @@
+import type { DraggableBox } from '../components/InteractiveElements';
+import type { Rect } from './geometry';
+import { nextId } from './ids';
+
+// An arrow from one note to another. Immutable once made, like strokes.
+export interface Connector {
+  id: number;
+  from: number; // note ids
+  to: number;
+}
+
+type Point = { x: number; y: number };
+
+const center = (r: Rect): Point => ({ x: r.x + r.width / 2, y: r.y + r.height / 2 });
+
+// Where the line from the rect's center toward `toward` leaves the rect
+export function edgePoint(r: Rect, toward: Point): Point {
+  const c = center(r);
+  const dx = toward.x - c.x;
+  const dy = toward.y - c.y;
+  if (dx === 0 && dy === 0) return c;
+  const scale = Math.min(
+    dx !== 0 ? r.width / 2 / Math.abs(dx) : Infinity,
+    dy !== 0 ? r.height / 2 / Math.abs(dy) : Infinity,
+  );
+  return { x: c.x + dx * Math.min(1, scale), y: c.y + dy * Math.min(1, scale) };
+}
+
+// Endpoints of a connector on the facing edges of its notes, or null when a note is missing
+export function connectorEnds(connector: Connector, boxes: DraggableBox[]): { start: Point; end: Point } | null {
+  const from = boxes.find(b => b.id === connector.from);
+  const to = boxes.find(b => b.id === connector.to);
+  if (!from || !to) return null;
+  return { start: edgePoint(from, center(to)), end: edgePoint(to, center(from)) };
+}
+
+// the three corners of an arrowhead whose tip is at `end`
+export function arrowHead(start: Point, end: Point, size = 12): Point[] {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const spread = Math.PI / 7;
+  return [
+    end,
+    { x: end.x - size * Math.cos(angle - spread), y: end.y - size * Math.sin(angle - spread) },
+    { x: end.x - size * Math.cos(angle + spread), y: end.y - size * Math.sin(angle + spread) },
+  ];
+}
+
+export function nextConnectorId(connectors: Connector[], site = 0) {
+  return nextId(connectors.map(c => c.id), site);
+}
+
+// Links two notes, or unlinks them when they're already connected either way
+export function toggleConnector(connectors: Connector[], from: number, to: number, site = 0): Connector[] {
+  const linked = (c: Connector) => (c.from === from && c.to === to) || (c.from === to && c.to === from);
+  if (connectors.some(linked)) return connectors.filter(c => !linked(c));
+  return [...connectors, { id: nextConnectorId(connectors, site), from, to }];
+}
+
+// Drops connectors whose notes are gone; returns the same array when nothing changed
+export function pruneConnectors(connectors: Connector[], boxes: DraggableBox[]): Connector[] {
+  const ids = new Set(boxes.map(b => b.id));
+  const kept = connectors.filter(c => ids.has(c.from) && ids.has(c.to));
+  return kept.length === connectors.length ? connectors : kept;
+}
@@ -0,0 +1,18 @@
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadText(filename: string, text: string, mimeType = 'text/plain') {
+  downloadBlob(filename, new Blob([text], { type: mimeType }));
+}
+
+export function fileTimestamp(date = new Date()) {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
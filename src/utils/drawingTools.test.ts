@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { DrawStroke } from '../components/DrawingCanvas';
+import {
+  eraseStrokes,
+  erasePixels,
+  pointInPolygon,
+  pointsBounds,
+  recognizeShape,
+  selectInLasso,
+  shapePoints,
+  strokesBounds,
+  transformStroke,
+} from './drawingTools';
+
+const stroke = (points: { x: number; y: number }[], size = 4): DrawStroke => ({
+  points: points.map(p => ({ ...p, color: '#000000', size })),
+  color: '#000000',
+  size,
+});
+
+// a hand-drawn look: points along a path with a little wobble
+const wobble = (points: { x: number; y: number }[]) =>
+  points.map((p, i) => ({ x: p.x + ((i * 7) % 5) - 2, y: p.y + ((i * 3) % 5) - 2 }));
+
+const along = (from: { x: number; y: number }, to: { x: number; y: number }, count: number) =>
+  Array.from({ length: count }, (_, i) => ({ x: from.x + ((to.x - from.x) * i) / count, y: from.y + ((to.y - from.y) * i) / count }));
+
+describe('recognizeShape', () => {
+  it('straightens a nearly straight stroke into a line', () => {
+    const line = recognizeShape(stroke(wobble(along({ x: 0, y: 0 }, { x: 300, y: 100 }, 40))));
+    expect(line?.shape).toBe('line');
+    expect(line?.points).toHaveLength(2);
+  });
+
+  it('turns a closed round stroke into an ellipse', () => {
+    const circle = Array.from({ length: 60 }, (_, i) => {
+      const angle = (i / 59) * Math.PI * 2;
+      return { x: 200 + 100 * Math.cos(angle), y: 200 + 60 * Math.sin(angle) };
+    });
+    const ellipse = recognizeShape(stroke(wobble(circle)));
+    expect(ellipse?.shape).toBe('ellipse');
+  });
+
+  it('turns a closed boxy stroke into a rectangle', () => {
+    const corners = [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 120 }, { x: 0, y: 120 }, { x: 0, y: 0 }];
+    const box = corners.slice(1).flatMap((corner, i) => along(corners[i], corner, 15));
+    const rect = recognizeShape(stroke(wobble([...box, corners[0]])));
+    expect(rect?.shape).toBe('rect');
+    expect(pointsBounds(rect!.points)).toEqual({ x: -2, y: -2, width: 204, height: 124 });
+  });
+
+  it('leaves scribbles, tiny marks and short strokes alone', () => {
+    const zigzag = Array.from({ length: 20 }, (_, i) => ({ x: i * 15, y: (i % 2) * 80 }));
+    expect(recognizeShape(stroke(zigzag))).toBeNull();
+    expect(recognizeShape(stroke(along({ x: 0, y: 0 }, { x: 10, y: 10 }, 10)))).toBeNull();
+    expect(recognizeShape(stroke(along({ x: 0, y: 0 }, { x: 300, y: 0 }, 4)))).toBeNull();
+  });
+});
+
+describe('pointsBounds', () => {
+  it('handles more points than fit in an argument list', () => {
+    const points = Array.from({ length: 300_000 }, (_, i) => ({ x: i % 1000, y: -i }));
+    expect(pointsBounds(points)).toEqual({ x: 0, y: -299_999, width: 999, height: 299_999 });
+  });
+});
+
+describe('erasers', () => {
+  const horizontal = stroke([{ x: 0, y: 0 }, { x: 100, y: 0 }]);
+  const far = stroke([{ x: 0, y: 200 }, { x: 100, y: 200 }]);
+
+  it('removes whole strokes the stroke eraser touches, counting their width', () => {
+    expect(eraseStrokes([horizontal, far], { x: 50, y: 10 }, 9)).toEqual([far]);
+    const strokes = [horizontal, far];
+    expect(eraseStrokes(strokes, { x: 50, y: 100 }, 10)).toBe(strokes);
+  });
+
+  it('cuts a gap out of a stroke with the pixel eraser', () => {
+    const [left, right, untouched] = erasePixels([horizontal, far], { x: 50, y: 0 }, 10);
+    expect(Math.max(...left.points.map(p => p.x))).toBeLessThan(40);
+    expect(Math.min(...right.points.map(p => p.x))).toBeGreaterThan(60);
+    expect(untouched).toBe(far);
+  });
+});
+
+describe('lasso selection', () => {
+  const lasso = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+  it('tests points against the polygon', () => {
+    expect(pointInPolygon({ x: 50, y: 50 }, lasso)).toBe(true);
+    expect(pointInPolygon({ x: 150, y: 50 }, lasso)).toBe(false);
+  });
+
+  it('selects strokes that lie mostly inside', () => {
+    const inside = stroke(along({ x: 10, y: 50 }, { x: 140, y: 50 }, 10));
+    const outside = stroke(along({ x: 60, y: 50 }, { x: 190, y: 50 }, 10));
+    expect(selectInLasso([inside, outside], lasso)).toEqual([inside]);
+    expect(selectInLasso([inside], lasso.slice(0, 2))).toEqual([]);
+  });
+});
+
+describe('shapes and transforms', () => {
+  it('closes rectangles and ellipses', () => {
+    const rect = shapePoints('rect', { x: 0, y: 0 }, { x: 10, y: 20 });
+    expect(rect[0]).toEqual(rect[rect.length - 1]);
+    const ellipse = shapePoints('ellipse', { x: 0, y: 0 }, { x: 10, y: 20 });
+    expect(ellipse[0].x).toBeCloseTo(ellipse[ellipse.length - 1].x);
+  });
+
+  it('scales points and widths around an anchor', () => {
+    const moved = transformStroke(stroke([{ x: 10, y: 10 }], 4), 5, 0, 2, { x: 0, y: 0 });
+    expect(moved.points[0]).toMatchObject({ x: 25, y: 20, size: 8 });
+    expect(moved.size).toBe(8);
+    expect(strokesBounds([moved])).toEqual({ x: 21, y: 16, width: 8, height: 8 });
+    expect(strokesBounds([])).toBeNull();
+  });
+});
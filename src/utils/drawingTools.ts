@@ -0,0 +1,221 @@
+import type { DrawStroke, ShapeKind } from '../components/DrawingCanvas';
+import type { InkPoint } from './ink';
+
+export type DrawingTool = 'pen' | 'stroke-eraser' | 'pixel-eraser' | ShapeKind | 'lasso';
+
+export const SHAPE_KINDS: ShapeKind[] = ['line', 'rect', 'ellipse', 'arrow'];
+
+export const isShapeTool = (tool: DrawingTool): tool is ShapeKind => (SHAPE_KINDS as string[]).includes(tool);
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const ELLIPSE_SEGMENTS = 48;
+const ARROW_HEAD = 0.25; // share of the arrow length, capped below
+const MAX_ARROW_HEAD = 36;
+
+// recognition thresholds, as a share of the stroke's size
+const CLOSED_GAP = 0.25;
+const LINE_DEVIATION = 0.05;
+const ELLIPSE_ERROR = 0.1;
+const RECT_ERROR = 0.035;
+const MIN_SHAPE_SIZE = 30;
+
+function distanceToSegment(p: Point, a: Point, b: Point) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+export function shapePoints(kind: ShapeKind, from: Point, to: Point): Point[] {
+  switch (kind) {
+    case 'line':
+      return [from, to];
+    case 'rect':
+      return [from, { x: to.x, y: from.y }, to, { x: from.x, y: to.y }, from];
+    case 'ellipse': {
+      const cx = (from.x + to.x) / 2;
+      const cy = (from.y + to.y) / 2;
+      const rx = Math.abs(to.x - from.x) / 2;
+      const ry = Math.abs(to.y - from.y) / 2;
+      return Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i) => {
+        const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+        return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+      });
+    }
+    case 'arrow': {
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      const head = Math.min(MAX_ARROW_HEAD, Math.hypot(to.x - from.x, to.y - from.y) * ARROW_HEAD);
+      const barb = (offset: number) => ({
+        x: to.x - head * Math.cos(angle + offset),
+        y: to.y - head * Math.sin(angle + offset),
+      });
+      return [from, to, barb(Math.PI / 6), to, barb(-Math.PI / 6)];
+    }
+  }
+}
+
+export function shapeStroke(kind: ShapeKind, from: Point, to: Point, color: string, size: number): DrawStroke {
+  return {
+    points: shapePoints(kind, from, to).map(p => ({ ...p, color, size })),
+    color,
+    size,
+    shape: kind,
+  };
+}
+
+// a loop rather than Math.min(...xs), which runs out of stack on long strokes
+export function pointsBounds(points: Point[]): Bounds {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  points.forEach(({ x, y }) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Snaps a roughly drawn line, ellipse or box to a clean shape, or returns null
+export function recognizeShape(stroke: DrawStroke): DrawStroke | null {
+  const points = stroke.points;
+  if (points.length < 5) return null;
+
+  const bounds = pointsBounds(points);
+  const size = Math.hypot(bounds.width, bounds.height);
+  if (size < MIN_SHAPE_SIZE) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const from = { x: bounds.x, y: bounds.y };
+  const to = { x: bounds.x + bounds.width, y: bounds.y + bounds.height };
+
+  if (Math.hypot(last.x - first.x, last.y - first.y) > size * CLOSED_GAP) {
+    const length = Math.hypot(last.x - first.x, last.y - first.y);
+    const deviation = points.reduce((worst, p) => Math.max(worst, distanceToSegment(p, first, last)), 0);
+    return deviation < length * LINE_DEVIATION ? shapeStroke('line', first, last, stroke.color, stroke.size) : null;
+  }
+
+  const minSide = Math.min(bounds.width, bounds.height);
+  if (minSide < MIN_SHAPE_SIZE / 2) return null;
+
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+  const rx = bounds.width / 2;
+  const ry = bounds.height / 2;
+  const ellipseError = points.reduce((sum, p) => sum + Math.abs(Math.hypot((p.x - cx) / rx, (p.y - cy) / ry) - 1), 0) / points.length;
+  const rectError = points.reduce((sum, p) => sum + Math.min(
+    Math.abs(p.x - from.x), Math.abs(p.x - to.x), Math.abs(p.y - from.y), Math.abs(p.y - to.y),
+  ), 0) / points.length / minSide;
+
+  const ellipseScore = ellipseError / ELLIPSE_ERROR;
+  const rectScore = rectError / RECT_ERROR;
+  if (Math.min(ellipseScore, rectScore) >= 1) return null;
+  return shapeStroke(ellipseScore < rectScore ? 'ellipse' : 'rect', from, to, stroke.color, stroke.size);
+}
+
+function touches(stroke: DrawStroke, center: Point, radius: number) {
+  const points = stroke.points;
+  if (points.length === 1) return Math.hypot(points[0].x - center.x, points[0].y - center.y) <= radius + points[0].size / 2;
+  for (let i = 1; i < points.length; i++) {
+    if (distanceToSegment(center, points[i - 1], points[i]) <= radius + points[i].size / 2) return true;
+  }
+  return false;
+}
+
+// stroke eraser: anything the eraser touches goes as a whole
+export function eraseStrokes(strokes: DrawStroke[], center: Point, radius: number): DrawStroke[] {
+  const kept = strokes.filter(stroke => !touches(stroke, center, radius));
+  return kept.length === strokes.length ? strokes : kept;
+}
+
+// adds points along long segments so erasing mid-segment (a rectangle side) has something to remove
+function densify(points: InkPoint[], spacing: number): InkPoint[] {
+  const result: InkPoint[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const steps = Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / spacing);
+    for (let s = 1; s < steps; s++) {
+      const t = s / steps;
+      result.push({ ...b, x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, size: a.size + (b.size - a.size) * t });
+    }
+    result.push(b);
+  }
+  return result;
+}
+
+// pixel eraser: cuts the covered part out, splitting strokes in two where needed.
+// Untouched strokes keep their identity so history only records the ones that changed.
+export function erasePixels(strokes: DrawStroke[], center: Point, radius: number): DrawStroke[] {
+  let changed = false;
+  const result = strokes.flatMap(stroke => {
+    if (!touches(stroke, center, radius)) return [stroke];
+    changed = true;
+
+    const pieces: InkPoint[][] = [[]];
+    densify(stroke.points, Math.max(1, radius / 2)).forEach(p => {
+      if (Math.hypot(p.x - center.x, p.y - center.y) <= radius + p.size / 2) {
+        if (pieces[pieces.length - 1].length > 0) pieces.push([]);
+      } else {
+        pieces[pieces.length - 1].push(p);
+      }
+    });
+    return pieces.filter(piece => piece.length > 1).map(points => ({ ...stroke, points }));
+  });
+  return changed ? result : strokes;
+}
+
+export function pointInPolygon(p: Point, polygon: Point[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// a stroke is selected when most of it lies inside the lasso
+export function selectInLasso(strokes: DrawStroke[], lasso: Point[], share = 0.6): DrawStroke[] {
+  if (lasso.length < 3) return [];
+  return strokes.filter(stroke => {
+    const inside = stroke.points.filter(p => pointInPolygon(p, lasso)).length;
+    return inside / stroke.points.length >= share;
+  });
+}
+
+export function strokesBounds(strokes: DrawStroke[]): Bounds | null {
+  const points = strokes.flatMap(s => s.points.flatMap(p => [
+    { x: p.x - p.size / 2, y: p.y - p.size / 2 },
+    { x: p.x + p.size / 2, y: p.y + p.size / 2 },
+  ]));
+  return points.length > 0 ? pointsBounds(points) : null;
+}
+
+// uniform scale around an anchor, then a translation; ink widths scale too
+export function transformStroke(stroke: DrawStroke, dx: number, dy: number, scale = 1, anchor: Point = { x: 0, y: 0 }): DrawStroke {
+  return {
+    ...stroke,
+    size: stroke.size * scale,
+    points: stroke.points.map(p => ({
+      ...p,
+      x: anchor.x + (p.x - anchor.x) * scale + dx,
+      y: anchor.y + (p.y - anchor.y) * scale + dy,
+      size: p.size * scale,
+    })),
+  };
+}
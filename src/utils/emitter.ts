@@ -0,0 +1,17 @@
+type Listener<T> = (value: T) => void;
+
+// Minimal pub/sub for one-off events (motion gestures, commands) that don't fit in React state
+export class Emitter<T> {
+  private listeners = new Set<Listener<T>>();
+
+  subscribe(listener: Listener<T>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(value: T) {
+    this.listeners.forEach(listener => listener(value));
+  }
+}
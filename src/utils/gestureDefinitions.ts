@@ -0,0 +1,78 @@
+import { DEFAULT_ENTER, DEFAULT_EXIT, type GestureDefinition } from './gestureEngine';
+
+export const PINCH_DIST = 0.08;
+
+// New poses only need an entry here. Names are what shows up in GestureResult.
+export const DEFAULT_GESTURES: GestureDefinition[] = [
+  {
+    name: 'pinch',
+    distances: [{ from: 'thumbTip', to: 'indexTip', below: PINCH_DIST, zWeight: 1.35 }],
+    priority: 6,
+    overrides: ['open_palm'],
+  },
+  {
+    name: 'fist',
+    minCurled: { fingers: ['index', 'middle', 'ring', 'pinky'], count: 3 },
+    priority: 10,
+    // fist and pinch conflict a lot while closing the hand, the fist wins
+    overrides: ['pinch', 'point'],
+  },
+  {
+    name: 'open_palm',
+    fingers: { thumb: 'extended', index: 'extended', middle: 'extended', ring: 'extended', pinky: 'extended' },
+    orientation: [{ part: 'palm', direction: 'up' }],
+    priority: 1,
+  },
+  {
+    name: 'point',
+    fingers: { index: 'extended', middle: 'curled', ring: 'curled', pinky: 'curled' },
+    priority: 5,
+  },
+  {
+    name: 'peace',
+    fingers: { index: 'extended', middle: 'extended', ring: 'curled', pinky: 'curled' },
+    distances: [{ from: 'indexTip', to: 'middleTip', above: 0.04 }],
+    priority: 5,
+  },
+  {
+    name: 'thumbs_up',
+    fingers: { thumb: 'extended', index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' },
+    orientation: [{ part: 'thumb', direction: 'up' }],
+    priority: 20,
+    overrides: ['fist', 'pinch', 'point'],
+  },
+  {
+    name: 'thumbs_down',
+    fingers: { thumb: 'extended', index: 'curled', middle: 'curled', ring: 'curled', pinky: 'curled' },
+    orientation: [{ part: 'thumb', direction: 'down' }],
+    priority: 20,
+    overrides: ['fist', 'pinch', 'point'],
+  },
+];
+
+export interface GestureSensitivity {
+  // 1 keeps the definitions above; 2 triggers twice as easily, 0.5 half as easily
+  pinch: number;
+  fist: number;
+}
+
+// Per-user tuning: pinch reaches further apart, the fist needs less curl to enter and leave
+export function withSensitivity(definitions: GestureDefinition[], { pinch, fist }: GestureSensitivity): GestureDefinition[] {
+  return definitions.map(def => {
+    if (def.name === 'pinch') {
+      return { ...def, distances: def.distances?.map(rule => (rule.below === undefined ? rule : { ...rule, below: rule.below * pinch })) };
+    }
+    if (def.name === 'fist') {
+      const enter = Math.max(0.3, Math.min(0.9, (def.enter ?? DEFAULT_ENTER) / fist));
+      const exit = Math.max(0.1, Math.min(enter - 0.1, (def.exit ?? DEFAULT_EXIT) / fist));
+      return { ...def, enter, exit };
+    }
+    return def;
+  });
+}
+
+// the thumb-to-index threshold the pinch rule in `definitions` uses
+export function pinchDistanceOf(definitions: GestureDefinition[]): number {
+  const pinch = definitions.find(def => def.name === 'pinch');
+  return pinch?.distances?.find(rule => rule.below !== undefined)?.below ?? PINCH_DIST;
+}
@@ -1,94 +1,47 @@
 import type { HandData } from '../hooks/useHandTracking';
+import { GestureRecognizer, normalizedDistance, type GestureDefinition, type GestureResult } from './gestureEngine';
+import { DEFAULT_GESTURES, PINCH_DIST, pinchDistanceOf } from './gestureDefinitions';
 
-export interface GestureState {
+export interface GestureState extends GestureResult {
   isPinching: boolean;
   pinchStrength: number;
   isFist: boolean;
 }
 
-const PINCH_DIST = 0.08;
-const Z_WEIGHT = 1.35;
-const CURL_RATIO = 1.3;
-const MIN_CURLED = 3;
-
-// landmark indices
-const LM: any = {
-  wrist: 0,
-  thumbTip: 4,
-  indexTip: 8,
-  middleTip: 12,
-  ringTip: 16,
-  pinkyTip: 20,
-  indexMCP: 5,
-  middleMCP: 9,
-  ringMCP: 13,
-  pinkyMCP: 17,
-};
-
-export function detectPinchGesture(hand: HandData): GestureState {
-  const thumbTip = hand.landmarks[LM.thumbTip];
-  const indexTip = hand.landmarks[LM.indexTip];
-
-  // 3D distance between thumb and index finger
-  const dx = thumbTip.x - indexTip.x;
-  const dy = thumbTip.y - indexTip.y;
-  const dz = ((thumbTip.z || 0) - (indexTip.z || 0)) * Z_WEIGHT;
-  
-  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+// The poses the cursor clicks and grabs with; isPinching and isFist follow these
+export interface PointerPoses {
+  click: string;
+  grab: string;
+}
 
-  const pinchStrength = Math.max(0, Math.min(1, 1 - (distance / PINCH_DIST)));
-  const isPinching = distance < PINCH_DIST;
+export const DEFAULT_POINTER_POSES: PointerPoses = { click: 'pinch', grab: 'fist' };
 
-  // Fist detection
-  const wrist = hand.landmarks[LM.wrist];
-  const fingerTips = [
-    hand.landmarks[LM.indexTip],
-    hand.landmarks[LM.middleTip],
-    hand.landmarks[LM.ringTip],
-    hand.landmarks[LM.pinkyTip],
-  ];
-  
-  const fingerMCPs = [
-    hand.landmarks[LM.indexMCP],
-    hand.landmarks[LM.middleMCP],
-    hand.landmarks[LM.ringMCP],
-    hand.landmarks[LM.pinkyMCP],
-  ];
+const Z_WEIGHT = 1.35;
 
-  let isFist = false;
-  let curledCount = 0;
-  
-  // Compare fingertip-to-wrist vs knuckle-to-wrist distances
-  // If fingertip is closer to wrist than expected, finger is curled
-  //Also, I made it so fist overrides pinch because they conflict often in testing
-  for (let i = 0; i < fingerTips.length; i++) {
-    const tip = fingerTips[i];
-    const mcp = fingerMCPs[i];
-    
-    const tipToWristDist = Math.sqrt(
-      Math.pow(tip.x - wrist.x, 2) + 
-      Math.pow(tip.y - wrist.y, 2) + 
-      Math.pow((tip.z || 0) - (wrist.z || 0), 2)
-    );
-    
-    const mcpToWristDist = Math.sqrt(
-      Math.pow(mcp.x - wrist.x, 2) + 
-      Math.pow(mcp.y - wrist.y, 2) + 
-      Math.pow((mcp.z || 0) - (wrist.z || 0), 2)
-    );
-    
-    const extensionRatio = tipToWristDist / mcpToWristDist;
-    
-    if (extensionRatio < CURL_RATIO) {
-      curledCount++;
-    }
-  }
-  
-  isFist = curledCount >= MIN_CURLED;
+// pinchDistance should match the pinch rule's threshold, see withSensitivity
+export function toGestureState(
+  hand: HandData,
+  result: GestureResult,
+  pinchDistance = PINCH_DIST,
+  poses: PointerPoses = DEFAULT_POINTER_POSES,
+): GestureState {
+  const isPinching = result.active.includes(poses.click);
+  const distance = normalizedDistance(hand, 'thumbTip', 'indexTip', Z_WEIGHT);
 
   return {
+    ...result,
     isPinching,
-    pinchStrength,
-    isFist,
+    // only a real pinch has a strength, other click poses are all or nothing
+    pinchStrength: poses.click === 'pinch'
+      ? Math.max(0, Math.min(1, 1 - (distance / pinchDistance)))
+      : isPinching ? 1 : 0,
+    isFist: result.active.includes(poses.grab),
   };
 }
+
+// One-shot evaluation without hysteresis. Per-frame callers should keep a
+// GestureRecognizer around and use toGestureState on its results instead.
+export function detectPinchGesture(hand: HandData, definitions: GestureDefinition[] = DEFAULT_GESTURES): GestureState {
+  const recognizer = new GestureRecognizer(definitions);
+  return toGestureState(hand, recognizer.update(hand), pinchDistanceOf(definitions));
+}
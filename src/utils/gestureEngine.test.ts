@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { HandData } from '../hooks/useHandTracking';
+import { GestureRecognizer, LM, REFERENCE_HAND_SCALE, gestureConfidence, resolvePriority, type GestureDefinition } from './gestureEngine';
+
+// a hand with the thumb tip at the center, the index and middle tips the given distance from it.
+// At size 1 it is REFERENCE_HAND_SCALE across, so distances are taken as they are.
+function hand({ index = 0.3, middle = 0.3, size = 1 } = {}): HandData {
+  const landmarks = Array.from({ length: 21 }, (_, i) => ({ x: 0.2 + i * 0.01, y: 0.8, z: 0 }));
+  landmarks[LM.middleMCP] = { x: 0.2 + REFERENCE_HAND_SCALE * size, y: 0.8, z: 0 };
+  landmarks[LM.thumbTip] = { x: 0.5, y: 0.5, z: 0 };
+  landmarks[LM.indexTip] = { x: 0.5 + index, y: 0.5, z: 0 };
+  landmarks[LM.middleTip] = { x: 0.5, y: 0.5 + middle, z: 0 };
+  return { landmarks, handedness: 'Right', score: 1 };
+}
+
+// confidence 0.9 at 0.08 apart, 0.5 at 0.1, 0.3 at 0.11
+const pinch: GestureDefinition = { name: 'pinch', distances: [{ from: 'thumbTip', to: 'indexTip', below: 0.1 }] };
+const grab: GestureDefinition = {
+  name: 'grab',
+  distances: [{ from: 'thumbTip', to: 'middleTip', below: 0.1 }],
+  priority: 5,
+  overrides: ['pinch'],
+};
+
+describe('gestureConfidence', () => {
+  it('scores a distance rule softly around its threshold', () => {
+    expect(gestureConfidence(hand({ index: 0.08 }), pinch)).toBeCloseTo(0.9);
+    expect(gestureConfidence(hand({ index: 0.1 }), pinch)).toBeCloseTo(0.5);
+    expect(gestureConfidence(hand({ index: 0.2 }), pinch)).toBe(0);
+  });
+
+  it('is as weak as its weakest rule', () => {
+    const both: GestureDefinition = { name: 'both', distances: [...pinch.distances!, ...grab.distances!] };
+    expect(gestureConfidence(hand({ index: 0.08, middle: 0.1 }), both)).toBeCloseTo(0.5);
+  });
+
+  it('measures distances against the hand size', () => {
+    expect(gestureConfidence(hand({ index: 0.04, size: 0.5 }), pinch)).toBeCloseTo(0.9);
+    expect(gestureConfidence(hand({ index: 0.16, size: 2 }), pinch)).toBeCloseTo(0.9);
+  });
+});
+
+describe('GestureRecognizer', () => {
+  it('enters above the enter threshold and only leaves below the exit threshold', () => {
+    const recognizer = new GestureRecognizer([pinch]);
+    expect(recognizer.update(hand({ index: 0.1 })).gesture).toBeNull();
+    expect(recognizer.update(hand({ index: 0.08 })).gesture).toBe('pinch');
+    expect(recognizer.update(hand({ index: 0.1 })).gesture).toBe('pinch');
+    expect(recognizer.update(hand({ index: 0.11 })).gesture).toBeNull();
+    expect(recognizer.update(hand({ index: 0.1 })).gesture).toBeNull();
+  });
+
+  it('honors per-gesture thresholds', () => {
+    const recognizer = new GestureRecognizer([{ ...pinch, enter: 0.95, exit: 0.85 }]);
+    expect(recognizer.update(hand({ index: 0.08 })).gesture).toBeNull();
+    expect(recognizer.update(hand({ index: 0.07 })).gesture).toBe('pinch');
+    expect(recognizer.update(hand({ index: 0.08 })).gesture).toBe('pinch');
+    expect(recognizer.update(hand({ index: 0.09 })).gesture).toBeNull();
+  });
+
+  it('suppresses overridden gestures without making them re-enter afterwards', () => {
+    const recognizer = new GestureRecognizer([pinch, grab]);
+    const both = recognizer.update(hand({ index: 0.08, middle: 0.08 }));
+    expect(both.gesture).toBe('grab');
+    expect(both.active).toEqual(['grab']);
+    expect(both.confidence.pinch).toBeCloseTo(0.9);
+
+    // pinch sits between exit and enter now, it was still active underneath the grab
+    expect(recognizer.update(hand({ index: 0.1, middle: 0.3 })).gesture).toBe('pinch');
+  });
+
+  it('starts over after a reset or new definitions', () => {
+    const recognizer = new GestureRecognizer([pinch]);
+    recognizer.update(hand({ index: 0.08 }));
+    recognizer.reset();
+    expect(recognizer.update(hand({ index: 0.1 })).gesture).toBeNull();
+
+    recognizer.update(hand({ index: 0.08 }));
+    recognizer.setDefinitions([pinch]);
+    expect(recognizer.update(hand({ index: 0.1 })).gesture).toBeNull();
+  });
+});
+
+describe('resolvePriority', () => {
+  it('drops overridden gestures and orders the rest by priority', () => {
+    const defs: GestureDefinition[] = [
+      { name: 'low' },
+      { name: 'high', priority: 10 },
+      { name: 'boss', priority: 1, overrides: ['low'] },
+    ];
+    expect(resolvePriority(['low', 'high'], defs)).toEqual(['high', 'low']);
+    expect(resolvePriority(['low', 'high', 'boss'], defs)).toEqual(['high', 'boss']);
+  });
+});
@@ -0,0 +1,264 @@
+import type { HandData, HandLandmark } from '../hooks/useHandTracking';
+import { dist3D } from './geometry';
+
+// landmark indices
+export const LM = {
+  wrist: 0,
+  thumbCMC: 1,
+  thumbMCP: 2,
+  thumbIP: 3,
+  thumbTip: 4,
+  indexMCP: 5,
+  indexPIP: 6,
+  indexDIP: 7,
+  indexTip: 8,
+  middleMCP: 9,
+  middlePIP: 10,
+  middleDIP: 11,
+  middleTip: 12,
+  ringMCP: 13,
+  ringPIP: 14,
+  ringDIP: 15,
+  ringTip: 16,
+  pinkyMCP: 17,
+  pinkyPIP: 18,
+  pinkyDIP: 19,
+  pinkyTip: 20,
+} as const;
+
+export type LandmarkName = keyof typeof LM;
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+export type FingerState = 'extended' | 'curled';
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+export const FINGERS: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+const FINGER_LANDMARKS: Record<FingerName, { base: LandmarkName; tip: LandmarkName }> = {
+  thumb: { base: 'thumbMCP', tip: 'thumbTip' },
+  index: { base: 'indexMCP', tip: 'indexTip' },
+  middle: { base: 'middleMCP', tip: 'middleTip' },
+  ring: { base: 'ringMCP', tip: 'ringTip' },
+  pinky: { base: 'pinkyMCP', tip: 'pinkyTip' },
+};
+
+// Rule thresholds are normalized image distances for a hand REFERENCE_HAND_SCALE across;
+// the live distance is rescaled to that size first, so sitting closer doesn't change them
+export interface DistanceRule {
+  from: LandmarkName;
+  to: LandmarkName;
+  below?: number;
+  above?: number;
+  zWeight?: number;
+}
+
+// at least `count` of `fingers` must be curled, e.g. a fist tolerates one stray finger
+export interface CurlCountRule {
+  fingers: FingerName[];
+  count: number;
+}
+
+// direction of a finger (base -> tip) or of the palm (wrist -> middle knuckle) in image space
+export interface OrientationRule {
+  part: FingerName | 'palm';
+  direction: Direction;
+}
+
+export interface GestureDefinition {
+  name: string;
+  fingers?: Partial<Record<FingerName, FingerState>>;
+  minCurled?: CurlCountRule;
+  distances?: DistanceRule[];
+  orientation?: OrientationRule[];
+  // higher wins when several gestures are active at once
+  priority?: number;
+  // gestures that are suppressed while this one is active
+  overrides?: string[];
+  // hysteresis: activate at enter, stay active until confidence drops below exit
+  enter?: number;
+  exit?: number;
+}
+
+export interface GestureResult {
+  // highest priority active gesture
+  gesture: string | null;
+  active: string[];
+  confidence: Record<string, number>;
+}
+
+export const DEFAULT_ENTER = 0.6;
+export const DEFAULT_EXIT = 0.4;
+
+// wrist-to-middle-knuckle length of a hand at arm's length from a laptop camera
+export const REFERENCE_HAND_SCALE = 0.15;
+
+// tip-to-wrist / knuckle-to-wrist ratio, fingers below CURL_LOW read fully curled
+const CURL_LOW = 1.1;
+const CURL_HIGH = 1.5;
+// thumb-tip-to-pinky-knuckle / thumb-knuckle-to-pinky-knuckle ratio
+const THUMB_CURL_LOW = 0.9;
+const THUMB_CURL_HIGH = 1.3;
+// how far past a distance threshold (as a fraction of it) a rule goes from 0.5 to 0 or 1
+const DISTANCE_SOFTNESS = 0.25;
+// cosine between the measured and wanted direction that reads as 0 and 1
+const ORIENTATION_LOW = 0.3;
+const ORIENTATION_HIGH = 0.8;
+
+const DIRECTIONS: Record<Direction, { x: number; y: number }> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+function clamp01(v: number) {
+  return Math.max(0, Math.min(1, v));
+}
+
+function point(hand: HandData, name: LandmarkName): HandLandmark {
+  return hand.landmarks[LM[name]];
+}
+
+export function landmarkDistance(hand: HandData, from: LandmarkName, to: LandmarkName, zWeight = 1) {
+  return dist3D(point(hand, from), point(hand, to), zWeight);
+}
+
+// Wrist-to-middle-knuckle length in the image, shrinking as the hand moves away from the camera
+export function handScale(hand: HandData): number {
+  const wrist = point(hand, 'wrist');
+  const knuckle = point(hand, 'middleMCP');
+  return Math.hypot(knuckle.x - wrist.x, knuckle.y - wrist.y);
+}
+
+// landmarkDistance as if the hand were REFERENCE_HAND_SCALE across
+export function normalizedDistance(hand: HandData, from: LandmarkName, to: LandmarkName, zWeight = 1) {
+  const scale = handScale(hand);
+  const d = landmarkDistance(hand, from, to, zWeight);
+  return scale > 0 ? (d * REFERENCE_HAND_SCALE) / scale : d;
+}
+
+// 0 = fully extended, 1 = fully curled
+export function fingerCurl(hand: HandData, finger: FingerName): number {
+  if (finger === 'thumb') {
+    const ratio = landmarkDistance(hand, 'thumbTip', 'pinkyMCP') / landmarkDistance(hand, 'thumbMCP', 'pinkyMCP');
+    return clamp01((THUMB_CURL_HIGH - ratio) / (THUMB_CURL_HIGH - THUMB_CURL_LOW));
+  }
+
+  // Compare fingertip-to-wrist vs knuckle-to-wrist distances
+  // If fingertip is closer to wrist than expected, finger is curled
+  const { base, tip } = FINGER_LANDMARKS[finger];
+  const ratio = landmarkDistance(hand, tip, 'wrist') / landmarkDistance(hand, base, 'wrist');
+  return clamp01((CURL_HIGH - ratio) / (CURL_HIGH - CURL_LOW));
+}
+
+function distanceScore(hand: HandData, rule: DistanceRule): number {
+  const d = normalizedDistance(hand, rule.from, rule.to, rule.zWeight);
+  let score = 1;
+  if (rule.below !== undefined) {
+    score = Math.min(score, clamp01(0.5 + (rule.below - d) / (2 * DISTANCE_SOFTNESS * rule.below)));
+  }
+  if (rule.above !== undefined) {
+    score = Math.min(score, clamp01(0.5 + (d - rule.above) / (2 * DISTANCE_SOFTNESS * rule.above)));
+  }
+  return score;
+}
+
+function orientationScore(hand: HandData, rule: OrientationRule): number {
+  const from = rule.part === 'palm' ? point(hand, 'wrist') : point(hand, FINGER_LANDMARKS[rule.part].base);
+  const to = rule.part === 'palm' ? point(hand, 'middleMCP') : point(hand, FINGER_LANDMARKS[rule.part].tip);
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const len = Math.sqrt(dx * dx + dy * dy);
+  if (len === 0) return 0;
+
+  const want = DIRECTIONS[rule.direction];
+  const cos = (dx * want.x + dy * want.y) / len;
+  return clamp01((cos - ORIENTATION_LOW) / (ORIENTATION_HIGH - ORIENTATION_LOW));
+}
+
+// Confidence in [0, 1] that `hand` matches `def`; every rule has to hold, so the weakest one wins
+export function gestureConfidence(hand: HandData, def: GestureDefinition, curls?: Record<FingerName, number>): number {
+  const curl = curls ?? fingerCurls(hand);
+  let confidence = 1;
+
+  if (def.fingers) {
+    for (const finger of FINGERS) {
+      const state = def.fingers[finger];
+      if (!state) continue;
+      confidence = Math.min(confidence, state === 'curled' ? curl[finger] : 1 - curl[finger]);
+    }
+  }
+
+  if (def.minCurled) {
+    const sorted = def.minCurled.fingers.map(f => curl[f]).sort((a, b) => b - a);
+    const index = Math.min(def.minCurled.count, sorted.length) - 1;
+    confidence = Math.min(confidence, index >= 0 ? sorted[index] : 1);
+  }
+
+  def.distances?.forEach(rule => {
+    confidence = Math.min(confidence, distanceScore(hand, rule));
+  });
+
+  def.orientation?.forEach(rule => {
+    confidence = Math.min(confidence, orientationScore(hand, rule));
+  });
+
+  return confidence;
+}
+
+export function fingerCurls(hand: HandData): Record<FingerName, number> {
+  return {
+    thumb: fingerCurl(hand, 'thumb'),
+    index: fingerCurl(hand, 'index'),
+    middle: fingerCurl(hand, 'middle'),
+    ring: fingerCurl(hand, 'ring'),
+    pinky: fingerCurl(hand, 'pinky'),
+  };
+}
+
+// Drops gestures overridden by another active one and orders the rest by priority
+export function resolvePriority(active: string[], definitions: GestureDefinition[]): string[] {
+  const byName = new Map(definitions.map(def => [def.name, def]));
+  const suppressed = new Set<string>();
+  active.forEach(name => byName.get(name)?.overrides?.forEach(o => suppressed.add(o)));
+
+  return active
+    .filter(name => !suppressed.has(name))
+    .sort((a, b) => (byName.get(b)?.priority ?? 0) - (byName.get(a)?.priority ?? 0));
+}
+
+export class GestureRecognizer {
+  private definitions: GestureDefinition[];
+  private active = new Set<string>();
+
+  constructor(definitions: GestureDefinition[]) {
+    this.definitions = definitions;
+  }
+
+  setDefinitions(definitions: GestureDefinition[]) {
+    this.definitions = definitions;
+    this.active.clear();
+  }
+
+  update(hand: HandData): GestureResult {
+    const curls = fingerCurls(hand);
+    const confidence: Record<string, number> = {};
+    const raw: string[] = [];
+
+    this.definitions.forEach(def => {
+      const c = gestureConfidence(hand, def, curls);
+      confidence[def.name] = c;
+      const threshold = this.active.has(def.name) ? def.exit ?? DEFAULT_EXIT : def.enter ?? DEFAULT_ENTER;
+      if (c >= threshold) raw.push(def.name);
+    });
+
+    // hysteresis tracks the raw state so a gesture that was only suppressed doesn't have to re-enter
+    this.active = new Set(raw);
+    const active = resolvePriority(raw, this.definitions);
+
+    return { gesture: active[0] ?? null, active, confidence };
+  }
+
+  reset() {
+    this.active.clear();
+  }
+}
@@ -0,0 +1,145 @@
+import type { HandData } from '../hooks/useHandTracking';
+import { LM, handScale } from './gestureEngine';
+import type { ActionId } from './actions';
+
+// Poses a user teaches by example, matched against live frames with k-nearest-neighbors.
+// Unlike the rule-based gestures in gestureDefinitions these need no hand-tuned
+// thresholds: features are measured in palm lengths, so distance to the camera and
+// hand size drop out.
+
+export const TRAINED_GESTURES_KEY = 'trainedGestures';
+
+export interface TrainedGesture {
+  name: string;
+  action: ActionId | null;
+  // one feature vector per recorded frame
+  samples: number[][];
+}
+
+export interface TrainedMatch {
+  name: string;
+  // 0..1, how clearly the nearest samples agree and how close they are
+  confidence: number;
+}
+
+const NEIGHBORS = 5;
+// RMS landmark distance, in palm lengths, beyond which a frame matches nothing
+export const MATCH_DISTANCE = 0.35;
+// depth is noisier than x/y, so it counts for less
+const Z_SCALE = 0.5;
+// a recording keeps at most this many frames, spread over the whole take
+export const MAX_SAMPLES = 40;
+// frames a match has to hold to start, and to be gone to end, so one odd frame changes nothing
+const ENTER_FRAMES = 4;
+const EXIT_FRAMES = 4;
+
+// Landmarks relative to the wrist, scaled by the wrist-to-middle-knuckle length and
+// mirrored for left hands so one recording serves both
+export function handFeatures(hand: HandData): number[] | null {
+  const wrist = hand.landmarks[LM.wrist];
+  const scale = handScale(hand);
+  if (!(scale > 0)) return null;
+  const mirror = hand.handedness === 'Left' ? -1 : 1;
+
+  const features: number[] = [];
+  hand.landmarks.forEach((p, i) => {
+    if (i === LM.wrist) return;
+    features.push(
+      (mirror * (p.x - wrist.x)) / scale,
+      (p.y - wrist.y) / scale,
+      ((p.z ?? 0) - (wrist.z ?? 0)) * Z_SCALE / scale,
+    );
+  });
+  return features;
+}
+
+// RMS distance per landmark, so it reads in palm lengths whatever the landmark count
+export function featureDistance(a: number[], b: number[]) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum / (a.length / 3));
+}
+
+// Evenly thins a recording down to `max` frames
+export function downsample<T>(samples: T[], max = MAX_SAMPLES): T[] {
+  if (samples.length <= max) return samples;
+  return Array.from({ length: max }, (_, i) => samples[Math.floor((i * samples.length) / max)]);
+}
+
+export function classify(features: number[], gestures: TrainedGesture[], k = NEIGHBORS): TrainedMatch | null {
+  const nearest: { name: string; distance: number }[] = [];
+  gestures.forEach(gesture => {
+    gesture.samples.forEach(sample => {
+      if (sample.length !== features.length) return;
+      nearest.push({ name: gesture.name, distance: featureDistance(features, sample) });
+    });
+  });
+  nearest.sort((a, b) => a.distance - b.distance);
+  const neighbors = nearest.slice(0, k).filter(n => n.distance < MATCH_DISTANCE);
+  if (neighbors.length === 0) return null;
+
+  // closer neighbors get a bigger say
+  const votes = new Map<string, number>();
+  let total = 0;
+  neighbors.forEach(({ name, distance }) => {
+    const weight = 1 - distance / MATCH_DISTANCE;
+    votes.set(name, (votes.get(name) ?? 0) + weight);
+    total += weight;
+  });
+  let best: string | null = null;
+  let bestVotes = 0;
+  for (const [name, count] of votes) {
+    if (count > bestVotes) {
+      best = name;
+      bestVotes = count;
+    }
+  }
+  if (!best) return null;
+
+  const closest = neighbors.find(n => n.name === best)!.distance;
+  return { name: best, confidence: (bestVotes / total) * (1 - closest / MATCH_DISTANCE) };
+}
+
+export interface TrainedGestureUpdate {
+  // the gesture held right now, after debouncing
+  gesture: string | null;
+  // set on the frame the gesture starts
+  started: string | null;
+}
+
+// Debounced per-hand classification: one tracker per tracked hand, like MotionGestureDetector
+export class TrainedGestureTracker {
+  private candidate: string | null = null;
+  private streak = 0;
+  private active: string | null = null;
+
+  update(hand: HandData, gestures: TrainedGesture[]): TrainedGestureUpdate {
+    const features = handFeatures(hand);
+    const match = features && classify(features, gestures);
+    const name = match?.name ?? null;
+
+    if (name === this.candidate) {
+      this.streak += 1;
+    } else {
+      this.candidate = name;
+      this.streak = 1;
+    }
+
+    let started: string | null = null;
+    const needed = name === null ? EXIT_FRAMES : ENTER_FRAMES;
+    if (name !== this.active && this.streak >= needed) {
+      this.active = name;
+      started = name;
+    }
+    return { gesture: this.active, started };
+  }
+}
+
+// Adds a recorded take to a gesture, creating it if needed; all its takes together are
+// thinned evenly so a gesture never grows past a few takes' worth of samples
+export function addTake(gestures: TrainedGesture[], name: string, frames: number[][]): TrainedGesture[] {
+  const take = downsample(frames);
+  const existing = gestures.find(g => g.name === name);
+  if (!existing) return [...gestures, { name, action: null, samples: take }];
+  return gestures.map(g => (g === existing ? { ...g, samples: downsample([...g.samples, ...take], MAX_SAMPLES * 3) } : g));
+}
@@ -0,0 +1,69 @@
+import type { HandData } from '../hooks/useHandTracking';
+import { dist } from './geometry';
+import { LM } from './gestureEngine';
+
+interface Track {
+  id: number;
+  handedness: 'Left' | 'Right';
+  wrist: { x: number; y: number };
+  lastSeen: number;
+}
+
+// cost added when the detector flips handedness between frames, which it does now and then
+const HANDEDNESS_PENALTY = 0.15;
+
+// Gives each detected hand an id that survives across frames (and short dropouts),
+// so a second hand entering the frame can't take over the first one's cursor.
+export class HandIdentityTracker {
+  private tracks: Track[] = [];
+  private nextId = 1;
+  private maxDistance: number;
+  private graceMs: number;
+
+  constructor(maxDistance = 0.25, graceMs = 300) {
+    this.maxDistance = maxDistance;
+    this.graceMs = graceMs;
+  }
+
+  assign(hands: HandData[], now: number): HandData[] {
+    this.tracks = this.tracks.filter(track => now - track.lastSeen <= this.graceMs);
+
+    const pairs: { hand: number; track: number; cost: number }[] = [];
+    hands.forEach((hand, h) => {
+      const wrist = hand.landmarks[LM.wrist];
+      this.tracks.forEach((track, t) => {
+        const d = dist(wrist, track.wrist);
+        if (d > this.maxDistance) return;
+        pairs.push({ hand: h, track: t, cost: d + (track.handedness === hand.handedness ? 0 : HANDEDNESS_PENALTY) });
+      });
+    });
+    pairs.sort((a, b) => a.cost - b.cost);
+
+    const ids: (number | null)[] = hands.map(() => null);
+    const usedTracks = new Set<number>();
+    pairs.forEach(({ hand, track }) => {
+      if (ids[hand] !== null || usedTracks.has(track)) return;
+      ids[hand] = this.tracks[track].id;
+      usedTracks.add(track);
+    });
+
+    return hands.map((hand, h) => {
+      let id = ids[h];
+      const wrist = hand.landmarks[LM.wrist];
+      if (id === null) {
+        id = this.nextId++;
+        this.tracks.push({ id, handedness: hand.handedness, wrist: { x: wrist.x, y: wrist.y }, lastSeen: now });
+      } else {
+        const track = this.tracks.find(t => t.id === id)!;
+        track.wrist = { x: wrist.x, y: wrist.y };
+        track.handedness = hand.handedness;
+        track.lastSeen = now;
+      }
+      return { ...hand, id };
+    });
+  }
+
+  reset() {
+    this.tracks = [];
+  }
+}
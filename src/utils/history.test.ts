@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { DraggableBox } from '../components/InteractiveElements';
+import type { DrawStroke } from '../components/DrawingCanvas';
+import {
+  CommandHistory,
+  applyCommand,
+  describeCommand,
+  diffConnectors,
+  diffNotes,
+  diffStrokes,
+  invertCommand,
+  type BoardState,
+} from './history';
+
+const note = (id: number, patch: Partial<DraggableBox> = {}): DraggableBox => ({
+  id, x: 0, y: 0, width: 200, height: 120, color: '#FF6B6B', label: `Note ${id}`, text: '', ...patch,
+});
+const stroke = (x: number): DrawStroke => ({ points: [{ x, y: 0, color: '#000000', size: 3 }], color: '#000000', size: 3 });
+
+const state = (boxes: DraggableBox[], strokes: DrawStroke[] = []): BoardState => ({ boxes, strokes, connectors: [] });
+
+describe('diffNotes', () => {
+  it('is null when nothing changed', () => {
+    const boxes = [note(1), note(2)];
+    expect(diffNotes(boxes, boxes.map(b => ({ ...b })))).toBeNull();
+  });
+
+  it('records only the fields that changed', () => {
+    expect(diffNotes([note(1)], [note(1, { x: 40, y: 10 })])).toEqual({
+      type: 'update-notes',
+      changes: [{ id: 1, before: { x: 0, y: 0 }, after: { x: 40, y: 10 } }],
+    });
+  });
+
+  it('turns prev into next and back again', () => {
+    const prev = state([note(1), note(2), note(3)]);
+    const next = state([note(1, { color: '#4ECDC4' }), note(3), note(4)]);
+    const command = diffNotes(prev.boxes, next.boxes)!;
+
+    expect(command.type).toBe('batch');
+    expect(applyCommand(prev, command)).toEqual(next);
+    expect(applyCommand(next, invertCommand(command))).toEqual(prev);
+  });
+});
+
+describe('diffStrokes', () => {
+  it('matches strokes by reference and puts deleted ones back where they were', () => {
+    const [a, b, c] = [stroke(1), stroke(2), stroke(3)];
+    const prev = state([], [a, b, c]);
+    const command = diffStrokes(prev.strokes, [a, c])!;
+
+    expect(diffStrokes(prev.strokes, [...prev.strokes])).toBeNull();
+    expect(applyCommand(applyCommand(prev, command), invertCommand(command)).strokes).toEqual([a, b, c]);
+  });
+});
+
+describe('diffConnectors', () => {
+  it('undoes links and unlinks together', () => {
+    const [ab, bc] = [{ id: 1, from: 1, to: 2 }, { id: 2, from: 2, to: 3 }];
+    const prev = { ...state([note(1), note(2), note(3)]), connectors: [ab] };
+    const command = diffConnectors([ab], [bc])!;
+
+    expect(describeCommand(command)).toBe('Unlink 1 note pair, Link 1 note pair');
+    expect(applyCommand(prev, command).connectors).toEqual([bc]);
+    expect(applyCommand(applyCommand(prev, command), invertCommand(command))).toEqual(prev);
+    expect(diffConnectors([ab], [ab])).toBeNull();
+  });
+});
+
+describe('CommandHistory', () => {
+  const move = (x: number, from = 0) => diffNotes([note(1, { x: from })], [note(1, { x })])!;
+
+  it('undoes and redoes in order and drops redo on a new step', () => {
+    const history = new CommandHistory();
+    history.push(move(10), 0);
+    history.push(move(20, 10), 1000);
+
+    expect(history.undo()).toEqual(move(10, 20));
+    expect(history.redoDepth).toBe(1);
+    expect(history.redo()).toEqual(move(20, 10));
+
+    history.undo();
+    history.push(move(30, 10), 2000);
+    expect(history.redoDepth).toBe(0);
+    expect(history.redo()).toBeNull();
+  });
+
+  it('merges a quick run of updates to the same notes into one step', () => {
+    const history = new CommandHistory();
+    history.push(move(10), 0);
+    history.push(move(20, 10), 100);
+    history.push(move(30, 20), 200);
+
+    expect(history.undoDepth).toBe(1);
+    expect(history.undo()).toEqual(move(0, 30));
+  });
+
+  it('keeps separate steps for slow updates, other fields and redone steps', () => {
+    const history = new CommandHistory();
+    history.push(move(10), 0);
+    history.push(move(20, 10), 5000);
+    history.push(diffNotes([note(1)], [note(1, { color: '#4ECDC4' })])!, 5100);
+    expect(history.undoDepth).toBe(3);
+
+    history.undo();
+    history.redo();
+    history.push(diffNotes([note(1)], [note(1, { color: '#45B7D1' })])!, 5200);
+    expect(history.undoDepth).toBe(4);
+  });
+
+  it('forgets the oldest steps past its limit', () => {
+    const history = new CommandHistory(2);
+    [10, 20, 30].forEach((x, i) => history.push(move(x, x - 10), i * 1000));
+    expect(history.undoDepth).toBe(2);
+    expect(history.undo()).toEqual(move(20, 30));
+    expect(history.undo()).toEqual(move(10, 20));
+    expect(history.undo()).toBeNull();
+  });
+});
+
+describe('describeCommand', () => {
+  it('names a step by what it did', () => {
+    expect(describeCommand(diffNotes([note(1), note(2)], [note(1, { x: 5 }), note(2, { y: 5 })])!)).toBe('Move 2 notes');
+    expect(describeCommand(diffNotes([note(1)], [note(1, { text: 'hi' })])!)).toBe('Edit 1 note');
+    expect(describeCommand(diffNotes([note(1)], [note(1, { z: 3 })])!)).toBe('Raise 1 note');
+    expect(describeCommand(diffNotes([note(1)], [note(1, { width: 300, height: 200 })])!)).toBe('Resize 1 note');
+    expect(describeCommand(diffStrokes([], [stroke(1)])!)).toBe('Draw 1 stroke');
+  });
+});
@@ -0,0 +1,281 @@
+import type { DraggableBox } from '../components/InteractiveElements';
+import type { DrawStroke } from '../components/DrawingCanvas';
+import type { Connector } from './connectors';
+
+export interface BoardState {
+  boxes: DraggableBox[];
+  strokes: DrawStroke[];
+  connectors: Connector[];
+}
+
+interface Indexed<T> {
+  item: T;
+  index: number;
+}
+
+export interface NoteChange {
+  id: number;
+  before: Partial<DraggableBox>;
+  after: Partial<DraggableBox>;
+}
+
+// Commands are plain data so they can be inverted, merged and logged
+export type BoardCommand =
+  | { type: 'add-notes'; notes: Indexed<DraggableBox>[] }
+  | { type: 'delete-notes'; notes: Indexed<DraggableBox>[] }
+  | { type: 'update-notes'; changes: NoteChange[] }
+  | { type: 'add-strokes'; strokes: Indexed<DrawStroke>[] }
+  | { type: 'delete-strokes'; strokes: Indexed<DrawStroke>[] }
+  | { type: 'add-connectors'; connectors: Indexed<Connector>[] }
+  | { type: 'delete-connectors'; connectors: Indexed<Connector>[] }
+  | { type: 'batch'; commands: BoardCommand[] };
+
+// consecutive updates to the same notes inside this window become one step (a drag, a typing burst)
+const MERGE_WINDOW = 800;
+const DEFAULT_LIMIT = 100;
+
+function insertAt<T>(list: T[], entries: Indexed<T>[]): T[] {
+  const next = [...list];
+  [...entries].sort((a, b) => a.index - b.index).forEach(({ item, index }) => {
+    next.splice(Math.min(index, next.length), 0, item);
+  });
+  return next;
+}
+
+// by reference rather than index, so a step still undoes cleanly after a collaborator's edits shifted the list
+function removeItems<T>(list: T[], entries: Indexed<T>[]): T[] {
+  const drop = new Set(entries.map(e => e.item));
+  return list.filter(item => !drop.has(item));
+}
+
+export function applyCommand(state: BoardState, command: BoardCommand): BoardState {
+  switch (command.type) {
+    case 'add-notes':
+      return { ...state, boxes: insertAt(state.boxes, command.notes) };
+    case 'delete-notes': {
+      const ids = new Set(command.notes.map(n => n.item.id));
+      return { ...state, boxes: state.boxes.filter(b => !ids.has(b.id)) };
+    }
+    case 'update-notes': {
+      const changes = new Map(command.changes.map(c => [c.id, c.after]));
+      return {
+        ...state,
+        boxes: state.boxes.map(box => changes.has(box.id) ? { ...box, ...changes.get(box.id) } : box),
+      };
+    }
+    case 'add-strokes':
+      return { ...state, strokes: insertAt(state.strokes, command.strokes) };
+    case 'delete-strokes':
+      return { ...state, strokes: removeItems(state.strokes, command.strokes) };
+    case 'add-connectors':
+      return { ...state, connectors: insertAt(state.connectors, command.connectors) };
+    case 'delete-connectors':
+      return { ...state, connectors: removeItems(state.connectors, command.connectors) };
+    case 'batch':
+      return command.commands.reduce(applyCommand, state);
+  }
+}
+
+export function invertCommand(command: BoardCommand): BoardCommand {
+  switch (command.type) {
+    case 'add-notes':
+      return { type: 'delete-notes', notes: command.notes };
+    case 'delete-notes':
+      return { type: 'add-notes', notes: command.notes };
+    case 'update-notes':
+      return { type: 'update-notes', changes: command.changes.map(c => ({ id: c.id, before: c.after, after: c.before })) };
+    case 'add-strokes':
+      return { type: 'delete-strokes', strokes: command.strokes };
+    case 'delete-strokes':
+      return { type: 'add-strokes', strokes: command.strokes };
+    case 'add-connectors':
+      return { type: 'delete-connectors', connectors: command.connectors };
+    case 'delete-connectors':
+      return { type: 'add-connectors', connectors: command.connectors };
+    case 'batch':
+      return { type: 'batch', commands: command.commands.map(invertCommand).reverse() };
+  }
+}
+
+export function combine(commands: (BoardCommand | null)[]): BoardCommand | null {
+  const present = commands.filter((c): c is BoardCommand => c !== null);
+  if (present.length === 0) return null;
+  return present.length === 1 ? present[0] : { type: 'batch', commands: present };
+}
+
+// the command that turns prev into next; notes are matched by id
+export function diffNotes(prev: DraggableBox[], next: DraggableBox[]): BoardCommand | null {
+  const prevById = new Map(prev.map(b => [b.id, b]));
+  const nextIds = new Set(next.map(b => b.id));
+
+  const removed = prev
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => !nextIds.has(item.id));
+  const added = next
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => !prevById.has(item.id));
+
+  const changes: NoteChange[] = [];
+  next.forEach(box => {
+    const old = prevById.get(box.id);
+    if (!old || old === box) return;
+    const before: Partial<DraggableBox> = {};
+    const after: Partial<DraggableBox> = {};
+    const keys = new Set([...Object.keys(old), ...Object.keys(box)]) as Set<keyof DraggableBox>;
+    keys.forEach(key => {
+      if (old[key] === box[key]) return;
+      Object.assign(before, { [key]: old[key] });
+      Object.assign(after, { [key]: box[key] });
+    });
+    if (Object.keys(after).length > 0) changes.push({ id: box.id, before, after });
+  });
+
+  return combine([
+    removed.length > 0 ? { type: 'delete-notes', notes: removed } : null,
+    changes.length > 0 ? { type: 'update-notes', changes } : null,
+    added.length > 0 ? { type: 'add-notes', notes: added } : null,
+  ]);
+}
+
+function diffByReference<T>(prev: T[], next: T[]) {
+  const prevSet = new Set(prev);
+  const nextSet = new Set(next);
+  return {
+    removed: prev.map((item, index) => ({ item, index })).filter(({ item }) => !nextSet.has(item)),
+    added: next.map((item, index) => ({ item, index })).filter(({ item }) => !prevSet.has(item)),
+  };
+}
+
+// strokes are immutable once committed, so they're matched by reference
+export function diffStrokes(prev: DrawStroke[], next: DrawStroke[]): BoardCommand | null {
+  const { removed, added } = diffByReference(prev, next);
+  return combine([
+    removed.length > 0 ? { type: 'delete-strokes', strokes: removed } : null,
+    added.length > 0 ? { type: 'add-strokes', strokes: added } : null,
+  ]);
+}
+
+export function diffConnectors(prev: Connector[], next: Connector[]): BoardCommand | null {
+  const { removed, added } = diffByReference(prev, next);
+  return combine([
+    removed.length > 0 ? { type: 'delete-connectors', connectors: removed } : null,
+    added.length > 0 ? { type: 'add-connectors', connectors: added } : null,
+  ]);
+}
+
+export function describeCommand(command: BoardCommand): string {
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  switch (command.type) {
+    case 'add-notes':
+      return `Add ${plural(command.notes.length, 'note')}`;
+    case 'delete-notes':
+      return `Delete ${plural(command.notes.length, 'note')}`;
+    case 'update-notes': {
+      const keys = new Set(command.changes.flatMap(c => Object.keys(c.after)));
+      const verb = [...keys].every(k => k === 'x' || k === 'y') ? 'Move'
+        : keys.size === 1 && keys.has('color') ? 'Recolor'
+        : keys.size === 1 && keys.has('z') ? 'Raise'
+        : keys.has('text') || keys.has('label') || keys.has('kind') ? 'Edit'
+        : [...keys].every(k => k === 'width' || k === 'height') ? 'Resize'
+        : 'Transform';
+      return `${verb} ${plural(command.changes.length, 'note')}`;
+    }
+    case 'add-strokes':
+      return `Draw ${plural(command.strokes.length, 'stroke')}`;
+    case 'delete-strokes':
+      return `Erase ${plural(command.strokes.length, 'stroke')}`;
+    case 'add-connectors':
+      return `Link ${plural(command.connectors.length, 'note pair')}`;
+    case 'delete-connectors':
+      return `Unlink ${plural(command.connectors.length, 'note pair')}`;
+    case 'batch':
+      return command.commands.map(describeCommand).join(', ');
+  }
+}
+
+function sameTargets(a: NoteChange[], b: NoteChange[]) {
+  if (a.length !== b.length) return false;
+  return a.every((change, i) => {
+    const other = b[i];
+    const keys = Object.keys(change.after);
+    return change.id === other.id
+      && keys.length === Object.keys(other.after).length
+      && keys.every(k => k in other.after);
+  });
+}
+
+interface Entry {
+  command: BoardCommand;
+  time: number;
+}
+
+export class CommandHistory {
+  private done: Entry[] = [];
+  private undone: Entry[] = [];
+  private limit: number;
+
+  constructor(limit = DEFAULT_LIMIT) {
+    this.limit = limit;
+  }
+
+  get undoDepth() {
+    return this.done.length;
+  }
+
+  get redoDepth() {
+    return this.undone.length;
+  }
+
+  peekUndo(): BoardCommand | null {
+    return this.done[this.done.length - 1]?.command ?? null;
+  }
+
+  peekRedo(): BoardCommand | null {
+    return this.undone[this.undone.length - 1]?.command ?? null;
+  }
+
+  push(command: BoardCommand, time = performance.now()) {
+    this.undone = [];
+
+    const top = this.done[this.done.length - 1];
+    if (
+      top
+      && time - top.time < MERGE_WINDOW
+      && top.command.type === 'update-notes'
+      && command.type === 'update-notes'
+      && sameTargets(top.command.changes, command.changes)
+    ) {
+      const earlier = top.command.changes;
+      top.command = {
+        type: 'update-notes',
+        changes: command.changes.map((change, i) => ({ ...change, before: earlier[i].before })),
+      };
+      top.time = time;
+      return;
+    }
+
+    this.done.push({ command, time });
+    if (this.done.length > this.limit) this.done.shift();
+  }
+
+  // returns the command to apply to undo the last step
+  undo(): BoardCommand | null {
+    const entry = this.done.pop();
+    if (!entry) return null;
+    this.undone.push(entry);
+    return invertCommand(entry.command);
+  }
+
+  redo(): BoardCommand | null {
+    const entry = this.undone.pop();
+    if (!entry) return null;
+    // time 0 keeps a redone step from merging with the next edit
+    this.done.push({ command: entry.command, time: 0 });
+    return entry.command;
+  }
+
+  clear() {
+    this.done = [];
+    this.undone = [];
+  }
+}
@@ -0,0 +1,10 @@
+// Collaborators on a shared board each get a site number (1..MAX_SITES-1) and only
+// hand out ids in their own residue class, so two people adding at once never clash.
+// Site 0 is a board nobody else is editing.
+export const MAX_SITES = 64;
+
+export function nextId(ids: number[], site = 0): number {
+  const next = ids.reduce((max, id) => Math.max(max, id), 0) + 1;
+  if (site === 0) return next;
+  return next + (((site - next) % MAX_SITES) + MAX_SITES) % MAX_SITES;
+}
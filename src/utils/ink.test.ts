@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { catmullRom, inkOutlinePath, inkWidth, simplifyStroke, type InkPoint } from './ink';
+
+const point = (x: number, y: number, size = 4): InkPoint => ({ x, y, color: '#000000', size });
+
+describe('simplifyStroke', () => {
+  it('drops points that lie on the line between their neighbours', () => {
+    const line = Array.from({ length: 50 }, (_, i) => point(i * 2, i + (i % 2) * 0.5));
+    expect(simplifyStroke(line)).toEqual([line[0], line[49]]);
+  });
+
+  it('keeps corners', () => {
+    const corner = [point(0, 0), point(50, 0), point(100, 0), point(100, 50), point(100, 100)];
+    expect(simplifyStroke(corner)).toEqual([corner[0], corner[2], corner[4]]);
+  });
+
+  it('keeps a point where the width changes even on a straight line', () => {
+    const swell = [point(0, 0, 4), point(50, 0, 12), point(100, 0, 4)];
+    expect(simplifyStroke(swell)).toHaveLength(3);
+  });
+
+  it('brings a long, densely sampled arc down to a few points', () => {
+    const arc = Array.from({ length: 100_000 }, (_, i) => {
+      const angle = (i / 99_999) * Math.PI;
+      return point(200 * Math.cos(angle), 200 * Math.sin(angle));
+    });
+    const simplified = simplifyStroke(arc);
+    expect(simplified.length).toBeLessThan(50);
+    expect(simplified[0]).toBe(arc[0]);
+    expect(simplified[simplified.length - 1]).toBe(arc[99_999]);
+  });
+
+  it('leaves strokes of one or two points alone', () => {
+    const two = [point(0, 0), point(1, 1)];
+    expect(simplifyStroke(two)).toBe(two);
+  });
+});
+
+describe('inkWidth', () => {
+  it('grows with pinch strength and thins out with speed', () => {
+    expect(inkWidth(10, 0, 0)).toBeCloseTo(6);
+    expect(inkWidth(10, 1, 0)).toBeCloseTo(14);
+    expect(inkWidth(10, 1, 100)).toBeCloseTo(14 * 0.45);
+  });
+
+  it('eases towards the new width', () => {
+    expect(inkWidth(10, 1, 0, 6)).toBeCloseTo(6 + 8 * 0.35);
+  });
+});
+
+describe('catmullRom', () => {
+  it('passes through every point and interpolates widths between them', () => {
+    const points = [point(0, 0, 2), point(10, 10, 6), point(20, 0, 2)];
+    const curve = catmullRom(points, 4);
+    expect(curve).toHaveLength(9);
+    expect(curve[4]).toMatchObject({ x: 10, y: 10, size: 6 });
+    expect(curve[2].size).toBe(4);
+    expect(curve[8]).toMatchObject({ x: 20, y: 0 });
+  });
+});
+
+describe('inkOutlinePath', () => {
+  it('draws a dot as a circle and a stroke as a closed outline', () => {
+    expect(inkOutlinePath([])).toBe('');
+    expect(inkOutlinePath([point(10, 10)])).toBe('M8 10 a2 2 0 1 0 4 0 a2 2 0 1 0 -4 0 Z');
+    const path = inkOutlinePath([point(0, 0), point(10, 0)]);
+    expect(path).toBe('M0 2 L0 2 L10 2 A2 2 0 0 0 10 -2 L10 -2 L0 -2 A2 2 0 0 0 0 2 Z');
+  });
+});
@@ -0,0 +1,142 @@
+import type { DrawStroke } from '../components/DrawingCanvas';
+
+export type InkPoint = DrawStroke['points'][number];
+
+// pinch strength scales the brush between these factors
+const MIN_PRESSURE = 0.6;
+const MAX_PRESSURE = 1.4;
+// fast strokes thin out like a pen dragged quickly, px/ms
+const SPEED_THINNING = 0.4;
+const MIN_SPEED_FACTOR = 0.45;
+// share of the new width taken each point, keeps pressure noise from showing as blobs
+const WIDTH_SMOOTHING = 0.35;
+// RDP tolerance in px
+export const SIMPLIFY_TOLERANCE = 1.5;
+const SAMPLES_PER_SEGMENT = 8;
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// Width of the next point from the brush size, pinchStrength (0-1) and hand speed in px/ms
+export function inkWidth(brushSize: number, pinchStrength: number, speed: number, previous?: number) {
+  const pressure = MIN_PRESSURE + (MAX_PRESSURE - MIN_PRESSURE) * clamp(pinchStrength, 0, 1);
+  const thinning = clamp(1 / (1 + Math.max(0, speed) * SPEED_THINNING), MIN_SPEED_FACTOR, 1);
+  const target = brushSize * pressure * thinning;
+  return previous === undefined ? target : previous + (target - previous) * WIDTH_SMOOTHING;
+}
+
+function segmentDistance(p: InkPoint, a: InkPoint, b: InkPoint) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = clamp(((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq, 0, 1);
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// Ramer-Douglas-Peucker, iterative so long strokes can't overflow the stack.
+// A point whose width differs a lot from the chord is kept too, so pressure changes survive.
+export function simplifyStroke(points: InkPoint[], tolerance = SIMPLIFY_TOLERANCE): InkPoint[] {
+  if (points.length < 3) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let worst = -1;
+    let worstDistance = tolerance;
+
+    for (let i = start + 1; i < end; i++) {
+      const t = (i - start) / (end - start);
+      const chordWidth = points[start].size + (points[end].size - points[start].size) * t;
+      const distance = Math.max(
+        segmentDistance(points[i], points[start], points[end]),
+        Math.abs(points[i].size - chordWidth) / 2,
+      );
+      if (distance > worstDistance) {
+        worst = i;
+        worstDistance = distance;
+      }
+    }
+
+    if (worst >= 0) {
+      keep[worst] = 1;
+      stack.push([start, worst], [worst, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+// Uniform Catmull-Rom through every point, widths interpolated along each segment
+export function catmullRom(points: InkPoint[], samples = SAMPLES_PER_SEGMENT): InkPoint[] {
+  if (points.length < 3) return points;
+
+  const result: InkPoint[] = [points[0]];
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[Math.max(0, i - 1)];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[Math.min(points.length - 1, i + 2)];
+
+    for (let s = 1; s <= samples; s++) {
+      const t = s / samples;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      const spline = (a: number, b: number, c: number, d: number) =>
+        0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (3 * b - a - 3 * c + d) * t3);
+      result.push({
+        x: spline(p0.x, p1.x, p2.x, p3.x),
+        y: spline(p0.y, p1.y, p2.y, p3.y),
+        color: p2.color,
+        // widths are linear, a spline could overshoot below zero
+        size: p1.size + (p2.size - p1.size) * t,
+      });
+    }
+  }
+  return result;
+}
+
+const round = (v: number) => Math.round(v * 100) / 100;
+
+// Filled outline of a variable-width stroke as SVG path data. Canvas draws it through Path2D.
+export function inkOutlinePath(points: InkPoint[]): string {
+  const curve = catmullRom(points);
+  if (curve.length === 0) return '';
+
+  if (curve.length === 1) {
+    const { x, y, size } = curve[0];
+    const r = round(size / 2);
+    return `M${round(x - r)} ${round(y)} a${r} ${r} 0 1 0 ${r * 2} 0 a${r} ${r} 0 1 0 ${-r * 2} 0 Z`;
+  }
+
+  const left: string[] = [];
+  const right: string[] = [];
+  curve.forEach((p, i) => {
+    const prev = curve[Math.max(0, i - 1)];
+    const next = curve[Math.min(curve.length - 1, i + 1)];
+    const dx = next.x - prev.x;
+    const dy = next.y - prev.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const nx = (-dy / length) * (p.size / 2);
+    const ny = (dx / length) * (p.size / 2);
+    left.push(`${round(p.x + nx)} ${round(p.y + ny)}`);
+    right.push(`${round(p.x - nx)} ${round(p.y - ny)}`);
+  });
+
+  const endR = round(curve[curve.length - 1].size / 2);
+  const startR = round(curve[0].size / 2);
+  right.reverse();
+  // round caps are half circles from one side of the stroke to the other
+  return `M${left[0]} L${left.join(' L')} A${endR} ${endR} 0 0 0 ${right[0]} L${right.join(' L')} A${startR} ${startR} 0 0 0 ${left[0]} Z`;
+}
+
+// Shapes keep their corners: they're stroked along the raw polyline instead of filled as ink
+export function polylinePath(points: InkPoint[]): string {
+  if (points.length === 0) return '';
+  const [first, ...rest] = points;
+  const tail = rest.length > 0 ? rest : [first];
+  return `M${round(first.x)} ${round(first.y)} ${tail.map(p => `L${round(p.x)} ${round(p.y)}`).join(' ')}`;
+}
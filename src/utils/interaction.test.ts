@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { InteractionMachine, type InteractionPointer } from './interaction';
+
+const hand = (patch: Partial<InteractionPointer<string>> = {}): InteractionPointer<string> => ({
+  id: 1,
+  x: 100,
+  y: 100,
+  down: false,
+  target: 'note',
+  ...patch,
+});
+
+// feeds one frame and returns the states it passed through
+const step = (machine: InteractionMachine<string>, now: number, pointers: InteractionPointer<string>[]) =>
+  machine.update(now, pointers).transitions.map(t => `${t.from}->${t.to}:${t.reason}`);
+
+// hover, then press once the debounce has passed
+function pressed(machine: InteractionMachine<string>, at = 0) {
+  step(machine, at, [hand()]);
+  step(machine, at + 10, [hand({ down: true })]);
+  step(machine, at + 50, [hand({ down: true })]);
+}
+
+describe('InteractionMachine', () => {
+  it('hovers, presses, drags and releases', () => {
+    const machine = new InteractionMachine<string>();
+    expect(step(machine, 0, [hand()])).toEqual(['idle->hover:entered']);
+    expect(step(machine, 10, [hand({ down: true })])).toEqual([]);
+    expect(step(machine, 50, [hand({ down: true })])).toEqual(['hover->press:pressed']);
+    expect(step(machine, 60, [hand({ down: true, x: 120 })])).toEqual(['press->drag:moved']);
+    expect(step(machine, 70, [hand({ x: 120 })])).toEqual([]);
+    expect(step(machine, 200, [hand({ x: 120 })])).toEqual(['drag->release:let go']);
+    expect(step(machine, 210, [hand({ x: 120 })])).toEqual(['release->hover:settled']);
+  });
+
+  it('leaves hover when the pointer moves off every target', () => {
+    const machine = new InteractionMachine<string>();
+    step(machine, 0, [hand()]);
+    expect(step(machine, 10, [hand({ target: null })])).toEqual(['hover->idle:left']);
+    expect(machine.current).toBe('idle');
+  });
+
+  it('ignores a press shorter than the debounce', () => {
+    const machine = new InteractionMachine<string>();
+    step(machine, 0, [hand()]);
+    step(machine, 10, [hand({ down: true })]);
+    step(machine, 20, [hand()]);
+    expect(step(machine, 60, [hand()])).toEqual([]);
+    expect(machine.current).toBe('hover');
+  });
+
+  it('does not press with a pose that was already held when it reached the target', () => {
+    const machine = new InteractionMachine<string>();
+    step(machine, 0, [hand({ down: true, target: null })]);
+    step(machine, 10, [hand({ down: true })]);
+    step(machine, 100, [hand({ down: true })]);
+    expect(machine.engaged).toBe(false);
+  });
+
+  it('stays a press until the pointer travels the drag distance', () => {
+    const machine = new InteractionMachine<string>({ dragDistance: 40 });
+    pressed(machine);
+    expect(step(machine, 60, [hand({ down: true, x: 139 })])).toEqual([]);
+    expect(machine.current).toBe('press');
+    expect(step(machine, 70, [hand({ down: true, x: 140 })])).toEqual(['press->drag:moved']);
+  });
+
+  it('drags on the press itself when the drag distance is 0', () => {
+    const machine = new InteractionMachine<string>({ dragDistance: 0 });
+    step(machine, 0, [hand()]);
+    step(machine, 10, [hand({ down: true })]);
+    expect(step(machine, 50, [hand({ down: true })])).toEqual(['hover->press:pressed', 'press->drag:moved']);
+  });
+
+  it('turns a press held still into an edit, and letting go of it back into hover', () => {
+    const machine = new InteractionMachine<string>({ holdMs: 400 });
+    pressed(machine);
+    expect(step(machine, 400, [hand({ down: true })])).toEqual([]);
+    expect(step(machine, 450, [hand({ down: true })])).toEqual(['press->edit:held']);
+    step(machine, 460, [hand()]);
+    expect(step(machine, 600, [hand()])).toEqual(['edit->hover:let go']);
+  });
+
+  it('never edits a target canEdit turns down', () => {
+    const machine = new InteractionMachine<string>({ holdMs: 400 }, target => target !== 'note');
+    pressed(machine);
+    step(machine, 1000, [hand({ down: true })]);
+    expect(machine.current).toBe('press');
+  });
+
+  it('rides out a pose that reads as open for less than the release grace', () => {
+    const machine = new InteractionMachine<string>();
+    pressed(machine);
+    step(machine, 60, [hand()]);
+    expect(step(machine, 100, [hand({ down: true })])).toEqual([]);
+    expect(machine.current).toBe('press');
+  });
+
+  it('cancels when the hand stays lost past the grace period', () => {
+    const machine = new InteractionMachine<string>();
+    pressed(machine);
+    expect(step(machine, 100, [])).toEqual([]);
+    expect(step(machine, 250, [])).toEqual(['press->cancel:hand lost']);
+    expect(step(machine, 260, [])).toEqual(['cancel->idle:settled']);
+  });
+
+  it('cancels from outside and needs a fresh press afterwards', () => {
+    const machine = new InteractionMachine<string>();
+    pressed(machine);
+    const cancelled = machine.cancel('two hands', 60);
+    expect(cancelled).toMatchObject({ from: 'press', to: 'cancel', target: 'note', reason: 'two hands' });
+    expect(machine.cancel('again', 61)).toBeNull();
+
+    expect(step(machine, 70, [hand({ down: true })])).toEqual(['cancel->hover:settled']);
+    step(machine, 200, [hand({ down: true })]);
+    expect(machine.engaged).toBe(false);
+  });
+});
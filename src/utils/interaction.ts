@@ -0,0 +1,230 @@
+// One press-drag-release lifecycle, shared by notes, hand buttons and the drawing canvas.
+// Tracking noise is absorbed here instead of in each component's own timers: a press
+// has to hold for a moment to count, and a pose that reads as open for a frame or two,
+// or a hand that drops out of tracking briefly, doesn't end a drag.
+//
+//   idle -> hover -> press -> drag -> release
+//                      \-> edit (held still)   any press -> cancel (lost hand, or cancel())
+//
+// release and cancel last one update, then it settles back to hover or idle.
+
+export type InteractionState = 'idle' | 'hover' | 'press' | 'drag' | 'release' | 'edit' | 'cancel';
+
+export interface InteractionOptions {
+  // the press pose has to hold this long before it counts
+  pressDebounceMs: number;
+  // how long a press or drag survives the pose reading as open
+  releaseGraceMs: number;
+  // how long a press or drag survives its hand dropping out of tracking
+  lostGraceMs: number;
+  // screen px from the press point that turn a press into a drag, 0 drags right away
+  dragDistance: number;
+  // a press held this long without dragging becomes an edit, null never does
+  holdMs: number | null;
+}
+
+export const DEFAULT_INTERACTION_OPTIONS: InteractionOptions = {
+  pressDebounceMs: 30,
+  releaseGraceMs: 100,
+  lostGraceMs: 150,
+  dragDistance: 10,
+  holdMs: null,
+};
+
+// One hand as the machine sees it
+export interface InteractionPointer<T> {
+  id: number;
+  x: number;
+  y: number;
+  // the press pose (pinch, fist...) is held
+  down: boolean;
+  // what's under the pointer, null for nothing that can be pressed
+  target: T | null;
+}
+
+export interface InteractionTransition<T> {
+  from: InteractionState;
+  to: InteractionState;
+  target: T | null;
+  pointerId: number | null;
+  reason: string;
+  at: number;
+}
+
+export interface InteractionUpdate<T> {
+  state: InteractionState;
+  target: T | null;
+  // the pressing hand while engaged, otherwise the hovering one
+  pointer: InteractionPointer<T> | null;
+  transitions: InteractionTransition<T>[];
+}
+
+interface PendingPress<T> {
+  pointerId: number;
+  target: T;
+  since: number;
+}
+
+const ENGAGED: InteractionState[] = ['press', 'drag', 'edit'];
+
+export class InteractionMachine<T> {
+  private options: InteractionOptions;
+  private state: InteractionState = 'idle';
+  private target: T | null = null;
+  private pointerId: number | null = null;
+  private origin = { x: 0, y: 0 };
+  private pressedAt = 0;
+  private upSince: number | null = null;
+  private lostSince: number | null = null;
+  private pending: PendingPress<T> | null = null;
+  private lastDown = new Map<number, boolean>();
+  private transitions: InteractionTransition<T>[] = [];
+
+  private canEdit: (target: T) => boolean;
+  private onTransition?: (transition: InteractionTransition<T>) => void;
+
+  constructor(
+    options: Partial<InteractionOptions> = {},
+    // a target this returns false for never turns into an edit by holding
+    canEdit: (target: T) => boolean = () => true,
+    onTransition?: (transition: InteractionTransition<T>) => void,
+  ) {
+    this.options = { ...DEFAULT_INTERACTION_OPTIONS, ...options };
+    this.canEdit = canEdit;
+    this.onTransition = onTransition;
+  }
+
+  get current(): InteractionState {
+    return this.state;
+  }
+
+  get engaged() {
+    return ENGAGED.includes(this.state);
+  }
+
+  // Ends a press, drag or edit from outside (a collaborator took the note, another
+  // gesture took over); the hand has to let go before it can press again
+  cancel(reason = 'cancelled', now = performance.now()): InteractionTransition<T> | null {
+    if (!this.engaged) return null;
+    this.transitions = [];
+    this.go('cancel', reason, now);
+    this.pending = null;
+    return this.transitions[0];
+  }
+
+  update(now: number, pointers: InteractionPointer<T>[]): InteractionUpdate<T> {
+    this.transitions = [];
+
+    if (this.state === 'release' || this.state === 'cancel') {
+      this.settle(now, pointers);
+    }
+
+    if (this.engaged) {
+      this.follow(now, pointers);
+    } else {
+      this.watch(now, pointers);
+    }
+
+    pointers.forEach(p => this.lastDown.set(p.id, p.down));
+    this.lastDown.forEach((_, id) => {
+      if (!pointers.some(p => p.id === id)) this.lastDown.delete(id);
+    });
+
+    const pointer = pointers.find(p => p.id === this.pointerId) ?? null;
+    return { state: this.state, target: this.target, pointer, transitions: this.transitions };
+  }
+
+  private settle(now: number, pointers: InteractionPointer<T>[]) {
+    const hovering = pointers.find(p => p.target !== null);
+    this.pointerId = hovering?.id ?? null;
+    this.target = hovering?.target ?? null;
+    this.go(hovering ? 'hover' : 'idle', 'settled', now);
+  }
+
+  // the engaged hand: let go, lost, dragged away or held still
+  private follow(now: number, pointers: InteractionPointer<T>[]) {
+    const pointer = pointers.find(p => p.id === this.pointerId);
+    const { releaseGraceMs, lostGraceMs, dragDistance, holdMs } = this.options;
+
+    if (!pointer) {
+      this.upSince = null;
+      this.lostSince ??= now;
+      if (now - this.lostSince >= lostGraceMs) this.go('cancel', 'hand lost', now);
+      return;
+    }
+    this.lostSince = null;
+
+    if (!pointer.down) {
+      this.upSince ??= now;
+      if (now - this.upSince < releaseGraceMs) return;
+      // letting go of an edit isn't a click, the edit already happened
+      if (this.state === 'edit') {
+        this.target = pointer.target;
+        this.go(pointer.target !== null ? 'hover' : 'idle', 'let go', now);
+      } else {
+        this.go('release', 'let go', now);
+      }
+      return;
+    }
+    this.upSince = null;
+
+    if (this.state !== 'press') return;
+    if (Math.hypot(pointer.x - this.origin.x, pointer.y - this.origin.y) >= dragDistance) {
+      this.go('drag', 'moved', now);
+    } else if (holdMs !== null && now - this.pressedAt >= holdMs && this.target !== null && this.canEdit(this.target)) {
+      this.go('edit', 'held', now);
+    }
+  }
+
+  // not engaged: hover, and a fresh press over a target once it has held long enough
+  private watch(now: number, pointers: InteractionPointer<T>[]) {
+    const pending = this.pending;
+    const presser = pending && pointers.find(p => p.id === pending.pointerId);
+    if (pending && (!presser || !presser.down)) this.pending = null;
+
+    if (!this.pending) {
+      // a pose that was already held when it slid onto the target doesn't press it
+      const fresh = pointers.find(p => p.down && !this.lastDown.get(p.id) && p.target !== null);
+      if (fresh) this.pending = { pointerId: fresh.id, target: fresh.target as T, since: now };
+    }
+
+    const ready = this.pending;
+    const starter = ready && pointers.find(p => p.id === ready.pointerId);
+    if (ready && starter && now - ready.since >= this.options.pressDebounceMs) {
+      this.pending = null;
+      this.pointerId = starter.id;
+      this.target = ready.target;
+      this.origin = { x: starter.x, y: starter.y };
+      this.pressedAt = now;
+      this.upSince = null;
+      this.lostSince = null;
+      this.go('press', 'pressed', now);
+      if (this.options.dragDistance <= 0) this.go('drag', 'moved', now);
+      return;
+    }
+
+    const hovering = pointers.find(p => p.target !== null);
+    const next = hovering ? 'hover' : 'idle';
+    this.pointerId = hovering?.id ?? null;
+    this.target = hovering?.target ?? null;
+    if (next !== this.state) this.go(next, hovering ? 'entered' : 'left', now);
+  }
+
+  private go(to: InteractionState, reason: string, at: number) {
+    const transition: InteractionTransition<T> = { from: this.state, to, target: this.target, pointerId: this.pointerId, reason, at };
+    this.state = to;
+    this.transitions.push(transition);
+    this.onTransition?.(transition);
+  }
+}
+
+let debugInteractions: boolean | null = null;
+
+// Transitions go to the console when the page is opened with ?debugInteractions
+export function transitionLogger<T>(name: string, search = window.location.search) {
+  debugInteractions ??= new URLSearchParams(search).has('debugInteractions');
+  if (!debugInteractions) return undefined;
+  return (t: InteractionTransition<T>) => {
+    console.debug(`[${name}] ${t.from} -> ${t.to} (${t.reason})`, t.target);
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { HandData } from '../hooks/useHandTracking';
+import {
+  LandmarkRecorder,
+  RECORDING_FORMAT,
+  RECORDING_VERSION,
+  frameIndexAt,
+  parseRecording,
+  serializeRecording,
+} from './landmarkRecording';
+
+const hand = (x: number): HandData => ({
+  landmarks: Array.from({ length: 21 }, (_, i) => ({ x: x + i / 1000, y: 0.5, z: 0 })),
+  handedness: 'Right',
+  score: 0.9,
+});
+
+const header = (patch: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: RECORDING_FORMAT, version: RECORDING_VERSION, startedAt: '', duration: 0, frameCount: 0, ...patch });
+
+describe('landmark recordings', () => {
+  it('round-trips through the JSON Lines format', () => {
+    const recorder = new LandmarkRecorder();
+    recorder.start(1000);
+    recorder.push([hand(0.1)], 1000);
+    recorder.push([], 1033);
+    recorder.push([hand(0.123456789)], 1066);
+    const recording = recorder.stop();
+
+    const parsed = parseRecording(serializeRecording(recording));
+    expect(parsed.frames.map(f => f.t)).toEqual([0, 33, 66]);
+    expect(parsed.duration).toBe(66);
+    expect(parsed.frames[2].hands[0].landmarks[0].x).toBe(0.12346);
+  });
+
+  it('sorts frames by time', () => {
+    const text = [header(), JSON.stringify({ t: 50, hands: [] }), JSON.stringify({ t: 10, hands: [] })].join('\n');
+    expect(parseRecording(text).frames.map(f => f.t)).toEqual([10, 50]);
+  });
+
+  it('rejects empty input and headers that are not ours', () => {
+    expect(() => parseRecording('\n\n')).toThrow('Recording is empty');
+    expect(() => parseRecording('{')).toThrow('Recording header is not valid JSON');
+    expect(() => parseRecording(header({ format: 'other' }))).toThrow('Unknown recording format: other');
+    expect(() => parseRecording(header({ version: RECORDING_VERSION + 1 }))).toThrow('newer than supported');
+  });
+
+  it('rejects a header that is valid JSON but not an object', () => {
+    ['null', '3', '"x"'].forEach(text => {
+      expect(() => parseRecording(text)).toThrow('Unknown recording format');
+    });
+  });
+
+  it('names the line of a malformed frame', () => {
+    expect(() => parseRecording([header(), 'nope'].join('\n'))).toThrow('Line 2: frame is not valid JSON');
+    expect(() => parseRecording([header(), 'null'].join('\n'))).toThrow('Line 2: malformed frame');
+    const badHand = JSON.stringify({ t: 0, hands: [{ ...hand(0), handedness: 'Both' }] });
+    expect(() => parseRecording([header(), badHand].join('\n'))).toThrow('Line 2: malformed frame');
+  });
+
+  it('finds the frame showing at a given time', () => {
+    const text = [header(), ...[0, 33, 66].map(t => JSON.stringify({ t, hands: [] }))].join('\n');
+    const recording = parseRecording(text);
+    expect(frameIndexAt(recording, -1)).toBe(-1);
+    expect(frameIndexAt(recording, 0)).toBe(0);
+    expect(frameIndexAt(recording, 50)).toBe(1);
+    expect(frameIndexAt(recording, 1000)).toBe(2);
+  });
+});
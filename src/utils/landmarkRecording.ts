@@ -0,0 +1,171 @@
+import type { HandData } from '../hooks/useHandTracking';
+
+// JSON Lines: first line is a header, every following line is one frame
+export const RECORDING_FORMAT = 'camerahandapp-landmarks';
+export const RECORDING_VERSION = 1;
+
+const PRECISION = 5;
+
+export interface RecordedFrame {
+  t: number; // ms since recording start
+  hands: HandData[];
+}
+
+export interface HandRecording {
+  version: number;
+  startedAt: string;
+  duration: number;
+  frames: RecordedFrame[];
+}
+
+interface RecordingHeader {
+  format: string;
+  version: number;
+  startedAt: string;
+  duration: number;
+  frameCount: number;
+}
+
+function round(v: number) {
+  const f = Math.pow(10, PRECISION);
+  return Math.round(v * f) / f;
+}
+
+function compactHands(hands: HandData[]): HandData[] {
+  return hands.map(hand => ({
+    landmarks: hand.landmarks.map(lm => ({ x: round(lm.x), y: round(lm.y), z: round(lm.z || 0) })),
+    handedness: hand.handedness,
+    score: round(hand.score),
+  }));
+}
+
+export class LandmarkRecorder {
+  private frames: RecordedFrame[] = [];
+  private startTime: number | null = null;
+  private startedAt = '';
+
+  get isRecording() {
+    return this.startTime !== null;
+  }
+
+  get frameCount() {
+    return this.frames.length;
+  }
+
+  start(now = performance.now()) {
+    this.frames = [];
+    this.startTime = now;
+    this.startedAt = new Date().toISOString();
+  }
+
+  push(hands: HandData[], now = performance.now()) {
+    if (this.startTime === null) return;
+    this.frames.push({ t: Math.round(now - this.startTime), hands: compactHands(hands) });
+  }
+
+  stop(): HandRecording {
+    const frames = this.frames;
+    this.frames = [];
+    this.startTime = null;
+    return {
+      version: RECORDING_VERSION,
+      startedAt: this.startedAt,
+      duration: frames.length > 0 ? frames[frames.length - 1].t : 0,
+      frames,
+    };
+  }
+}
+
+export function serializeRecording(recording: HandRecording): string {
+  const header: RecordingHeader = {
+    format: RECORDING_FORMAT,
+    version: recording.version,
+    startedAt: recording.startedAt,
+    duration: recording.duration,
+    frameCount: recording.frames.length,
+  };
+  const lines = [JSON.stringify(header)];
+  recording.frames.forEach(frame => lines.push(JSON.stringify(frame)));
+  return lines.join('\n') + '\n';
+}
+
+export function isHandData(value: unknown): value is HandData {
+  if (!value || typeof value !== 'object') return false;
+  const hand = value as HandData;
+  return Array.isArray(hand.landmarks) &&
+    hand.landmarks.every(lm => typeof lm?.x === 'number' && typeof lm?.y === 'number') &&
+    (hand.handedness === 'Left' || hand.handedness === 'Right') &&
+    typeof hand.score === 'number';
+}
+
+export function parseRecording(text: string): HandRecording {
+  const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+  if (lines.length === 0) {
+    throw new Error('Recording is empty');
+  }
+
+  let header: RecordingHeader;
+  try {
+    header = JSON.parse(lines[0]);
+  } catch {
+    throw new Error('Recording header is not valid JSON');
+  }
+  // a header line of null, 3 or "x" parses fine but isn't one of ours either
+  const format = typeof header === 'object' && header !== null ? header.format : undefined;
+  if (format !== RECORDING_FORMAT) {
+    throw new Error(`Unknown recording format: ${String(format)}`);
+  }
+  if (header.version > RECORDING_VERSION) {
+    throw new Error(`Recording version ${header.version} is newer than supported (${RECORDING_VERSION})`);
+  }
+
+  const frames: RecordedFrame[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    let frame: RecordedFrame;
+    try {
+      frame = JSON.parse(lines[i]);
+    } catch {
+      throw new Error(`Line ${i + 1}: frame is not valid JSON`);
+    }
+    if (frame === null || typeof frame.t !== 'number' || !Array.isArray(frame.hands) || !frame.hands.every(isHandData)) {
+      throw new Error(`Line ${i + 1}: malformed frame`);
+    }
+    frames.push(frame);
+  }
+  frames.sort((a, b) => a.t - b.t);
+
+  return {
+    version: header.version,
+    startedAt: header.startedAt,
+    duration: frames.length > 0 ? frames[frames.length - 1].t : 0,
+    frames,
+  };
+}
+
+// index of the last frame at or before t, -1 if t is before the first frame
+export function frameIndexAt(recording: HandRecording, t: number): number {
+  const { frames } = recording;
+  let lo = 0;
+  let hi = frames.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].t <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+// screen-space fingertip positions of the first hand in each frame, mirrored like the cursor
+export function fingertipTrace(recording: HandRecording, width: number, height: number, landmark = 8) {
+  return recording.frames
+    .filter(frame => frame.hands.length > 0)
+    .map(frame => {
+      const tip = frame.hands[0].landmarks[landmark];
+      return { x: (1 - tip.x) * width, y: tip.y * height, t: frame.t };
+    });
+}
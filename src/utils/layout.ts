@@ -0,0 +1,145 @@
+import type { DraggableBox } from '../components/InteractiveElements';
+import type { Rect } from './geometry';
+import { isFrame, noteZ } from './notes';
+
+export const GRID_SIZE = 20;
+// how close (in screen pixels) an edge has to come before it snaps to a neighbor
+export const GUIDE_THRESHOLD = 8;
+const LAYOUT_GAP = 24;
+
+export type SnapAxis = 'x' | 'y';
+
+// A line drawn while dragging, where the note lines up with a neighbor.
+// `position` is on `axis`; the line runs from `from` to `to` on the other axis.
+export interface AlignmentGuide {
+  axis: SnapAxis;
+  position: number;
+  from: number;
+  to: number;
+}
+
+export interface SnapResult {
+  x: number;
+  y: number;
+  guides: AlignmentGuide[];
+}
+
+export const snapToGrid = (value: number, grid = GRID_SIZE) => Math.round(value / grid) * grid;
+
+// start, center and end of a rect along one axis
+const anchors = (r: Rect, axis: SnapAxis) => {
+  const start = axis === 'x' ? r.x : r.y;
+  const size = axis === 'x' ? r.width : r.height;
+  return [start, start + size / 2, start + size];
+};
+
+function snapAxis(moving: Rect, others: Rect[], axis: SnapAxis, threshold: number) {
+  let best: { delta: number; position: number } | null = null;
+  for (const other of others) {
+    for (const target of anchors(other, axis)) {
+      for (const anchor of anchors(moving, axis)) {
+        const delta = target - anchor;
+        if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+          best = { delta, position: target };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+// Lines between the snapped note and every neighbor sharing the guide position
+function guidesAt(moving: Rect, others: Rect[], axis: SnapAxis, position: number): AlignmentGuide[] {
+  const cross: SnapAxis = axis === 'x' ? 'y' : 'x';
+  const aligned = [moving, ...others.filter(other => anchors(other, axis).some(a => Math.abs(a - position) < 0.5))];
+  if (aligned.length < 2) return [];
+  const spans = aligned.flatMap(r => [anchors(r, cross)[0], anchors(r, cross)[2]]);
+  return [{ axis, position, from: Math.min(...spans), to: Math.max(...spans) }];
+}
+
+// Moves a dragged note onto a neighbor's edge or center when one is within
+// `threshold`, otherwise onto the grid when `grid` is set
+export function snapNote(moving: Rect, others: Rect[], { grid, threshold = GUIDE_THRESHOLD }: { grid?: number; threshold?: number } = {}): SnapResult {
+  const snapX = snapAxis(moving, others, 'x', threshold);
+  const snapY = snapAxis(moving, others, 'y', threshold);
+  const x = snapX ? moving.x + snapX.delta : grid ? snapToGrid(moving.x, grid) : moving.x;
+  const y = snapY ? moving.y + snapY.delta : grid ? snapToGrid(moving.y, grid) : moving.y;
+  const snapped = { ...moving, x, y };
+
+  return {
+    x,
+    y,
+    guides: [
+      ...(snapX ? guidesAt(snapped, others, 'x', snapX.position) : []),
+      ...(snapY ? guidesAt(snapped, others, 'y', snapY.position) : []),
+    ],
+  };
+}
+
+const overlaps = (a: Rect, b: Rect, gap: number) =>
+  a.x < b.x + b.width + gap && b.x < a.x + a.width + gap &&
+  a.y < b.y + b.height + gap && b.y < a.y + a.height + gap;
+
+// First spot in `area`, scanning rows from the top-left, where a note of this size
+// overlaps nothing; falls back to `fallback` when the area is full
+export function findFreeSpot(
+  size: { width: number; height: number },
+  occupied: Rect[],
+  area: Rect,
+  fallback: { x: number; y: number },
+  gap = GRID_SIZE,
+): { x: number; y: number } {
+  const step = GRID_SIZE;
+  for (let y = snapToGrid(area.y + gap); y + size.height <= area.y + area.height - gap; y += step) {
+    for (let x = snapToGrid(area.x + gap); x + size.width <= area.x + area.width - gap; x += step) {
+      const candidate = { x, y, ...size };
+      if (!occupied.some(r => overlaps(candidate, r, gap))) return { x, y };
+    }
+  }
+  return fallback;
+}
+
+// Lays notes out in rows starting at `origin`, each row as tall as its tallest note.
+// Rotation is cleared so the result lines up.
+function flow(boxes: DraggableBox[], origin: { x: number; y: number }, columns: number): DraggableBox[] {
+  let y = origin.y;
+  const placed: DraggableBox[] = [];
+  for (let i = 0; i < boxes.length; i += columns) {
+    const row = boxes.slice(i, i + columns);
+    let x = origin.x;
+    row.forEach(box => {
+      placed.push({ ...box, x, y, rotation: 0 });
+      x += box.width + LAYOUT_GAP;
+    });
+    y += Math.max(...row.map(box => box.height)) + LAYOUT_GAP;
+  }
+  return placed;
+}
+
+// keeps the input order so the arranged board can be diffed against it
+const inOrder = (boxes: DraggableBox[], placed: DraggableBox[]) => {
+  const byId = new Map(placed.map(box => [box.id, box]));
+  return boxes.map(box => byId.get(box.id) ?? box);
+};
+
+// Arranges all notes in a roughly square grid, back-to-front order. Frames stay put.
+export function arrangeGrid(boxes: DraggableBox[], origin: { x: number; y: number }): DraggableBox[] {
+  const notes = boxes.filter(box => !isFrame(box));
+  if (notes.length === 0) return boxes;
+  const sorted = [...notes].sort((a, b) => noteZ(a) - noteZ(b) || a.id - b.id);
+  return inOrder(boxes, flow(sorted, origin, Math.ceil(Math.sqrt(notes.length))));
+}
+
+// One row per note color, colors in order of first appearance
+export function arrangeByColor(boxes: DraggableBox[], origin: { x: number; y: number }): DraggableBox[] {
+  const groups = new Map<string, DraggableBox[]>();
+  boxes.filter(box => !isFrame(box)).forEach(box => groups.set(box.color, [...(groups.get(box.color) ?? []), box]));
+
+  let y = origin.y;
+  const placed = [...groups.values()].flatMap(group => {
+    const row = flow(group, { x: origin.x, y }, group.length);
+    y += Math.max(...group.map(box => box.height)) + LAYOUT_GAP * 2;
+    return row;
+  });
+  return inOrder(boxes, placed);
+}
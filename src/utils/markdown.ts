@@ -0,0 +1,152 @@
+// A small markdown subset for notes: headings, lists, task items, code blocks,
+// bold, italic, inline code and links. It builds a tree instead of HTML so nothing
+// typed into a note is ever injected into the page.
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic'; children: MdInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MdInline[] };
+
+export interface MdListItem {
+  content: MdInline[];
+  // undefined for plain items, otherwise whether the task is ticked
+  done?: boolean;
+  // source line, so a ticked box can be written back
+  line: number;
+}
+
+export type MdBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; content: MdInline[] }
+  | { type: 'paragraph'; content: MdInline[] }
+  | { type: 'list'; ordered: boolean; items: MdListItem[] }
+  | { type: 'code'; text: string };
+
+export interface ChecklistItem {
+  text: string;
+  done: boolean;
+  line: number;
+}
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s?(.*)$/;
+const FENCE = /^```/;
+// checklist notes take "[ ] item", "[x] item" or a plain line (an open item)
+const CHECKLIST_LINE = /^\s*(?:[-*+]\s+)?\[([ xX])\]\s?(.*)$/;
+
+const INLINE = /(\*\*|__)(.+?)\1|(\*|_)(.+?)\3|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+export function parseInline(text: string): MdInline[] {
+  const result: MdInline[] = [];
+  let rest = text;
+
+  while (rest.length > 0) {
+    const m = INLINE.exec(rest);
+    if (!m) {
+      result.push({ type: 'text', text: rest });
+      break;
+    }
+    if (m.index > 0) result.push({ type: 'text', text: rest.slice(0, m.index) });
+
+    if (m[2] !== undefined) {
+      result.push({ type: 'bold', children: parseInline(m[2]) });
+    } else if (m[4] !== undefined) {
+      result.push({ type: 'italic', children: parseInline(m[4]) });
+    } else if (m[5] !== undefined) {
+      result.push({ type: 'code', text: m[5] });
+    } else if (SAFE_LINK.test(m[7])) {
+      result.push({ type: 'link', href: m[7], children: parseInline(m[6]) });
+    } else {
+      // javascript: and friends stay as plain text
+      result.push({ type: 'text', text: m[0] });
+    }
+    rest = rest.slice(m.index + m[0].length);
+  }
+  return result;
+}
+
+export function parseMarkdown(text: string): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+  let list: Extract<MdBlock, { type: 'list' }> | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', content: parseInline(paragraph.join(' ')) });
+    paragraph = [];
+  };
+  const closeList = () => {
+    list = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line.trim())) {
+      flushParagraph();
+      closeList();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i].trim())) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+      closeList();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      closeList();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, content: parseInline(heading[2]) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = item[2] !== undefined;
+      if (!list || list.ordered !== ordered) {
+        list = { type: 'list', ordered, items: [] };
+        blocks.push(list);
+      }
+      const task = ordered ? null : TASK.exec(item[3]);
+      list.items.push(task
+        ? { content: parseInline(task[2]), done: task[1] !== ' ', line: i }
+        : { content: parseInline(item[3]), line: i });
+      continue;
+    }
+
+    closeList();
+    paragraph.push(line.trim());
+  }
+  flushParagraph();
+  return blocks;
+}
+
+export function parseChecklist(text: string): ChecklistItem[] {
+  return text.split('\n').flatMap((line, i) => {
+    if (line.trim() === '') return [];
+    const task = CHECKLIST_LINE.exec(line);
+    return [task ? { text: task[2], done: task[1] !== ' ', line: i } : { text: line.trim(), done: false, line: i }];
+  });
+}
+
+// Flips the task box on one line, adding a box to plain checklist lines
+export function toggleTask(text: string, line: number): string {
+  const lines = text.split('\n');
+  const current = lines[line];
+  if (current === undefined) return text;
+
+  const box = /\[([ xX])\]/.exec(current);
+  lines[line] = box
+    ? current.slice(0, box.index) + (box[1] === ' ' ? '[x]' : '[ ]') + current.slice(box.index + 3)
+    : `[x] ${current.trim()}`;
+  return lines.join('\n');
+}
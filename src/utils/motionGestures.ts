@@ -0,0 +1,215 @@
+import type { HandData } from '../hooks/useHandTracking';
+import { dist, dist3D } from './geometry';
+import { LM, handScale } from './gestureEngine';
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export type MotionGestureEvent = (
+  | { type: 'swipe'; direction: SwipeDirection; from: Point; to: Point; size: number; at: number }
+  | { type: 'circle'; direction: 'cw' | 'ccw'; center: Point; at: number }
+  | { type: 'push'; at: number; position: Point }
+  | { type: 'hold'; name: string; durationMs: number; position: Point; at: number }
+) & { handId?: number };
+
+export type MotionGestureType = MotionGestureEvent['type'];
+
+// positions are normalized and mirrored, so they line up with the screen the user sees
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Sample {
+  t: number;
+  tip: Point; // index fingertip
+  palm: Point;
+  scale: number; // wrist to middle knuckle, grows as the hand moves toward the camera
+  size: number; // handScale, what the cursor normalizes reach with
+}
+
+export interface HoldConfig {
+  name: string;
+  durationMs: number;
+}
+
+export interface MotionGestureOptions {
+  historyMs: number;
+  swipeMinDistance: number;
+  swipeMaxDuration: number;
+  // off-axis / on-axis travel allowed for a swipe
+  swipeMaxSkew: number;
+  circleWindowMs: number;
+  circleMinRadius: number;
+  circleTurns: number;
+  pushMaxDuration: number;
+  // relative growth of the hand scale that counts as a push
+  pushMinGrowth: number;
+  holds: HoldConfig[];
+  holdRadius: number;
+  // quiet time after a swipe/circle/push so one motion doesn't fire twice
+  cooldownMs: number;
+}
+
+export const DEFAULT_MOTION_OPTIONS: MotionGestureOptions = {
+  historyMs: 2000,
+  swipeMinDistance: 0.25,
+  swipeMaxDuration: 400,
+  swipeMaxSkew: 0.5,
+  circleWindowMs: 1500,
+  circleMinRadius: 0.04,
+  circleTurns: 1,
+  pushMaxDuration: 500,
+  pushMinGrowth: 0.3,
+  holds: [{ name: 'dwell', durationMs: 1200 }],
+  holdRadius: 0.015,
+  cooldownMs: 600,
+};
+
+function sample(hand: HandData, t: number): Sample {
+  const lm = hand.landmarks;
+  const tip = lm[LM.indexTip];
+  const palmPoints = [lm[LM.wrist], lm[LM.indexMCP], lm[LM.middleMCP], lm[LM.pinkyMCP]];
+  const palmX = palmPoints.reduce((sum, p) => sum + p.x, 0) / palmPoints.length;
+  const palmY = palmPoints.reduce((sum, p) => sum + p.y, 0) / palmPoints.length;
+
+  return {
+    t,
+    tip: { x: 1 - tip.x, y: tip.y },
+    palm: { x: 1 - palmX, y: palmY },
+    scale: dist3D(lm[LM.wrist], lm[LM.middleMCP]),
+    size: handScale(hand),
+  };
+}
+
+export class MotionGestureDetector {
+  private options: MotionGestureOptions;
+  private history: Sample[] = [];
+  private quietUntil = 0;
+  private firedHolds = new Set<string>();
+
+  constructor(options: Partial<MotionGestureOptions> = {}) {
+    const merged = { ...DEFAULT_MOTION_OPTIONS, ...options };
+    // keep enough history for the longest hold
+    const longestHold = Math.max(0, ...merged.holds.map(h => h.durationMs));
+    this.options = { ...merged, historyMs: Math.max(merged.historyMs, longestHold + 100) };
+  }
+
+  update(hand: HandData | null, t: number): MotionGestureEvent[] {
+    if (!hand) {
+      this.reset();
+      return [];
+    }
+
+    const current = sample(hand, t);
+    this.history.push(current);
+    while (this.history.length > 0 && t - this.history[0].t > this.options.historyMs) {
+      this.history.shift();
+    }
+
+    const events: MotionGestureEvent[] = [...this.detectHolds(current)];
+
+    if (t >= this.quietUntil) {
+      const motion = this.detectSwipe(current) ?? this.detectPush(current) ?? this.detectCircle(current);
+      if (motion) {
+        events.push(motion);
+        this.quietUntil = t + this.options.cooldownMs;
+        this.history = [current];
+      }
+    }
+
+    return events;
+  }
+
+  reset() {
+    this.history = [];
+    this.firedHolds.clear();
+  }
+
+  private detectSwipe(current: Sample): MotionGestureEvent | null {
+    const { swipeMaxDuration, swipeMinDistance, swipeMaxSkew } = this.options;
+
+    for (const past of this.history) {
+      if (current.t - past.t > swipeMaxDuration) continue;
+
+      const dx = current.palm.x - past.palm.x;
+      const dy = current.palm.y - past.palm.y;
+      const horizontal = Math.abs(dx) >= Math.abs(dy);
+      const along = horizontal ? Math.abs(dx) : Math.abs(dy);
+      const across = horizontal ? Math.abs(dy) : Math.abs(dx);
+
+      if (along >= swipeMinDistance && across <= along * swipeMaxSkew) {
+        const direction: SwipeDirection = horizontal ? (dx > 0 ? 'right' : 'left') : (dy > 0 ? 'down' : 'up');
+        return { type: 'swipe', direction, from: past.tip, to: current.tip, size: past.size, at: current.t };
+      }
+      // history is oldest first, the first in-window sample is the longest span
+      break;
+    }
+    return null;
+  }
+
+  private detectPush(current: Sample): MotionGestureEvent | null {
+    const { pushMaxDuration, pushMinGrowth } = this.options;
+    const recent = this.history.filter(s => current.t - s.t <= pushMaxDuration);
+    if (recent.length < 2) return null;
+
+    const smallest = Math.min(...recent.map(s => s.scale));
+    if (smallest > 0 && current.scale / smallest - 1 >= pushMinGrowth) {
+      return { type: 'push', at: current.t, position: current.tip };
+    }
+    return null;
+  }
+
+  private detectCircle(current: Sample): MotionGestureEvent | null {
+    const { circleWindowMs, circleMinRadius, circleTurns } = this.options;
+    const recent = this.history.filter(s => current.t - s.t <= circleWindowMs);
+    if (recent.length < 8) return null;
+
+    const center = {
+      x: recent.reduce((sum, s) => sum + s.tip.x, 0) / recent.length,
+      y: recent.reduce((sum, s) => sum + s.tip.y, 0) / recent.length,
+    };
+    const meanRadius = recent.reduce((sum, s) => sum + dist(s.tip, center), 0) / recent.length;
+    if (meanRadius < circleMinRadius) return null;
+
+    let total = 0;
+    let prev = Math.atan2(recent[0].tip.y - center.y, recent[0].tip.x - center.x);
+    for (let i = 1; i < recent.length; i++) {
+      const angle = Math.atan2(recent[i].tip.y - center.y, recent[i].tip.x - center.x);
+      let delta = angle - prev;
+      if (delta > Math.PI) delta -= Math.PI * 2;
+      if (delta < -Math.PI) delta += Math.PI * 2;
+      total += delta;
+      prev = angle;
+    }
+
+    if (Math.abs(total) < Math.PI * 2 * circleTurns) return null;
+    // screen y points down, so a positive angle sweep is clockwise on screen
+    return { type: 'circle', direction: total > 0 ? 'cw' : 'ccw', center, at: current.t };
+  }
+
+  private detectHolds(current: Sample): MotionGestureEvent[] {
+    const { holds, holdRadius } = this.options;
+    const events: MotionGestureEvent[] = [];
+
+    // how long the fingertip has stayed within holdRadius of where it is now
+    let stillSince = current.t;
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      if (dist(this.history[i].tip, current.tip) > holdRadius) break;
+      stillSince = this.history[i].t;
+    }
+    const stillFor = current.t - stillSince;
+
+    if (stillFor === 0) {
+      this.firedHolds.clear();
+    }
+
+    holds.forEach(hold => {
+      if (stillFor >= hold.durationMs && !this.firedHolds.has(hold.name)) {
+        this.firedHolds.add(hold.name);
+        events.push({ type: 'hold', name: hold.name, durationMs: hold.durationMs, position: current.tip, at: current.t });
+      }
+    });
+
+    return events;
+  }
+}
@@ -0,0 +1,57 @@
+import type { DraggableBox, NoteKind } from '../components/InteractiveElements';
+import { inRect, type Rect } from './geometry';
+
+// kinds a note's header button cycles through
+export const TEXT_KINDS: NoteKind[] = ['text', 'markdown', 'checklist'];
+export const NOTE_KINDS: NoteKind[] = [...TEXT_KINDS, 'frame'];
+
+const TRASH_WIDTH = 160;
+const TRASH_HEIGHT = 90;
+const TRASH_MARGIN = 40;
+
+// notes without a z (older boards) sit below everything raised since
+export const noteZ = (box: DraggableBox) => box.z ?? 0;
+
+// frames group the notes inside them and always sit underneath
+export const isFrame = (box: DraggableBox) => box.kind === 'frame';
+
+export function nextZ(boxes: DraggableBox[]) {
+  return boxes.reduce((max, box) => Math.max(max, noteZ(box)), 0) + 1;
+}
+
+// Stacking order on screen: every frame below every note, by z within each
+const above = (a: DraggableBox, b: DraggableBox) =>
+  isFrame(a) !== isFrame(b) ? isFrame(b) : noteZ(a) >= noteZ(b);
+
+// the topmost note under a point, a frame only when no note is
+export function noteAt(boxes: DraggableBox[], p: { x: number; y: number }): DraggableBox | undefined {
+  let top: DraggableBox | undefined;
+  boxes.forEach(box => {
+    if (inRect(p, box) && (!top || above(box, top))) top = box;
+  });
+  return top;
+}
+
+// Notes (and nested frames) whose center lies inside the frame, so they move with it
+export function frameMembers(boxes: DraggableBox[], frame: DraggableBox): DraggableBox[] {
+  if (!isFrame(frame)) return [];
+  return boxes.filter(box => box.id !== frame.id && inRect({ x: box.x + box.width / 2, y: box.y + box.height / 2 }, frame));
+}
+
+// Brings a note to the front; returns the same array if it's already there
+export function raiseNote(boxes: DraggableBox[], id: number): DraggableBox[] {
+  const box = boxes.find(b => b.id === id);
+  if (!box || boxes.every(b => b.id === id || noteZ(b) < noteZ(box))) return boxes;
+  const z = nextZ(boxes);
+  return boxes.map(b => (b.id === id ? { ...b, z } : b));
+}
+
+// dropping a dragged note here deletes it
+export function trashZone(): Rect {
+  return {
+    x: (window.innerWidth - TRASH_WIDTH) / 2,
+    y: window.innerHeight - TRASH_HEIGHT - TRASH_MARGIN,
+    width: TRASH_WIDTH,
+    height: TRASH_HEIGHT,
+  };
+}
@@ -0,0 +1,48 @@
+import { loadProfileData, saveProfileData } from './profileStorage';
+
+export interface Palette {
+  name: string;
+  colors: string[];
+}
+
+export const RECENT_COLORS_KEY = 'recent-colors';
+export const PALETTES_KEY = 'palettes';
+export const RECENT_LIMIT = 12;
+
+// the original toolbar colors, so a fresh profile still has something to pick from
+export const DEFAULT_COLORS = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A', '#98D8C8', '#000000', '#FFFFFF'];
+
+const sameColor = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// most recent first, no duplicates
+export function pushRecent(recent: string[], color: string, limit = RECENT_LIMIT): string[] {
+  if (recent.length > 0 && sameColor(recent[0], color)) return recent;
+  return [color, ...recent.filter(c => !sameColor(c, color))].slice(0, limit);
+}
+
+export function loadRecentColors(): string[] {
+  return loadProfileData<string[]>(RECENT_COLORS_KEY) ?? DEFAULT_COLORS;
+}
+
+export function saveRecentColors(colors: string[]) {
+  saveProfileData(RECENT_COLORS_KEY, colors);
+}
+
+export function loadPalettes(): Palette[] {
+  return loadProfileData<Palette[]>(PALETTES_KEY) ?? [];
+}
+
+export function savePalettes(palettes: Palette[]) {
+  saveProfileData(PALETTES_KEY, palettes);
+}
+
+// saving under an existing name replaces that palette
+export function upsertPalette(palettes: Palette[], palette: Palette): Palette[] {
+  const index = palettes.findIndex(p => p.name === palette.name);
+  if (index < 0) return [...palettes, palette];
+  return palettes.map((p, i) => (i === index ? palette : p));
+}
+
+export function addToPalette(palette: Palette, color: string): Palette {
+  return palette.colors.some(c => sameColor(c, color)) ? palette : { ...palette, colors: [...palette.colors, color] };
+}
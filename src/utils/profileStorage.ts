@@ -0,0 +1,74 @@
+const PREFIX = 'camerahandapp';
+const ACTIVE_PROFILE_KEY = `${PREFIX}:active-profile`;
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILE_PREFIX = `${PREFIX}:profile:`;
+
+function storageKey(profile: string, key: string) {
+  return `${PROFILE_PREFIX}${profile}:${key}`;
+}
+
+// profile names end at the first ':' of a storage key
+export function profileName(name: string) {
+  return name.replace(/:/g, '-').trim();
+}
+
+export function getActiveProfile(): string {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE;
+  } catch {
+    return DEFAULT_PROFILE;
+  }
+}
+
+export function setActiveProfile(profile: string) {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profile);
+}
+
+export function loadProfileData<T>(key: string, profile = getActiveProfile()): T | null {
+  try {
+    const raw = localStorage.getItem(storageKey(profile, key));
+    return raw ? JSON.parse(raw) as T : null;
+  } catch (error) {
+    console.error(`Failed to load ${key} for profile ${profile}:`, error);
+    return null;
+  }
+}
+
+export function saveProfileData<T>(key: string, value: T, profile = getActiveProfile()) {
+  try {
+    localStorage.setItem(storageKey(profile, key), JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save ${key} for profile ${profile}:`, error);
+  }
+}
+
+export function removeProfileData(key: string, profile = getActiveProfile()) {
+  localStorage.removeItem(storageKey(profile, key));
+}
+
+// Every profile with something saved, plus the default and active ones
+export function listProfiles(): string[] {
+  const names = new Set([DEFAULT_PROFILE, getActiveProfile()]);
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(PROFILE_PREFIX)) names.add(key.slice(PROFILE_PREFIX.length).split(':')[0]);
+    }
+  } catch (error) {
+    console.error('Failed to list profiles:', error);
+  }
+  return [...names].sort((a, b) => a.localeCompare(b));
+}
+
+// Removes everything saved for a profile; the default profile takes over if it was active
+export function deleteProfile(profile: string) {
+  const prefix = `${PROFILE_PREFIX}${profile}:`;
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) keys.push(key);
+  }
+  keys.forEach(key => localStorage.removeItem(key));
+  if (getActiveProfile() === profile) setActiveProfile(DEFAULT_PROFILE);
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import type { HandData } from '../hooks/useHandTracking';
+import { RECORDING_FORMAT, RECORDING_VERSION, fingertipTrace, parseRecording } from './landmarkRecording';
+import {
+  DeadZoneFilter,
+  ExponentialFilter,
+  KalmanFilter,
+  MovingAverageFilter,
+  OneEuroFilter,
+  SMOOTHING_PRESETS,
+  SmoothingPipeline,
+  meanStep,
+  smoothTrace,
+  type SmoothingPresetName,
+} from './smoothing';
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_MS = 33;
+
+// deterministic noise in [-1, 1]
+function noise(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return (state / 2147483648) * 2 - 1;
+  };
+}
+
+const handAt = (x: number, y: number): HandData => ({
+  landmarks: Array.from({ length: 21 }, () => ({ x, y, z: 0 })),
+  handedness: 'Right',
+  score: 1,
+});
+
+// a recording as the recorder writes it, one fingertip position per frame
+function recording(positions: { x: number; y: number }[]) {
+  const header = { format: RECORDING_FORMAT, version: RECORDING_VERSION, startedAt: '', duration: 0, frameCount: positions.length };
+  const frames = positions.map((p, i) => JSON.stringify({ t: i * FRAME_MS, hands: [handAt(p.x, p.y)] }));
+  return parseRecording([JSON.stringify(header), ...frames].join('\n'));
+}
+
+// a hand resting at the middle of the frame with tracking jitter of about 3px
+function stillTrace() {
+  const jitter = noise(7);
+  const positions = Array.from({ length: 90 }, () => ({ x: 0.5 + jitter() * 3 / WIDTH, y: 0.5 + jitter() * 3 / HEIGHT }));
+  return fingertipTrace(recording(positions), WIDTH, HEIGHT);
+}
+
+// a clean sweep across the frame at a steady speed
+function sweepTrace() {
+  const positions = Array.from({ length: 30 }, (_, i) => ({ x: 0.8 - i * 0.02, y: 0.5 }));
+  return fingertipTrace(recording(positions), WIDTH, HEIGHT);
+}
+
+describe('smoothing presets on recorded traces', () => {
+  const presets = Object.keys(SMOOTHING_PRESETS) as SmoothingPresetName[];
+
+  it.each(presets)('%s steadies a resting hand', name => {
+    const raw = stillTrace();
+    const smoothed = smoothTrace(raw, SMOOTHING_PRESETS[name]);
+    expect(meanStep(smoothed)).toBeLessThan(meanStep(raw) * 0.75);
+  });
+
+  it.each(['balanced', 'precise'] as const)('%s all but removes the jitter of a resting hand', name => {
+    const raw = stillTrace();
+    expect(meanStep(smoothTrace(raw, SMOOTHING_PRESETS[name]))).toBeLessThan(meanStep(raw) * 0.2);
+  });
+
+  // how many frames of travel the cursor trails the hand by at the end of a sweep
+  const lag = (name: SmoothingPresetName) => {
+    const raw = sweepTrace();
+    const smoothed = smoothTrace(raw, SMOOTHING_PRESETS[name]);
+    const last = raw.length - 1;
+    return Math.abs(smoothed[last].x - raw[last].x) / (0.02 * WIDTH);
+  };
+
+  it.each(['balanced', 'precise', 'responsive'] as const)('%s keeps up with a sweep', name => {
+    expect(lag(name)).toBeLessThan(1);
+  });
+
+  it('lags less with One-Euro than the old average-and-lerp cursor', () => {
+    expect(lag('balanced')).toBeLessThan(lag('legacy') / 4);
+  });
+});
+
+describe('fingertipTrace', () => {
+  it('mirrors into screen space and skips frames without hands', () => {
+    const rec = recording([{ x: 0.25, y: 0.5 }]);
+    rec.frames.push({ t: 100, hands: [] });
+    expect(fingertipTrace(rec, WIDTH, HEIGHT)).toEqual([{ x: 0.75 * WIDTH, y: 0.5 * HEIGHT, t: 0 }]);
+  });
+});
+
+describe('filters', () => {
+  it('passes the first point through untouched', () => {
+    [new OneEuroFilter(), new KalmanFilter(), new ExponentialFilter(), new MovingAverageFilter(), new DeadZoneFilter()].forEach(f => {
+      expect(f.filter({ x: 10, y: 20 }, 0)).toEqual({ x: 10, y: 20 });
+    });
+  });
+
+  it('moves an exponential filter alpha of the way to the input', () => {
+    const f = new ExponentialFilter(0.25);
+    f.filter({ x: 0, y: 0 });
+    expect(f.filter({ x: 100, y: -100 })).toEqual({ x: 25, y: -25 });
+  });
+
+  it('averages over the last size points', () => {
+    const f = new MovingAverageFilter(2);
+    f.filter({ x: 0, y: 0 });
+    f.filter({ x: 10, y: 0 });
+    expect(f.filter({ x: 20, y: 0 })).toEqual({ x: 15, y: 0 });
+  });
+
+  it('holds inside the dead zone and drags along its edge outside it', () => {
+    const f = new DeadZoneFilter(5);
+    f.filter({ x: 0, y: 0 });
+    expect(f.filter({ x: 3, y: 4 })).toEqual({ x: 0, y: 0 });
+    expect(f.filter({ x: 15, y: 0 })).toEqual({ x: 10, y: 0 });
+  });
+
+  it('settles a Kalman filter on a constant input', () => {
+    const f = new KalmanFilter();
+    f.filter({ x: 0, y: 0 });
+    let p = { x: 0, y: 0 };
+    for (let i = 0; i < 100; i++) p = f.filter({ x: 50, y: 50 });
+    expect(p.x).toBeCloseTo(50, 1);
+  });
+
+  it('starts a pipeline over after reset', () => {
+    const pipeline = new SmoothingPipeline(SMOOTHING_PRESETS.legacy);
+    pipeline.filter({ x: 0, y: 0 }, 0);
+    pipeline.filter({ x: 100, y: 100 }, 33);
+    pipeline.reset();
+    expect(pipeline.filter({ x: 500, y: 500 }, 66)).toEqual({ x: 500, y: 500 });
+  });
+});
+
+describe('meanStep', () => {
+  it('is the mean distance between consecutive points', () => {
+    expect(meanStep([])).toBe(0);
+    expect(meanStep([{ x: 0, y: 0 }, { x: 3, y: 4 }, { x: 3, y: 4 }])).toBe(2.5);
+  });
+});
@@ -28,3 +28,328 @@ export class CoordinateSmoother {
     this.lastY = null;
   }
 }
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+// t is in ms, positions in whatever unit the caller uses (the cursor uses screen pixels)
+export interface PointFilter {
+  filter(p: Point2D, t: number): Point2D;
+  reset(): void;
+}
+
+export type SmoothingStage =
+  | { type: 'one-euro'; minCutoff: number; beta: number; dCutoff?: number }
+  | { type: 'kalman'; processNoise: number; measurementNoise: number }
+  | { type: 'exponential'; alpha: number }
+  // exponential whose alpha moves from minAlpha to maxAlpha as speed (units/ms) goes from slowSpeed to fastSpeed
+  | { type: 'adaptive'; minAlpha: number; maxAlpha: number; slowSpeed: number; fastSpeed: number }
+  | { type: 'moving-average'; size: number }
+  | { type: 'dead-zone'; radius: number };
+
+function lowPassAlpha(cutoffHz: number, dtSeconds: number) {
+  const tau = 1 / (2 * Math.PI * cutoffHz);
+  return 1 / (1 + tau / dtSeconds);
+}
+
+class OneEuro1D {
+  private x: number | null = null;
+  private dx = 0;
+  private lastT = 0;
+  private minCutoff: number;
+  private beta: number;
+  private dCutoff: number;
+
+  constructor(minCutoff: number, beta: number, dCutoff: number) {
+    this.minCutoff = minCutoff;
+    this.beta = beta;
+    this.dCutoff = dCutoff;
+  }
+
+  filter(value: number, t: number) {
+    if (this.x === null) {
+      this.x = value;
+      this.lastT = t;
+      return value;
+    }
+
+    const dt = Math.max(1, t - this.lastT) / 1000;
+    this.lastT = t;
+
+    const rawDx = (value - this.x) / dt;
+    this.dx += (rawDx - this.dx) * lowPassAlpha(this.dCutoff, dt);
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.dx);
+    this.x += (value - this.x) * lowPassAlpha(cutoff, dt);
+    return this.x;
+  }
+
+  reset() {
+    this.x = null;
+    this.dx = 0;
+  }
+}
+
+// Casiez et al. 2012: low cutoff (less jitter) when slow, higher cutoff (less lag) when fast
+export class OneEuroFilter implements PointFilter {
+  private fx: OneEuro1D;
+  private fy: OneEuro1D;
+
+  constructor(minCutoff = 1, beta = 0.01, dCutoff = 1) {
+    this.fx = new OneEuro1D(minCutoff, beta, dCutoff);
+    this.fy = new OneEuro1D(minCutoff, beta, dCutoff);
+  }
+
+  filter(p: Point2D, t: number) {
+    return { x: this.fx.filter(p.x, t), y: this.fy.filter(p.y, t) };
+  }
+
+  reset() {
+    this.fx.reset();
+    this.fy.reset();
+  }
+}
+
+class Kalman1D {
+  private estimate: number | null = null;
+  private error = 1;
+  private q: number;
+  private r: number;
+
+  constructor(processNoise: number, measurementNoise: number) {
+    this.q = processNoise;
+    this.r = measurementNoise;
+  }
+
+  filter(value: number) {
+    if (this.estimate === null) {
+      this.estimate = value;
+      this.error = this.r;
+      return value;
+    }
+    this.error += this.q;
+    const gain = this.error / (this.error + this.r);
+    this.estimate += gain * (value - this.estimate);
+    this.error *= 1 - gain;
+    return this.estimate;
+  }
+
+  reset() {
+    this.estimate = null;
+    this.error = 1;
+  }
+}
+
+export class KalmanFilter implements PointFilter {
+  private kx: Kalman1D;
+  private ky: Kalman1D;
+
+  constructor(processNoise = 1, measurementNoise = 10) {
+    this.kx = new Kalman1D(processNoise, measurementNoise);
+    this.ky = new Kalman1D(processNoise, measurementNoise);
+  }
+
+  filter(p: Point2D) {
+    return { x: this.kx.filter(p.x), y: this.ky.filter(p.y) };
+  }
+
+  reset() {
+    this.kx.reset();
+    this.ky.reset();
+  }
+}
+
+export class ExponentialFilter implements PointFilter {
+  private last: Point2D | null = null;
+  private alpha: number;
+
+  constructor(alpha = 0.3) {
+    this.alpha = Math.max(0, Math.min(1, alpha));
+  }
+
+  filter(p: Point2D) {
+    if (!this.last) {
+      this.last = p;
+      return p;
+    }
+    this.last = {
+      x: this.last.x + (p.x - this.last.x) * this.alpha,
+      y: this.last.y + (p.y - this.last.y) * this.alpha,
+    };
+    return this.last;
+  }
+
+  reset() {
+    this.last = null;
+  }
+}
+
+export class AdaptiveExponentialFilter implements PointFilter {
+  private last: Point2D | null = null;
+  private lastInput: Point2D | null = null;
+  private lastT = 0;
+  private minAlpha: number;
+  private maxAlpha: number;
+  private slowSpeed: number;
+  private fastSpeed: number;
+
+  constructor(minAlpha = 0.15, maxAlpha = 0.8, slowSpeed = 0.05, fastSpeed = 1.5) {
+    this.minAlpha = minAlpha;
+    this.maxAlpha = maxAlpha;
+    this.slowSpeed = slowSpeed;
+    this.fastSpeed = fastSpeed;
+  }
+
+  filter(p: Point2D, t: number) {
+    if (!this.last || !this.lastInput) {
+      this.last = p;
+      this.lastInput = p;
+      this.lastT = t;
+      return p;
+    }
+
+    const dt = Math.max(1, t - this.lastT);
+    const speed = Math.hypot(p.x - this.lastInput.x, p.y - this.lastInput.y) / dt;
+    const k = Math.max(0, Math.min(1, (speed - this.slowSpeed) / (this.fastSpeed - this.slowSpeed)));
+    const alpha = this.minAlpha + (this.maxAlpha - this.minAlpha) * k;
+
+    this.lastInput = p;
+    this.lastT = t;
+    this.last = {
+      x: this.last.x + (p.x - this.last.x) * alpha,
+      y: this.last.y + (p.y - this.last.y) * alpha,
+    };
+    return this.last;
+  }
+
+  reset() {
+    this.last = null;
+    this.lastInput = null;
+  }
+}
+
+export class MovingAverageFilter implements PointFilter {
+  private buffer: Point2D[] = [];
+  private size: number;
+
+  constructor(size = 3) {
+    this.size = Math.max(1, Math.round(size));
+  }
+
+  filter(p: Point2D) {
+    this.buffer.push(p);
+    if (this.buffer.length > this.size) {
+      this.buffer.shift();
+    }
+    return {
+      x: this.buffer.reduce((sum, q) => sum + q.x, 0) / this.buffer.length,
+      y: this.buffer.reduce((sum, q) => sum + q.y, 0) / this.buffer.length,
+    };
+  }
+
+  reset() {
+    this.buffer = [];
+  }
+}
+
+// Output stays put until the input leaves a circle around it, then gets dragged along its edge
+export class DeadZoneFilter implements PointFilter {
+  private last: Point2D | null = null;
+  private radius: number;
+
+  constructor(radius = 2) {
+    this.radius = radius;
+  }
+
+  filter(p: Point2D) {
+    if (!this.last) {
+      this.last = p;
+      return p;
+    }
+    const dx = p.x - this.last.x;
+    const dy = p.y - this.last.y;
+    const d = Math.hypot(dx, dy);
+    if (d > this.radius) {
+      const k = (d - this.radius) / d;
+      this.last = { x: this.last.x + dx * k, y: this.last.y + dy * k };
+    }
+    return this.last;
+  }
+
+  reset() {
+    this.last = null;
+  }
+}
+
+export function createFilter(stage: SmoothingStage): PointFilter {
+  switch (stage.type) {
+    case 'one-euro':
+      return new OneEuroFilter(stage.minCutoff, stage.beta, stage.dCutoff);
+    case 'kalman':
+      return new KalmanFilter(stage.processNoise, stage.measurementNoise);
+    case 'exponential':
+      return new ExponentialFilter(stage.alpha);
+    case 'adaptive':
+      return new AdaptiveExponentialFilter(stage.minAlpha, stage.maxAlpha, stage.slowSpeed, stage.fastSpeed);
+    case 'moving-average':
+      return new MovingAverageFilter(stage.size);
+    case 'dead-zone':
+      return new DeadZoneFilter(stage.radius);
+  }
+}
+
+export class SmoothingPipeline implements PointFilter {
+  private filters: PointFilter[];
+
+  constructor(stages: SmoothingStage[]) {
+    this.filters = stages.map(createFilter);
+  }
+
+  filter(p: Point2D, t: number) {
+    return this.filters.reduce((q, f) => f.filter(q, t), p);
+  }
+
+  reset() {
+    this.filters.forEach(f => f.reset());
+  }
+}
+
+export type SmoothingPresetName = 'legacy' | 'balanced' | 'precise' | 'responsive';
+
+export const SMOOTHING_PRESETS: Record<SmoothingPresetName, SmoothingStage[]> = {
+  // what VirtualCursor did before the pipeline: 3-sample average + 0.3 lerp
+  legacy: [
+    { type: 'moving-average', size: 3 },
+    { type: 'exponential', alpha: 0.3 },
+  ],
+  balanced: [
+    { type: 'one-euro', minCutoff: 1.2, beta: 0.02 },
+    { type: 'dead-zone', radius: 1 },
+  ],
+  // for small targets like the color swatches
+  precise: [
+    { type: 'one-euro', minCutoff: 0.6, beta: 0.01 },
+    { type: 'dead-zone', radius: 2.5 },
+  ],
+  responsive: [
+    { type: 'adaptive', minAlpha: 0.25, maxAlpha: 0.9, slowSpeed: 0.05, fastSpeed: 1.2 },
+  ],
+};
+
+// Runs a whole trace through a fresh pipeline, for comparing settings against recorded sessions
+export function smoothTrace(trace: (Point2D & { t: number })[], stages: SmoothingStage[]): Point2D[] {
+  const pipeline = new SmoothingPipeline(stages);
+  return trace.map(p => pipeline.filter({ x: p.x, y: p.y }, p.t));
+}
+
+// mean distance between consecutive points, a rough jitter measure for still segments
+export function meanStep(points: Point2D[]): number {
+  if (points.length < 2) return 0;
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return total / (points.length - 1);
+}
@@ -0,0 +1,98 @@
+import type { DrawStroke } from '../components/DrawingCanvas';
+import { inkOutlinePath, polylinePath } from './ink';
+import { DEFAULT_CAMERA, sameCamera, type Camera } from './camera';
+
+function paint(ctx: CanvasRenderingContext2D, stroke: DrawStroke) {
+  if (stroke.points.length === 0) return;
+  if (stroke.shape) {
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.stroke(new Path2D(polylinePath(stroke.points)));
+  } else {
+    ctx.fillStyle = stroke.color;
+    ctx.fill(new Path2D(inkOutlinePath(stroke.points)));
+  }
+}
+
+// Two stacked canvases: committed strokes are painted once into the bottom layer and
+// only the stroke being drawn is repainted each frame on the top one.
+export class StrokeLayers {
+  private committed: HTMLCanvasElement;
+  private liveCanvas: HTMLCanvasElement;
+  private drawn: DrawStroke[] = [];
+  private width = 0;
+  private height = 0;
+  private dpr = 1;
+  private camera: Camera = DEFAULT_CAMERA;
+  private live: DrawStroke | null = null;
+
+  constructor(committed: HTMLCanvasElement, live: HTMLCanvasElement) {
+    this.committed = committed;
+    this.liveCanvas = live;
+  }
+
+  // Clears the canvas and sets it up for drawing in world coordinates
+  private context(canvas: HTMLCanvasElement, clear: boolean) {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    if (clear) {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    }
+    // the backing store is scaled for sharp high-DPI output, then the camera is applied
+    const scale = this.dpr * this.camera.zoom;
+    ctx.setTransform(scale, 0, 0, scale, -this.camera.x * scale, -this.camera.y * scale);
+    return ctx;
+  }
+
+  // Resizing clears the backing stores, so the committed layer is repainted from stroke data
+  resize(width: number, height: number, dpr = window.devicePixelRatio || 1) {
+    if (width === this.width && height === this.height && dpr === this.dpr) return;
+    this.width = width;
+    this.height = height;
+    this.dpr = dpr;
+
+    [this.committed, this.liveCanvas].forEach(canvas => {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+    });
+
+    this.repaint();
+  }
+
+  // Panning or zooming repaints both layers from data
+  setCamera(camera: Camera) {
+    if (sameCamera(camera, this.camera)) return;
+    this.camera = camera;
+    this.repaint();
+  }
+
+  private repaint() {
+    const strokes = this.drawn;
+    this.drawn = [];
+    this.setStrokes(strokes);
+    this.setLive(this.live);
+  }
+
+  // Appended strokes are painted on top of what's there, anything else (undo, clear) repaints
+  setStrokes(strokes: DrawStroke[]) {
+    const appended = strokes.length >= this.drawn.length && this.drawn.every((stroke, i) => strokes[i] === stroke);
+    const ctx = this.context(this.committed, !appended);
+    if (!ctx) return;
+
+    const start = appended ? this.drawn.length : 0;
+    for (let i = start; i < strokes.length; i++) {
+      paint(ctx, strokes[i]);
+    }
+    this.drawn = strokes;
+  }
+
+  setLive(stroke: DrawStroke | null) {
+    this.live = stroke;
+    const ctx = this.context(this.liveCanvas, true);
+    if (!ctx) return;
+    if (stroke) paint(ctx, stroke);
+  }
+}
@@ -0,0 +1,38 @@
+import { loadProfileData, saveProfileData } from './profileStorage';
+import type { SmoothingPresetName } from './smoothing';
+
+export type DominantHand = 'Left' | 'Right';
+
+// How one person's hands are read; calibration and trained gestures sit next to these in the profile
+export interface UserSettings {
+  // null: whichever hand showed up first drives the cursor
+  dominantHand: DominantHand | null;
+  smoothing: SmoothingPresetName;
+  // see GestureSensitivity, 1 is the stock tuning
+  pinchSensitivity: number;
+  fistSensitivity: number;
+  // scale cursor travel by hand size, so leaning back doesn't shrink reach
+  normalizeReach: boolean;
+}
+
+export const SETTINGS_KEY = 'settings';
+
+export const SENSITIVITY_MIN = 0.5;
+export const SENSITIVITY_MAX = 2;
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  dominantHand: null,
+  smoothing: 'balanced',
+  pinchSensitivity: 1,
+  fistSensitivity: 1,
+  normalizeReach: true,
+};
+
+// missing keys (older saves) fall back to the defaults
+export function loadSettings(profile?: string): UserSettings {
+  return { ...DEFAULT_SETTINGS, ...loadProfileData<Partial<UserSettings>>(SETTINGS_KEY, profile) };
+}
+
+export function saveSettings(settings: UserSettings, profile?: string) {
+  saveProfileData(SETTINGS_KEY, settings, profile);
+}
@@ -0,0 +1,98 @@
+// Local word list for the air keyboard, most common first. Words already written in
+// notes are suggested ahead of it, so a board's own vocabulary comes up quickly.
+const COMMON_WORDS = `the be to of and a in that have it for not on with he as you do at this but his by from
+they we say her she or an will my one all would there their what so up out if about who get which go me when
+make can like time no just him know take people into year your good some could them see other than then now
+look only come its over think also back after use two how our work first well way even new want because any
+these give day most us is are was were been has had did said made went done idea ideas note notes list task
+tasks plan plans team meeting project design draw drawing board sketch color colors user users test tests
+review feedback goal goals next step steps todo today tomorrow week month launch release feature features
+bug bugs fix issue issues question questions answer customer customers product price market research data
+should need needs must might may very more much many great small big large long little own old right left
+high low early late important different same able last long thing things world life hand hands part place
+case point group number problem fact home water room mother area money story lot study book eye job word
+business side kind head house service friend father power hour game line end member law car city community
+name president team minute school state family student country system program government company where why
+here each every few both those while such again still never always often sometimes before between under
+around during without through against among however already yet ready start stop open close move keep let
+help show try call ask feel leave put mean become begin seem talk turn hold bring write read run play live
+believe happen provide sit stand lose pay meet include continue set learn change lead understand watch
+follow create speak allow add spend grow offer remember love consider appear buy wait serve die send expect
+build stay fall cut reach kill remain suggest raise pass sell require report decide pull brainstorm sticky
+canvas gesture gestures camera pinch swipe keyboard text markdown checklist palette brush shape shapes
+hello thanks please yes okay sure maybe check share update updates schedule budget deadline priority
+priorities summary draft final version content page pages website app mobile desktop email phone`
+  .split(/\s+/)
+  .filter(Boolean);
+
+const DICTIONARY = [...new Set(COMMON_WORDS)];
+const RANK = new Map(DICTIONARY.map((word, i) => [word, i]));
+
+const WORD = /[a-z']+/gi;
+
+// how often each word appears in the given texts, e.g. the board's notes
+export function vocabularyOf(texts: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  texts.forEach(text => {
+    (text.toLowerCase().match(WORD) ?? []).forEach(word => {
+      if (word.length > 1) counts.set(word, (counts.get(word) ?? 0) + 1);
+    });
+  });
+  return counts;
+}
+
+function matchCase(word: string, like: string) {
+  return like.length > 0 && like[0] !== like[0].toLowerCase() ? word[0].toUpperCase() + word.slice(1) : word;
+}
+
+// dictionary rank 0 scores 1, the tail approaches 0; board words get a boost per use
+function score(word: string, vocabulary: Map<string, number>) {
+  const rank = RANK.get(word);
+  const common = rank === undefined ? 0 : 1 - rank / DICTIONARY.length;
+  return common + (vocabulary.get(word) ?? 0);
+}
+
+function candidates(vocabulary: Map<string, number>) {
+  return new Set([...vocabulary.keys(), ...DICTIONARY]);
+}
+
+// Completions of the word being typed, best first
+export function predictWords(prefix: string, vocabulary = new Map<string, number>(), limit = 3): string[] {
+  const lower = prefix.toLowerCase();
+  if (lower.length === 0) return [];
+  return [...candidates(vocabulary)]
+    .filter(word => word.startsWith(lower) && word !== lower)
+    .sort((a, b) => score(b, vocabulary) - score(a, vocabulary))
+    .slice(0, limit)
+    .map(word => matchCase(word, prefix));
+}
+
+const collapse = (s: string) => s.replace(/(.)\1+/g, '$1');
+
+function isSubsequence(needle: string, haystack: string) {
+  let i = 0;
+  for (const ch of haystack) {
+    if (ch === needle[i]) i++;
+    if (i === needle.length) return true;
+  }
+  return needle.length === 0;
+}
+
+// Words a swipe could spell: same first and last key, and every letter passed on the way.
+// `keys` are the letters under the fingertip in order, repeats are fine.
+export function decodeSwipe(keys: string, vocabulary = new Map<string, number>(), limit = 3): string[] {
+  const path = collapse(keys.toLowerCase());
+  if (path.length < 2) return [];
+  const first = path[0];
+  const last = path[path.length - 1];
+
+  return [...candidates(vocabulary)]
+    .filter(word => word.length > 1 && word[0] === first && word[word.length - 1] === last)
+    .map(word => ({ word, letters: collapse(word) }))
+    .filter(({ letters }) => isSubsequence(letters, path))
+    // words that explain more of the path win, frequency breaks ties
+    .map(({ word, letters }) => ({ word, rank: letters.length / path.length + 0.3 * score(word, vocabulary) }))
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, limit)
+    .map(({ word }) => word);
+}
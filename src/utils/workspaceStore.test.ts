@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { WORKSPACE_VERSION, WorkspaceStore, migrateWorkspace, type KeyValueStorage } from './workspaceStore';
+
+function memoryStorage(): KeyValueStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value),
+    removeItem: key => void data.delete(key),
+  };
+}
+
+describe('migrateWorkspace', () => {
+  it('upgrades an unversioned document to the current version', () => {
+    const workspace = migrateWorkspace({ id: 'a', name: 'Old board', boxes: [{ id: 1 }] });
+    expect(workspace.version).toBe(WORKSPACE_VERSION);
+    expect(workspace.boxes).toEqual([{ id: 1 }]);
+    expect(workspace.strokes).toEqual([]);
+    expect(workspace.connectors).toEqual([]);
+    expect(workspace.createdAt).toBe(new Date(0).toISOString());
+  });
+
+  it('adds connectors to a version 1 document and keeps the rest', () => {
+    const boxes = [{ id: 1 }, { id: 2 }];
+    const workspace = migrateWorkspace({ version: 1, id: 'a', name: 'Board', createdAt: 'c', updatedAt: 'u', boxes, strokes: [] });
+    expect(workspace).toEqual({ version: 2, id: 'a', name: 'Board', createdAt: 'c', updatedAt: 'u', boxes, strokes: [], connectors: [] });
+  });
+
+  it('leaves a current document alone', () => {
+    const doc = { version: WORKSPACE_VERSION, id: 'a', name: 'Board', createdAt: 'c', updatedAt: 'u', boxes: [], strokes: [], connectors: [] };
+    expect(migrateWorkspace(doc)).toEqual(doc);
+  });
+
+  it('rejects documents it cannot read', () => {
+    expect(() => migrateWorkspace(null)).toThrow('Workspace is not an object');
+    expect(() => migrateWorkspace({ version: WORKSPACE_VERSION + 1, id: 'a', name: 'x' })).toThrow('newer than supported');
+    expect(() => migrateWorkspace({ name: 'no id' })).toThrow('missing its id or name');
+  });
+});
+
+describe('WorkspaceStore', () => {
+  it('writes upgraded documents back on load', () => {
+    const storage = memoryStorage();
+    storage.setItem('camerahandapp:workspace:a', JSON.stringify({ id: 'a', name: 'Old board' }));
+    const store = new WorkspaceStore(storage);
+
+    expect(store.load('a')?.version).toBe(WORKSPACE_VERSION);
+    expect(JSON.parse(storage.data.get('camerahandapp:workspace:a')!).version).toBe(WORKSPACE_VERSION);
+    expect(store.list().map(w => w.name)).toEqual(['Old board']);
+  });
+
+  it('skips unreadable workspaces when restoring the last session', () => {
+    const storage = memoryStorage();
+    const store = new WorkspaceStore(storage);
+    const kept = store.create('Kept');
+    const broken = store.create('Broken');
+    store.setLastOpened(broken.id);
+    storage.setItem(`camerahandapp:workspace:${broken.id}`, '{');
+
+    expect(store.restoreLast().id).toBe(kept.id);
+  });
+
+  it('drops removed workspaces from the index', () => {
+    const store = new WorkspaceStore(memoryStorage());
+    const workspace = store.create('Gone');
+    store.setLastOpened(workspace.id);
+    store.remove(workspace.id);
+    expect(store.list()).toEqual([]);
+    expect(store.load(workspace.id)).toBeNull();
+  });
+});
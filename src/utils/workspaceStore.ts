@@ -0,0 +1,210 @@
+import type { DraggableBox } from '../components/InteractiveElements';
+import type { DrawStroke } from '../components/DrawingCanvas';
+import type { Camera } from './camera';
+import type { Connector } from './connectors';
+
+export const WORKSPACE_VERSION = 2;
+
+const PREFIX = 'camerahandapp';
+const INDEX_KEY = `${PREFIX}:workspaces`;
+const workspaceKey = (id: string) => `${PREFIX}:workspace:${id}`;
+
+export interface Workspace {
+  version: number;
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  boxes: DraggableBox[];
+  strokes: DrawStroke[];
+  connectors: Connector[];
+  // last view of the board, restored when it's opened
+  camera?: Camera;
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  noteCount: number;
+  strokeCount: number;
+}
+
+interface WorkspaceIndex {
+  lastOpenedId: string | null;
+  workspaces: WorkspaceSummary[];
+}
+
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+type RawDocument = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n document to n + 1. Unversioned documents count as version 0.
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  0: (doc) => ({
+    ...doc,
+    version: 1,
+    createdAt: typeof doc.createdAt === 'string' ? doc.createdAt : new Date(0).toISOString(),
+    updatedAt: typeof doc.updatedAt === 'string' ? doc.updatedAt : new Date(0).toISOString(),
+    boxes: Array.isArray(doc.boxes) ? doc.boxes : [],
+    strokes: Array.isArray(doc.strokes) ? doc.strokes : [],
+  }),
+  1: (doc) => ({
+    ...doc,
+    version: 2,
+    connectors: [],
+  }),
+};
+
+export function migrateWorkspace(raw: unknown): Workspace {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Workspace is not an object');
+  }
+
+  let doc = raw as RawDocument;
+  let version = typeof doc.version === 'number' ? doc.version : 0;
+  if (version > WORKSPACE_VERSION) {
+    throw new Error(`Workspace version ${version} is newer than supported (${WORKSPACE_VERSION})`);
+  }
+
+  while (version < WORKSPACE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from workspace version ${version}`);
+    }
+    doc = migrate(doc);
+    version = doc.version as number;
+  }
+
+  if (typeof doc.id !== 'string' || typeof doc.name !== 'string') {
+    throw new Error('Workspace is missing its id or name');
+  }
+  return doc as unknown as Workspace;
+}
+
+export function createId() {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function summarize(workspace: Workspace): WorkspaceSummary {
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    updatedAt: workspace.updatedAt,
+    noteCount: workspace.boxes.length,
+    strokeCount: workspace.strokes.length,
+  };
+}
+
+export function emptyWorkspace(name: string): Workspace {
+  const now = new Date().toISOString();
+  return {
+    version: WORKSPACE_VERSION,
+    id: createId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    boxes: [],
+    strokes: [],
+    connectors: [],
+  };
+}
+
+export class WorkspaceStore {
+  private storage: KeyValueStorage;
+
+  constructor(storage: KeyValueStorage = localStorage) {
+    this.storage = storage;
+  }
+
+  private readIndex(): WorkspaceIndex {
+    try {
+      const raw = this.storage.getItem(INDEX_KEY);
+      if (raw) {
+        const index = JSON.parse(raw) as WorkspaceIndex;
+        if (Array.isArray(index.workspaces)) return index;
+      }
+    } catch (error) {
+      console.error('Failed to read workspace index:', error);
+    }
+    return { lastOpenedId: null, workspaces: [] };
+  }
+
+  private writeIndex(index: WorkspaceIndex) {
+    this.storage.setItem(INDEX_KEY, JSON.stringify(index));
+  }
+
+  list(): WorkspaceSummary[] {
+    return [...this.readIndex().workspaces].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  load(id: string): Workspace | null {
+    try {
+      const raw = this.storage.getItem(workspaceKey(id));
+      if (!raw) return null;
+      const parsed = JSON.parse(raw);
+      const workspace = migrateWorkspace(parsed);
+      // write back upgraded documents so the migration only runs once
+      if (parsed.version !== workspace.version) {
+        this.save(workspace, false);
+      }
+      return workspace;
+    } catch (error) {
+      console.error(`Failed to load workspace ${id}:`, error);
+      return null;
+    }
+  }
+
+  // throws when storage is full so callers can surface it
+  save(workspace: Workspace, touch = true): Workspace {
+    const saved = touch ? { ...workspace, updatedAt: new Date().toISOString() } : workspace;
+    this.storage.setItem(workspaceKey(saved.id), JSON.stringify(saved));
+
+    const index = this.readIndex();
+    const summary = summarize(saved);
+    const existing = index.workspaces.findIndex(w => w.id === saved.id);
+    if (existing >= 0) {
+      index.workspaces[existing] = summary;
+    } else {
+      index.workspaces.push(summary);
+    }
+    this.writeIndex(index);
+    return saved;
+  }
+
+  create(name: string): Workspace {
+    return this.save(emptyWorkspace(name));
+  }
+
+  remove(id: string) {
+    this.storage.removeItem(workspaceKey(id));
+    const index = this.readIndex();
+    index.workspaces = index.workspaces.filter(w => w.id !== id);
+    if (index.lastOpenedId === id) index.lastOpenedId = null;
+    this.writeIndex(index);
+  }
+
+  setLastOpened(id: string) {
+    const index = this.readIndex();
+    index.lastOpenedId = id;
+    this.writeIndex(index);
+  }
+
+  // last session, else the most recent workspace, else a fresh one
+  restoreLast(): Workspace {
+    const index = this.readIndex();
+    const candidates = [index.lastOpenedId, ...this.list().map(w => w.id)].filter((id): id is string => !!id);
+    for (const id of candidates) {
+      const workspace = this.load(id);
+      if (workspace) return workspace;
+    }
+    return this.create('My Board');
+  }
+}